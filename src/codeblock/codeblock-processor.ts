@@ -4,6 +4,8 @@ import { VaultIndexer } from "../indexer/vault-indexer";
 import { TreeBuilder } from "../tree/tree-builder";
 import { TreeComponent } from "../components/tree-component";
 import { HierarchyConfig } from "../types/hierarchy-config";
+import { getNodeCount, getProgressPercent } from "../types/tree-node";
+import { formatAggregateValue, getAggregateLabel } from "../utils/aggregates";
 
 /**
  * Configuration options for rendering a tree in a codeblock
@@ -37,11 +39,52 @@ export class MetaGrouperCodeblockProcessor {
   private app: App;
   private plugin: MetaGrouperPlugin;
 
+  /** Indexer shared by all codeblocks (kept up to date by vault events) */
+  private indexer: VaultIndexer | null = null;
+  private indexerReady: Promise<void> | null = null;
+
+  /** Indexing settings the shared indexer was created with */
+  private indexerSettings = "";
+
   constructor(app: App, plugin: MetaGrouperPlugin) {
     this.app = app;
     this.plugin = plugin;
   }
 
+  /**
+   * Get the indexer shared by all codeblocks, indexing the vault on first use
+   * A new indexer is created when the indexing settings have changed.
+   */
+  private async getIndexer(): Promise<VaultIndexer> {
+    const options = {
+      inlineFields: this.plugin.settings.indexInlineFields,
+      inlineFieldBrackets: this.plugin.settings.inlineFieldBrackets,
+    };
+    const settings = JSON.stringify(options);
+
+    if (!this.indexer || this.indexerSettings !== settings) {
+      // Stop the replaced indexer's incremental updates
+      this.indexer?.destroy();
+      this.indexer = new VaultIndexer(this.app, options);
+      this.indexerSettings = settings;
+      this.indexerReady = this.indexer.initialize();
+    }
+
+    // Keep the indexer this render waits for, even if settings change meanwhile
+    const indexer = this.indexer;
+    await this.indexerReady;
+    return indexer;
+  }
+
+  /**
+   * Release the shared indexer (when the plugin unloads)
+   */
+  destroy(): void {
+    this.indexer?.destroy();
+    this.indexer = null;
+    this.indexerReady = null;
+  }
+
   /**
    * Parse the codeblock source into a configuration object
    */
@@ -151,9 +194,8 @@ export class MetaGrouperCodeblockProcessor {
         return;
       }
 
-      // Create indexer and builder
-      const indexer = new VaultIndexer(this.app);
-      await indexer.initialize();
+      // Reuse the shared indexer instead of re-reading the vault for every codeblock
+      const indexer = await this.getIndexer();
 
       const builder = new TreeBuilder(this.app, indexer);
 
@@ -211,6 +253,9 @@ export class MetaGrouperCodeblockProcessor {
     // Configure the tree component
     treeComponent.setDefaultExpandDepth(config.expanded || 1);
     treeComponent.setFileVisibility(config.showFiles ?? true);
+    treeComponent.setShowHeadings(hierarchyConfig.showHeadings ?? false);
+    treeComponent.setAggregates(hierarchyConfig.aggregates ?? []);
+    treeComponent.setCountMode(hierarchyConfig.countMode ?? "occurrences");
 
     // Render the tree
     treeComponent.render(tree, container);
@@ -232,7 +277,7 @@ export class MetaGrouperCodeblockProcessor {
   ): Promise<void> {
     // Create a simple nested list representation
     const ul = container.createEl("ul", { cls: "metagrouper-list" });
-    this.renderNodeAsList(tree, ul, config);
+    this.renderNodeAsList(tree, ul, config, hierarchyConfig);
   }
 
   /**
@@ -242,12 +287,13 @@ export class MetaGrouperCodeblockProcessor {
     node: any,
     parent: HTMLElement,
     config: CodeblockConfig,
+    hierarchyConfig: HierarchyConfig,
     depth: number = 0
   ): void {
     // Skip root node
     if (node.id === "root") {
       node.children.forEach((child: any) => {
-        this.renderNodeAsList(child, parent, config, depth);
+        this.renderNodeAsList(child, parent, config, hierarchyConfig, depth);
       });
       return;
     }
@@ -262,8 +308,8 @@ export class MetaGrouperCodeblockProcessor {
     // Create node content
     const span = li.createEl("span", { cls: "metagrouper-node-name" });
 
-    if (node.type === "file" && node.files[0]) {
-      // Render file as a link
+    if ((node.type === "file" || node.type === "note") && node.files[0]) {
+      // Render file (or parent-link note) as a link
       const link = span.createEl("a", {
         cls: "internal-link",
         href: node.files[0].path,
@@ -281,9 +327,22 @@ export class MetaGrouperCodeblockProcessor {
       // Render tag/group node
       span.textContent = node.name;
       if (node.fileCount > 0) {
+        // Progress and aggregate values follow the file count, e.g. "(3, 67% done, sum estimate 8)"
+        const detailTexts = (hierarchyConfig.aggregates ?? [])
+          .map((aggregate, index) => {
+            const value = node.aggregates?.[index];
+            return value !== null && value !== undefined
+              ? `${getAggregateLabel(aggregate)} ${formatAggregateValue(value, aggregate)}`
+              : null;
+          })
+          .filter((text): text is string => text !== null);
+        const percent = getProgressPercent(node);
+        if (percent !== null) {
+          detailTexts.unshift(`${percent}% done`);
+        }
         span.createEl("span", {
           cls: "metagrouper-count",
-          text: ` (${node.fileCount})`,
+          text: ` (${[String(getNodeCount(node, hierarchyConfig.countMode)), ...detailTexts].join(", ")})`,
         });
       }
     }
@@ -294,7 +353,7 @@ export class MetaGrouperCodeblockProcessor {
       if (depth < (config.expanded || 1)) {
         const childUl = li.createEl("ul");
         node.children.forEach((child: any) => {
-          this.renderNodeAsList(child, childUl, config, depth + 1);
+          this.renderNodeAsList(child, childUl, config, hierarchyConfig, depth + 1);
         });
       }
     }
@@ -1,6 +1,8 @@
 import { App, TFile, Menu, setIcon } from "obsidian";
-import { TreeNode } from "../types/tree-node";
+import { TreeNode, createHeadingOutline, getNodeCount, getProgressPercent } from "../types/tree-node";
 import { SortMode, FileSortMode } from "../types/view-state";
+import { GroupAggregate, NodeCountMode } from "../types/hierarchy-config";
+import { formatAggregateValue, getAggregateLabel } from "../utils/aggregates";
 
 /**
  * TreeComponent - Renders and manages the collapsible tree UI
@@ -10,6 +12,7 @@ import { SortMode, FileSortMode } from "../types/view-state";
  * - Handle click events for navigation and toggling
  * - Maintain UI state (expanded/collapsed nodes, file visibility, sort mode)
  * - Support smart partial DOM updates
+ * - Optionally expand file nodes into their headings (built on first expand)
  */
 export class TreeComponent {
   private app: App;
@@ -25,6 +28,9 @@ export class TreeComponent {
 
   // Configuration
   private defaultExpandDepth: number = 1;
+  private showHeadings: boolean = false;
+  private aggregates: GroupAggregate[] = [];
+  private countMode: NodeCountMode = "occurrences";
 
   // DOM element cache for smart updates
   private nodeElements: Map<string, HTMLElement> = new Map();
@@ -119,10 +125,21 @@ export class TreeComponent {
       return parent;
     }
 
+    // Build heading nodes of an expanded file (lazy: only once it is expanded)
+    if (this.isExpanded(node.id)) {
+      this.loadHeadings(node);
+    }
+
     // Create node element
     const nodeEl = parent.createDiv("tree-node");
     nodeEl.dataset.nodeId = node.id;
     nodeEl.dataset.nodeType = node.type;
+    if (node.metadata?.missingValue) {
+      nodeEl.dataset.missing = "true";
+    }
+    if (node.metadata?.cycle) {
+      nodeEl.dataset.cycle = "true";
+    }
 
     // Add hierarchy level index for styling (but NOT for file nodes and NOT for flattened nodes)
     if (node.metadata?.levelIndex !== undefined && node.type !== "file" && !node.metadata?.flattenedPath) {
@@ -179,6 +196,16 @@ export class TreeComponent {
         setIcon(nodeIcon, "tags");
       } else if (node.type === "property-group") {
         setIcon(nodeIcon, "list");
+      } else if (node.type === "folder") {
+        setIcon(nodeIcon, "folder");
+      } else if (node.type === "date") {
+        setIcon(nodeIcon, "calendar");
+      } else if (node.type === "note") {
+        setIcon(nodeIcon, node.metadata?.cycle ? "repeat" : "file-text");
+      } else if (node.type === "smart-group") {
+        setIcon(nodeIcon, "filter");
+      } else if (node.type === "heading") {
+        setIcon(nodeIcon, "heading");
       }
     }
 
@@ -211,10 +238,33 @@ export class TreeComponent {
       nameEl.textContent = node.name;
     }
 
+    // Add aggregate values (for non-file nodes)
+    if (node.type !== "file" && node.aggregates?.some((value) => value !== null)) {
+      const aggregatesEl = header.createSpan("tree-node-aggregates");
+      this.aggregates.forEach((aggregate, index) => {
+        const value = node.aggregates![index];
+        if (value !== null && value !== undefined) {
+          const aggregateEl = aggregatesEl.createSpan("tree-node-aggregate");
+          aggregateEl.textContent = `${getAggregateLabel(aggregate)} ${formatAggregateValue(value, aggregate)}`;
+        }
+      });
+    }
+
+    // Add progress bar (for non-file nodes)
+    const percent = node.type !== "file" ? getProgressPercent(node) : null;
+    if (percent !== null) {
+      const progressEl = header.createSpan("tree-node-progress");
+      const barEl = progressEl.createEl("progress", { cls: "tree-node-progress-bar" });
+      barEl.max = node.progress!.total;
+      barEl.value = node.progress!.done;
+      const percentEl = progressEl.createSpan("tree-node-progress-percent");
+      percentEl.textContent = `${percent}%`;
+    }
+
     // Add file count (for non-file nodes)
     if (node.type !== "file" && node.fileCount > 0) {
       const countEl = header.createSpan("tree-node-count");
-      countEl.textContent = `(${node.fileCount})`;
+      countEl.textContent = `(${getNodeCount(node, this.countMode)})`;
     }
 
     // Add tooltip with additional info
@@ -224,7 +274,7 @@ export class TreeComponent {
     header.addEventListener("click", (e) => {
       // Ctrl+click triggers search for tag and property nodes
       if (e.ctrlKey || e.metaKey) {
-        if (node.type !== "file" && this.onNodeSearch) {
+        if (node.type !== "file" && node.type !== "heading" && this.onNodeSearch) {
           e.preventDefault();
           e.stopPropagation();
           this.onNodeSearch(node);
@@ -233,15 +283,22 @@ export class TreeComponent {
       }
 
       // Regular click behavior
-      if (node.type === "file" && node.files[0]) {
+      if (node.type === "heading" && node.files[0]) {
+        // Heading nodes open their file scrolled to the heading
+        this.openFile(node.files[0], node.metadata?.heading?.line);
+      } else if ((node.type === "file" || node.type === "note") && node.files[0]) {
+        // Note nodes open their note (the collapse icon still toggles)
         this.openFile(node.files[0]);
+      } else if (node.metadata?.linkTarget) {
+        // Resolved link groups open the linked note (the collapse icon still toggles)
+        this.openLinkTarget(node.metadata.linkTarget);
       } else if (hasVisibleChildren) {
         this.toggleNode(node.id);
       }
     });
 
     // Context menu handler for tag/property nodes (for sort mode change)
-    if (node.type !== "file" && this.onNodeSortChange) {
+    if (node.type !== "file" && node.type !== "heading" && this.onNodeSortChange) {
       header.addEventListener("contextmenu", (e) => {
         e.preventDefault();
         e.stopPropagation();
@@ -266,7 +323,7 @@ export class TreeComponent {
    */
   private hasVisibleChildren(node: TreeNode): boolean {
     if (node.children.length === 0) {
-      return false;
+      return this.hasHeadings(node);
     }
 
     // If showing files, any children count as visible
@@ -278,26 +335,97 @@ export class TreeComponent {
     return node.children.some(child => child.type !== "file");
   }
 
+  /**
+   * Check if a file node can expand into headings (without building them)
+   */
+  private hasHeadings(node: TreeNode): boolean {
+    if (!this.showHeadings || node.type !== "file" || !node.files[0]) {
+      return false;
+    }
+
+    const headings = this.app.metadataCache.getFileCache(node.files[0])?.headings;
+    return !!headings && headings.length > 0;
+  }
+
+  /**
+   * Build the heading nodes of a file node (once, on first expand)
+   */
+  private loadHeadings(node: TreeNode): void {
+    if (node.children.length > 0 || !this.hasHeadings(node)) {
+      return;
+    }
+
+    const headings = this.app.metadataCache.getFileCache(node.files[0])?.headings ?? [];
+    node.children = createHeadingOutline(node, headings);
+  }
+
   /**
    * Add tooltip to a node header
    */
   private addTooltip(header: HTMLElement, node: TreeNode): void {
     let tooltipText = "";
+    const counts = this.formatCounts(node, "file");
 
     if (node.type === "file") {
       tooltipText = node.files[0]?.path || node.name;
+    } else if (node.type === "heading") {
+      tooltipText = `${node.files[0]?.path || ""}#${node.name}`;
+    } else if (node.type === "note") {
+      tooltipText = node.metadata?.cycle
+        ? `${node.files[0]?.path || node.name}\nCycle: this note already appears above`
+        : `${node.files[0]?.path || node.name}\n${this.formatCounts(node, "note")}`;
+    } else if (node.metadata?.missingValue) {
+      const missingKey = node.metadata.missingValue.key || node.metadata.missingValue.levelType;
+      tooltipText = `No value for ${missingKey}\n${counts}`;
+    } else if (node.metadata?.otherGroup) {
+      tooltipText = `${node.metadata.otherGroup.foldedCount} smaller group(s) folded together\n${counts}`;
+    } else if (node.metadata?.smartGroup) {
+      tooltipText = `Smart group: ${node.metadata.smartGroup.name}\n${counts}`;
     } else if (node.metadata?.tagPath) {
-      tooltipText = `Tag: #${node.metadata.tagPath}\n${node.fileCount} file(s)`;
+      tooltipText = `Tag: #${node.metadata.tagPath}\n${counts}`;
+    } else if (node.metadata?.dateBucket) {
+      const source = node.metadata.dateBucket.property ?? "file date";
+      tooltipText = `Date: ${node.metadata.dateBucket.key} (${source})\n${counts}`;
+    } else if (node.metadata?.folderPath) {
+      tooltipText = `Folder: ${node.metadata.folderPath}\n${counts}`;
+    } else if (node.metadata?.linkTarget) {
+      tooltipText = `Property: ${node.metadata.propertyKey} → ${node.metadata.linkTarget}\n${counts}`;
     } else if (node.metadata?.propertyKey) {
-      tooltipText = `Property: ${node.metadata.propertyKey} = ${node.metadata.propertyValue}\n${node.fileCount} file(s)`;
+      tooltipText = `Property: ${node.metadata.propertyKey} = ${node.metadata.propertyValue}\n${counts}`;
     } else {
-      tooltipText = `${node.name}\n${node.fileCount} file(s)`;
+      tooltipText = `${node.name}\n${counts}`;
+    }
+
+    // Show progress below the file count
+    const percent = node.type !== "file" ? getProgressPercent(node) : null;
+    if (percent !== null) {
+      tooltipText += `\n${node.progress!.done} of ${node.progress!.total} done (${percent}%)`;
+    }
+
+    // List aggregate values below the file count
+    if (node.type !== "file" && node.aggregates) {
+      this.aggregates.forEach((aggregate, index) => {
+        const value = node.aggregates![index];
+        if (value !== null && value !== undefined) {
+          tooltipText += `\n${getAggregateLabel(aggregate)}: ${formatAggregateValue(value, aggregate)}`;
+        }
+      });
     }
 
     // Use only native browser tooltip (title attribute)
     header.setAttribute("title", tooltipText);
   }
 
+  /**
+   * Format both file counts of a node for its tooltip (e.g., "3 unique file(s), 4 occurrence(s)")
+   *
+   * @param noun - What is counted ("file" or "note")
+   */
+  private formatCounts(node: TreeNode, noun: string): string {
+    const unique = getNodeCount(node, "unique");
+    return `${unique} unique ${noun}(s), ${node.fileCount} occurrence(s)`;
+  }
+
   /**
    * Toggle a node's expanded/collapsed state (smart update)
    */
@@ -330,6 +458,16 @@ export class TreeComponent {
 
     const isExpanded = this.isExpanded(nodeId);
 
+    // Find the node in the tree
+    const node = this.findNodeById(this.currentTree, nodeId);
+    if (!node) {
+      return;
+    }
+
+    if (isExpanded) {
+      this.loadHeadings(node);
+    }
+
     // Update collapsed class
     if (isExpanded) {
       nodeEl.removeClass("collapsed");
@@ -350,12 +488,6 @@ export class TreeComponent {
       }
     }
 
-    // Find the node in the tree
-    const node = this.findNodeById(this.currentTree, nodeId);
-    if (!node) {
-      return;
-    }
-
     // Get or create children container
     let childrenContainer = nodeEl.querySelector(
       ".tree-node-children"
@@ -416,10 +548,22 @@ export class TreeComponent {
 
   /**
    * Open a file in the editor
+   *
+   * @param line - Line to scroll to (e.g., a heading's line)
    */
-  private async openFile(file: TFile): Promise<void> {
+  private async openFile(file: TFile, line?: number): Promise<void> {
     const leaf = this.app.workspace.getLeaf(false);
-    await leaf.openFile(file);
+    await leaf.openFile(file, line !== undefined ? { eState: { line } } : undefined);
+  }
+
+  /**
+   * Open the note a resolved link group points to
+   */
+  private async openLinkTarget(path: string): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      await this.openFile(file);
+    }
   }
 
   /**
@@ -518,6 +662,27 @@ export class TreeComponent {
     this.defaultExpandDepth = depth;
   }
 
+  /**
+   * Set whether file nodes can expand into their headings
+   */
+  setShowHeadings(show: boolean): void {
+    this.showHeadings = show;
+  }
+
+  /**
+   * Set which file count nodes show
+   */
+  setCountMode(mode: NodeCountMode): void {
+    this.countMode = mode;
+  }
+
+  /**
+   * Set the view's aggregates (labels and formats of node aggregate values, aggregate sort options)
+   */
+  setAggregates(aggregates: GroupAggregate[]): void {
+    this.aggregates = aggregates;
+  }
+
   /**
    * Get expanded nodes (for state persistence)
    */
@@ -739,7 +904,7 @@ export class TreeComponent {
    * Handle right arrow key (expand node)
    */
   private handleRightArrow(node: TreeNode): void {
-    if (node.children.length > 0) {
+    if (node.children.length > 0 || this.hasHeadings(node)) {
       if (!this.isExpanded(node.id)) {
         this.toggleNode(node.id);
       } else {
@@ -772,14 +937,18 @@ export class TreeComponent {
    */
   private handleEnter(node: TreeNode, ctrlKey: boolean = false): void {
     // Ctrl+Enter triggers search for tag and property nodes
-    if (ctrlKey && node.type !== "file" && this.onNodeSearch) {
+    if (ctrlKey && node.type !== "file" && node.type !== "heading" && this.onNodeSearch) {
       this.onNodeSearch(node);
       return;
     }
 
     // Regular Enter behavior
-    if (node.type === "file" && node.files[0]) {
+    if (node.type === "heading" && node.files[0]) {
+      this.openFile(node.files[0], node.metadata?.heading?.line);
+    } else if ((node.type === "file" || node.type === "note") && node.files[0]) {
       this.openFile(node.files[0]);
+    } else if (node.metadata?.linkTarget) {
+      this.openLinkTarget(node.metadata.linkTarget);
     } else if (node.children.length > 0) {
       this.toggleNode(node.id);
     }
@@ -790,13 +959,13 @@ export class TreeComponent {
    */
   private handleSpace(node: TreeNode, ctrlKey: boolean = false): void {
     // Ctrl+Space triggers search for tag and property nodes
-    if (ctrlKey && node.type !== "file" && this.onNodeSearch) {
+    if (ctrlKey && node.type !== "file" && node.type !== "heading" && this.onNodeSearch) {
       this.onNodeSearch(node);
       return;
     }
 
     // Regular Space behavior
-    if (node.children.length > 0) {
+    if (node.children.length > 0 || this.hasHeadings(node)) {
       this.toggleNode(node.id);
     }
   }
@@ -815,11 +984,27 @@ export class TreeComponent {
     const sortModes: Array<{ mode: SortMode; label: string }> = [
       { mode: "alpha-asc", label: "A → Z" },
       { mode: "alpha-desc", label: "Z → A" },
+      { mode: "natural-asc", label: "Natural (2 before 10)" },
+      { mode: "natural-desc", label: "Natural (descending)" },
+      { mode: "numeric-asc", label: "Number (low to high)" },
+      { mode: "numeric-desc", label: "Number (high to low)" },
+      { mode: "date-asc", label: "Date (oldest first)" },
+      { mode: "date-desc", label: "Date (newest first)" },
       { mode: "count-desc", label: "Count (high to low)" },
       { mode: "count-asc", label: "Count (low to high)" },
+      { mode: "custom", label: "Custom order" },
       { mode: "none", label: "Unsorted" },
     ];
 
+    // Sort by each of the view's aggregates
+    this.aggregates.forEach((aggregate, index) => {
+      const label = getAggregateLabel(aggregate);
+      sortModes.push(
+        { mode: `aggregate-desc:${index}`, label: `${label} (high to low)` },
+        { mode: `aggregate-asc:${index}`, label: `${label} (low to high)` }
+      );
+    });
+
     // Add section header
     menu.addItem((item) => {
       item
@@ -1,6 +1,6 @@
 import { setIcon, DropdownComponent, ButtonComponent, ToggleComponent } from "obsidian";
-import { SortMode, FileSortMode } from "../types/view-state";
-import { HierarchyConfig, HierarchyDisplayMode } from "../types/hierarchy-config";
+import { SortMode, FileSortMode, parsePropertyFileSortMode } from "../types/view-state";
+import { HierarchyConfig, HierarchyDisplayMode, getAllLevels } from "../types/hierarchy-config";
 import { FilterConfig } from "../types/filters";
 
 /**
@@ -18,6 +18,8 @@ export interface TreeToolbarCallbacks {
   onQuickFilterChange?: () => void; // Called when a quick filter value changes
   onDisplayModeToggle?: () => void; // Called when display mode is toggled
   onOpenViewSettings?: () => void; // Called when settings button is clicked
+  onGroupValueToggle?: (levelIndex: number, name: string) => void; // Called when a group is shown or hidden
+  onShowAllGroups?: () => void; // Called when all hidden groups are shown again
 }
 
 /**
@@ -39,6 +41,10 @@ export class TreeToolbar {
   private originalFilterValues: Map<string, any> = new Map(); // Store original filter values for reset
   private currentDisplayMode: HierarchyDisplayMode = "tree"; // Current display mode
   private displayModeButton: HTMLElement | null = null; // Reference to the display mode toggle button
+  private groupValues: Map<number, string[]> = new Map(); // Group names per level in the current tree
+  private hiddenGroupValues: Record<number, string[]> = {}; // Group names toggled off per level
+  private groupValuesButton: HTMLElement | null = null; // Reference to the show/hide groups button
+  private fileSortProperties: string[] = []; // Property keys files can be sorted by
 
   // File sort mode labels for dropdown
   private readonly fileSortModeLabels: Record<FileSortMode, string> = {
@@ -198,6 +204,24 @@ export class TreeToolbar {
       this.showSortMenu(sortButton);
     });
 
+    // Show/hide groups control in header
+    if (this.callbacks.onGroupValueToggle) {
+      this.groupValuesButton = headerControlsGroup.createEl("button", {
+        cls: "clickable-icon metagrouper-header-control",
+        attr: {
+          "aria-label": "Show or hide groups",
+        },
+      });
+      setIcon(this.groupValuesButton, "list-checks");
+      this.updateGroupValuesButton();
+      const groupValuesButton = this.groupValuesButton;
+      groupValuesButton.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.showGroupValuesMenu(groupValuesButton);
+      });
+    }
+
     // Refresh/rebuild tree button in header (sixth)
     if (this.callbacks.onRefreshTree) {
       const refreshBtn = headerControlsGroup.createEl("button", {
@@ -305,6 +329,30 @@ export class TreeToolbar {
       });
     });
 
+    // Sort by a property: clicking the current property reverses the direction
+    if (this.fileSortProperties.length > 0) {
+      const propertySort = parsePropertyFileSortMode(this.currentFileSortMode);
+
+      menu.addSeparator();
+      menu.addItem((item: any) => {
+        item.setTitle("Property").setIsLabel(true);
+      });
+
+      for (const key of this.fileSortProperties) {
+        const isCurrent = propertySort?.key === key;
+        menu.addItem((item: any) => {
+          item
+            .setTitle(isCurrent ? `${key} ${propertySort!.direction === "asc" ? "↑" : "↓"}` : key)
+            .setChecked(isCurrent)
+            .onClick(() => {
+              const direction = isCurrent && propertySort!.direction === "asc" ? "desc" : "asc";
+              this.currentFileSortMode = `property-${direction}:${key}`;
+              this.callbacks.onFileSortChange(this.currentFileSortMode);
+            });
+        });
+      }
+    }
+
     // Show menu at button position
     const rect = button.getBoundingClientRect();
     menu.showAtPosition({
@@ -315,6 +363,88 @@ export class TreeToolbar {
 
 
 
+  /**
+   * Show the menu toggling group values on and off, per level
+   */
+  private showGroupValuesMenu(button: HTMLElement): void {
+    const { Menu } = require("obsidian");
+
+    const menu = new Menu();
+    const levels = this.currentViewConfig ? getAllLevels(this.currentViewConfig.levels) : [];
+    const levelIndices = Array.from(this.groupValues.keys()).sort((a, b) => a - b);
+
+    levelIndices.forEach((levelIndex, i) => {
+      if (i > 0) {
+        menu.addSeparator();
+      }
+
+      const level = levels[levelIndex];
+      menu.addItem((item: any) => {
+        item
+          .setTitle(level ? level.label || level.key || level.type : `Level ${levelIndex + 1}`)
+          .setIsLabel(true);
+      });
+
+      const hidden = this.hiddenGroupValues[levelIndex] ?? [];
+      for (const name of this.groupValues.get(levelIndex)!) {
+        menu.addItem((item: any) => {
+          item
+            .setTitle(name)
+            .setChecked(!hidden.includes(name))
+            .onClick(() => {
+              if (this.callbacks.onGroupValueToggle) {
+                this.callbacks.onGroupValueToggle(levelIndex, name);
+              }
+            });
+        });
+      }
+    });
+
+    if (levelIndices.length === 0) {
+      menu.addItem((item: any) => {
+        item.setTitle("No groups to show or hide").setDisabled(true);
+      });
+    }
+
+    // Reset, if anything is hidden
+    if (Object.values(this.hiddenGroupValues).some((names) => names.length > 0)) {
+      menu.addSeparator();
+      menu.addItem((item: any) => {
+        item
+          .setTitle("Show all groups")
+          .setIcon("eye")
+          .onClick(() => {
+            if (this.callbacks.onShowAllGroups) {
+              this.callbacks.onShowAllGroups();
+            }
+          });
+      });
+    }
+
+    // Show menu at button position
+    const rect = button.getBoundingClientRect();
+    menu.showAtPosition({
+      x: rect.left,
+      y: rect.bottom,
+    });
+  }
+
+  /**
+   * Highlight the show/hide groups button while groups are hidden
+   */
+  private updateGroupValuesButton(): void {
+    if (!this.groupValuesButton) {
+      return;
+    }
+
+    const hiddenCount = Object.values(this.hiddenGroupValues).reduce((sum, names) => sum + names.length, 0);
+    this.groupValuesButton.toggleClass("is-active", hiddenCount > 0);
+    this.groupValuesButton.setAttribute(
+      "aria-label",
+      hiddenCount > 0 ? `Show or hide groups (${hiddenCount} hidden)` : "Show or hide groups"
+    );
+  }
+
   /**
    * Render interactive filter controls (for eye-selected filters)
    */
@@ -499,6 +629,9 @@ export class TreeToolbar {
       case "link-count":
         this.renderLinkCountFilterControls(container, filter);
         break;
+      case "task-count":
+        this.renderTaskCountFilterControls(container, filter);
+        break;
       case "bookmark":
         this.renderBookmarkFilterControls(container, filter);
         break;
@@ -681,6 +814,38 @@ export class TreeToolbar {
     });
   }
 
+  private renderTaskCountFilterControls(container: HTMLElement, filter: any): void {
+    // Show task status as read-only label
+    const statusLabel = container.createSpan({
+      text: filter.status === "open" ? "Open tasks" :
+            filter.status === "done" ? "Done tasks" :
+            filter.status === "all" ? "Tasks" : `Tasks [${filter.status}]`
+    });
+    statusLabel.style.fontWeight = "400";
+    statusLabel.style.marginRight = "var(--size-2-2)";
+
+    // Allow changing operator and value only
+    new DropdownComponent(container)
+      .addOption("eq", "=")
+      .addOption("lt", "<")
+      .addOption("lte", "≤")
+      .addOption("gt", ">")
+      .addOption("gte", "≥")
+      .setValue(filter.operator || "gt")
+      .onChange((value) => {
+        filter.operator = value as any;
+        this.onFilterChanged();
+      });
+
+    const valueInput = container.createEl("input", { type: "number", cls: "metagrouper-filter-input" });
+    valueInput.value = String(filter.value || "0");
+    valueInput.style.width = "80px";
+    valueInput.addEventListener("change", () => {
+      filter.value = parseInt(valueInput.value) || 0;
+      this.onFilterChanged();
+    });
+  }
+
   private renderBookmarkFilterControls(container: HTMLElement, filter: any): void {
     const bookmarkLabel = container.createSpan({ text: "File" });
     bookmarkLabel.style.fontWeight = "400";
@@ -783,7 +948,49 @@ export class TreeToolbar {
         descriptions.push(`Tags: ${key} (${depth})`);
       } else if (level.type === "property") {
         const propLevel = level as any;
-        descriptions.push(`Property: ${propLevel.key}`);
+        const bucketing = propLevel.bucketing ? ` (${propLevel.bucketing.mode} buckets)` : "";
+        const key = propLevel.via ? `${propLevel.via} → ${propLevel.key}` : propLevel.key;
+        const source = propLevel.propertySource && propLevel.propertySource !== "frontmatter"
+          ? ` [${propLevel.propertySource}]`
+          : "";
+        const mapped = propLevel.valueMapping ? " (mapped)" : "";
+        descriptions.push(`Property: ${key}${source}${bucketing}${mapped}`);
+      } else if (level.type === "folder") {
+        const folderLevel = level as any;
+        const key = folderLevel.key || "all folders";
+        const depth = folderLevel.depth === -1 ? "unlimited depth" : `${folderLevel.depth} level${folderLevel.depth > 1 ? 's' : ''}`;
+        descriptions.push(`Folders: ${key} (${depth})`);
+      } else if (level.type === "date") {
+        const dateLevel = level as any;
+        const source = dateLevel.source === "ctime" ? "created" :
+                       dateLevel.source === "mtime" ? "modified" : dateLevel.key;
+        const granularity = (dateLevel.granularity || []).join(" → ");
+        descriptions.push(`Date: ${source} (${granularity})`);
+      } else if (level.type === "parent-link") {
+        descriptions.push(`Parent links: ${level.key}`);
+      } else if (level.type === "smart-group") {
+        const smartLevel = level as any;
+        const names = (smartLevel.groups || []).map((group: any) => group.name).join(", ");
+        const mode = smartLevel.matchMode === "all" ? "all matches" : "first match";
+        descriptions.push(`Smart groups: ${names} (${mode})`);
+      } else if (level.type === "computed") {
+        descriptions.push(`Computed: ${(level as any).template}`);
+      } else if (level.type === "regex") {
+        const regexLevel = level as any;
+        const source = regexLevel.source === "path" ? "path" : "name";
+        descriptions.push(`Regex on ${source}: ${regexLevel.group || regexLevel.key}`);
+      } else if (level.type === "task") {
+        const taskLevel = level as any;
+        descriptions.push(`Tasks (${taskLevel.groupBy === "status" ? "by status" : "by state"})`);
+      } else if (level.type === "composite") {
+        const keys = ((level as any).keys || []).map((part: any) => part.key).join(", ");
+        descriptions.push(`Composite: (${keys})`);
+      }
+
+      // Levels with branches use other sub-levels below some of their groups
+      const branchCount = level.branches?.length ?? 0;
+      if (branchCount > 0 && descriptions.length > 0) {
+        descriptions[descriptions.length - 1] += ` (${branchCount} branch${branchCount > 1 ? "es" : ""})`;
       }
     }
 
@@ -859,6 +1066,17 @@ export class TreeToolbar {
                    filter.operator === "gte" ? "at least" : filter.operator;
         return `File has ${op} ${filter.value} ${linkType}`;
       }
+      case "task-count": {
+        const tasks = filter.status === "open" ? "open tasks" :
+                      filter.status === "done" ? "done tasks" :
+                      filter.status === "all" ? "tasks" : `[${filter.status}] tasks`;
+        const op = filter.operator === "eq" ? "exactly" :
+                   filter.operator === "lt" ? "fewer than" :
+                   filter.operator === "lte" ? "at most" :
+                   filter.operator === "gt" ? "more than" :
+                   filter.operator === "gte" ? "at least" : filter.operator;
+        return `File has ${op} ${filter.value} ${tasks}`;
+      }
       case "bookmark":
         return filter.isBookmarked ? "File is bookmarked" : "File is not bookmarked";
       default:
@@ -1038,6 +1256,25 @@ export class TreeToolbar {
     }
   }
 
+  /**
+   * Update the group names that can be toggled and the ones toggled off
+   *
+   * @param values - Group names per level in the current tree
+   * @param hidden - Group names toggled off per level
+   */
+  setGroupValues(values: Map<number, string[]>, hidden: Record<number, string[]>): void {
+    this.groupValues = values;
+    this.hiddenGroupValues = hidden;
+    this.updateGroupValuesButton();
+  }
+
+  /**
+   * Update the property keys listed in the file sort menu
+   */
+  setFileSortProperties(keys: string[]): void {
+    this.fileSortProperties = [...keys].sort((a, b) => a.localeCompare(b));
+  }
+
   /**
    * Set filter overrides enabled state
    */
@@ -1,7 +1,7 @@
-import { App, Modal, Setting, Notice, setIcon } from "obsidian";
+import { App, DropdownComponent, Modal, Setting, Notice, setIcon } from "obsidian";
 import type MetaGrouperPlugin from "../main";
-import { HierarchyConfig, validateHierarchyConfig, createHierarchyConfig, createTagLevel, createPropertyLevel, HierarchyLevel, TagHierarchyLevel, PropertyHierarchyLevel, LevelColorMode } from "../types/hierarchy-config";
-import { SortMode, FileSortMode } from "../types/view-state";
+import { HierarchyConfig, validateHierarchyConfig, validateHierarchyLevel, createHierarchyConfig, createTagLevel, createPropertyLevel, createFolderLevel, createDateLevel, createParentLinkLevel, createSmartGroupLevel, createComputedLevel, createRegexLevel, createTaskLevel, createCompositeLevel, getMissingGroupLabel, HierarchyLevel, TagHierarchyLevel, PropertyHierarchyLevel, FolderHierarchyLevel, DateHierarchyLevel, SmartGroupHierarchyLevel, SmartGroupMatchMode, ComputedHierarchyLevel, RegexHierarchyLevel, RegexSource, TaskHierarchyLevel, TaskGrouping, CompositeHierarchyLevel, LevelValueType, GroupAggregate, DateGranularity, DateSource, LevelColorMode } from "../types/hierarchy-config";
+import { SortMode, FileSortMode, parsePropertyFileSortMode } from "../types/view-state";
 import {
   FilterConfig,
   LabeledFilter,
@@ -10,10 +10,12 @@ import {
   TagFilter,
   PropertyExistsFilter,
   PropertyValueFilter,
+  PropertySource,
   FilePathFilter,
   FileSizeFilter,
   FileDateFilter,
   LinkCountFilter,
+  TaskCountFilter,
   BookmarkFilter,
   FILTER_TYPE_METADATA,
   STRING_OPERATORS,
@@ -26,6 +28,11 @@ import {
   LINK_COUNT_OPERATORS,
 } from "../types/filters";
 import { DEFAULT_LEVEL_COLORS } from "../settings/plugin-settings";
+import { DEFAULT_DATE_FORMATS } from "../utils/date-buckets";
+import { validateTemplate } from "../utils/template-expression";
+import { compileCapturePattern, getRegexCapture, validateCapturePattern } from "../utils/regex-capture";
+import { DEFAULT_OPEN_TASK_STATUSES } from "../utils/task-status";
+import { formatAggregateLine, getAggregateLabel, parseAggregateLine } from "../utils/aggregates";
 import { ExpressionParser, validateFilterLabels } from "../filters/expression-parser";
 import { generateFilterId } from "../filters/filter-utils";
 
@@ -169,6 +176,88 @@ export class ViewEditorModal extends Modal {
       true
     );
 
+    // Aggregates shown on group nodes
+    new Setting(sortingSection)
+      .setName("Aggregates (optional)")
+      .setDesc("One per line: sum, avg, min or max of a numeric property or of file.mtime, file.ctime or file.size, optionally followed by 'as <label>'. Save and reopen to sort by new aggregates.")
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("sum estimate\nmax file.mtime as Last edit")
+          .setValue((this.workingView.aggregates || []).map((aggregate) => formatAggregateLine(aggregate)).join("\n"))
+          .onChange((value) => {
+            const aggregates = value
+              .split("\n")
+              .map((line) => parseAggregateLine(line))
+              .filter((aggregate): aggregate is GroupAggregate => aggregate !== null);
+            this.workingView.aggregates = aggregates.length > 0 ? aggregates : undefined;
+          });
+        text.inputEl.rows = 2;
+        text.inputEl.style.fontFamily = "monospace";
+      });
+
+    // Which file count nodes show and count-based sorting uses
+    new Setting(sortingSection)
+      .setName("File counts")
+      .setDesc("Count a file once per group it appears in (a note with two matching tags counts twice), or once")
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("occurrences", "Occurrences")
+          .addOption("unique", "Unique files")
+          .setValue(this.workingView.countMode || "occurrences")
+          .onChange((value) => {
+            this.workingView.countMode = value === "unique" ? "unique" : undefined;
+          });
+      });
+
+    // Progress bar on group nodes: checkbox property or filters (filters take precedence)
+    let progressProperty = this.workingView.progress?.property ?? "";
+    let progressFilters: FilterConfig | undefined = this.workingView.progress?.filters;
+    const updateProgress = () => {
+      if (progressFilters) {
+        this.workingView.progress = { filters: progressFilters };
+      } else if (progressProperty) {
+        this.workingView.progress = { property: progressProperty };
+      } else {
+        this.workingView.progress = undefined;
+      }
+    };
+    new Setting(sortingSection)
+      .setName("Progress (optional)")
+      .setDesc("Show the share of done files on group nodes. A file is done when a checkbox property is checked, or when it matches filters (JSON, same format as the view's filters), which take precedence.")
+      .addText((text) =>
+        text
+          .setPlaceholder("done")
+          .setValue(progressProperty)
+          .onChange((value) => {
+            progressProperty = value.trim();
+            updateProgress();
+          })
+      )
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('{ "version": 2, "filters": [...], "expression": "" }')
+          .setValue(progressFilters ? JSON.stringify(progressFilters, null, 2) : "")
+          .onChange((value) => {
+            if (value.trim() === "") {
+              progressFilters = undefined;
+              text.inputEl.style.borderColor = "";
+              updateProgress();
+              return;
+            }
+
+            try {
+              progressFilters = JSON.parse(value);
+              text.inputEl.style.borderColor = "";
+              updateProgress();
+            } catch {
+              // Keep the last valid filters while the JSON is incomplete
+              text.inputEl.style.borderColor = "var(--text-error)";
+            }
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.style.fontFamily = "monospace";
+      });
+
     // Default node sort mode
     new Setting(sortingSection)
       .setName("Default node sort mode")
@@ -177,16 +266,27 @@ export class ViewEditorModal extends Modal {
         dropdown
           .addOption("alpha-asc", "Alphabetical (A-Z)")
           .addOption("alpha-desc", "Alphabetical (Z-A)")
+          .addOption("natural-asc", "Natural (2 before 10)")
+          .addOption("natural-desc", "Natural (descending)")
+          .addOption("numeric-asc", "Number (Lowest first)")
+          .addOption("numeric-desc", "Number (Highest first)")
+          .addOption("date-asc", "Date (Oldest first)")
+          .addOption("date-desc", "Date (Newest first)")
           .addOption("count-desc", "File count (Most first)")
           .addOption("count-asc", "File count (Least first)")
-          .addOption("none", "Unsorted")
+          .addOption("custom", "Custom order (per level)")
+          .addOption("none", "Unsorted");
+        this.addAggregateSortOptions(dropdown);
+        dropdown
           .setValue(this.workingView.defaultNodeSortMode || "alpha-asc")
           .onChange((value) => {
             this.workingView.defaultNodeSortMode = value as SortMode;
           });
       });
 
-    // Default file sort mode
+    // Default file sort mode (property modes keep their key in the mode, e.g. "property-asc:due")
+    const propertyFileSort = parsePropertyFileSortMode(this.workingView.defaultFileSortMode || "alpha-asc");
+    let fileSortProperty = propertyFileSort?.key ?? "";
     new Setting(sortingSection)
       .setName("Default file sort mode")
       .setDesc("How to sort files within each group")
@@ -200,13 +300,109 @@ export class ViewEditorModal extends Modal {
           .addOption("modified-asc", "Modified (Oldest first)")
           .addOption("size-desc", "Size (Largest first)")
           .addOption("size-asc", "Size (Smallest first)")
+          .addOption("property-asc", "Property (Lowest first)")
+          .addOption("property-desc", "Property (Highest first)")
           .addOption("none", "Unsorted")
-          .setValue(this.workingView.defaultFileSortMode || "alpha-asc")
+          .setValue(propertyFileSort ? `property-${propertyFileSort.direction}` : this.workingView.defaultFileSortMode || "alpha-asc")
+          .onChange((value) => {
+            this.workingView.defaultFileSortMode = value.startsWith("property-")
+              ? (`${value}:${fileSortProperty}` as FileSortMode)
+              : (value as FileSortMode);
+          });
+      });
+
+    new Setting(sortingSection)
+      .setName("File sort property")
+      .setDesc("Property used by the 'Property' file sort modes, e.g. 'due' or 'priority'")
+      .addText((text) =>
+        text
+          .setPlaceholder("due")
+          .setValue(fileSortProperty)
+          .onChange((value) => {
+            fileSortProperty = value.trim();
+            const currentSort = parsePropertyFileSortMode(this.workingView.defaultFileSortMode || "alpha-asc");
+            if (currentSort) {
+              this.workingView.defaultFileSortMode = `property-${currentSort.direction}:${fileSortProperty}`;
+            }
+          })
+      );
+
+    new Setting(sortingSection)
+      .setName("Files without the property")
+      .setDesc("Where the 'Property' file sort modes put files without a value")
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("last", "Last")
+          .addOption("first", "First")
+          .setValue(this.workingView.fileSortMissing || "last")
+          .onChange((value) => {
+            this.workingView.fileSortMissing = value === "first" ? "first" : undefined;
+          });
+      });
+
+    new Setting(sortingSection)
+      .setName("File sort tiebreaker")
+      .setDesc("How the 'Property' file sort modes order files with the same value")
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption("alpha-asc", "Alphabetical (A-Z)")
+          .addOption("alpha-desc", "Alphabetical (Z-A)")
+          .addOption("created-desc", "Created (Newest first)")
+          .addOption("created-asc", "Created (Oldest first)")
+          .addOption("modified-desc", "Modified (Newest first)")
+          .addOption("modified-asc", "Modified (Oldest first)")
+          .addOption("size-desc", "Size (Largest first)")
+          .addOption("size-asc", "Size (Smallest first)")
+          .setValue(this.workingView.fileSortTiebreaker || "alpha-asc")
           .onChange((value) => {
-            this.workingView.defaultFileSortMode = value as FileSortMode;
+            this.workingView.fileSortTiebreaker = value === "alpha-asc" ? undefined : (value as FileSortMode);
           });
       });
 
+    // Collation: language, accents and case in name comparisons
+    new Setting(sortingSection)
+      .setName("Sort language (optional)")
+      .setDesc("Language whose alphabet order is used, e.g. 'de' or 'sv' (default: the app's language)")
+      .addText((text) =>
+        text
+          .setPlaceholder("en")
+          .setValue(this.workingView.sortCollation?.locale || "")
+          .onChange((value) => {
+            this.workingView.sortCollation = {
+              ...this.workingView.sortCollation,
+              locale: value.trim() || undefined,
+            };
+          })
+      );
+
+    new Setting(sortingSection)
+      .setName("Accent-sensitive sorting")
+      .setDesc("Sort names differing only by accents apart (é after e) instead of together")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.workingView.sortCollation?.accentSensitive ?? false)
+          .onChange((value) => {
+            this.workingView.sortCollation = {
+              ...this.workingView.sortCollation,
+              accentSensitive: value || undefined,
+            };
+          })
+      );
+
+    new Setting(sortingSection)
+      .setName("Case-sensitive sorting")
+      .setDesc("Sort names differing only by case apart (a before A) instead of together")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.workingView.sortCollation?.caseSensitive ?? false)
+          .onChange((value) => {
+            this.workingView.sortCollation = {
+              ...this.workingView.sortCollation,
+              caseSensitive: value || undefined,
+            };
+          })
+      );
+
     // Default expanded depth
     new Setting(sortingSection)
       .setName("Default expansion depth")
@@ -249,6 +445,18 @@ export class ViewEditorModal extends Modal {
           })
       );
 
+    // Heading outline
+    new Setting(sortingSection)
+      .setName("Show headings under files")
+      .setDesc("Let file nodes expand into an outline of their headings. Click a heading to open the file at that section.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.workingView.showHeadings ?? false)
+          .onChange((value) => {
+            this.workingView.showHeadings = value;
+          })
+      );
+
     // Level colors section (collapsible)
     const colorsSection = this.createCollapsibleSection(
       contentWrapper,
@@ -338,6 +546,18 @@ export class ViewEditorModal extends Modal {
       );
   }
 
+  /**
+   * Add sort options for each of the view's aggregates to a node sort dropdown
+   */
+  private addAggregateSortOptions(dropdown: DropdownComponent): void {
+    (this.workingView.aggregates ?? []).forEach((aggregate, index) => {
+      const label = getAggregateLabel(aggregate);
+      dropdown
+        .addOption(`aggregate-desc:${index}`, `${label} (Highest first)`)
+        .addOption(`aggregate-asc:${index}`, `${label} (Lowest first)`);
+    });
+  }
+
   /**
    * Create a collapsible section using details/summary with state tracking
    */
@@ -378,9 +598,42 @@ export class ViewEditorModal extends Modal {
       const key = level.key || "(empty)";
       const depth = tagLevel.depth === -1 ? "full hierarchy" : `depth ${tagLevel.depth}`;
       return `Level ${levelNum}: #${key} tag (${depth})`;
+    } else if (level.type === "folder") {
+      const folderLevel = level as FolderHierarchyLevel;
+      const key = level.key || "(all folders)";
+      const depth = folderLevel.depth === -1 ? "full hierarchy" : `depth ${folderLevel.depth}`;
+      return `Level ${levelNum}: ${key} folder (${depth})`;
+    } else if (level.type === "parent-link") {
+      const key = level.key || "(empty)";
+      return `Level ${levelNum}: notes by ${key} links`;
+    } else if (level.type === "smart-group") {
+      const smartLevel = level as SmartGroupHierarchyLevel;
+      const key = level.key || "smart groups";
+      return `Level ${levelNum}: ${key} (${(smartLevel.groups || []).length} groups)`;
+    } else if (level.type === "computed") {
+      const template = (level as ComputedHierarchyLevel).template || "(empty)";
+      return `Level ${levelNum}: computed ${template}`;
+    } else if (level.type === "regex") {
+      const regexLevel = level as RegexHierarchyLevel;
+      const source = regexLevel.source === "path" ? "path" : "file name";
+      return `Level ${levelNum}: ${level.key || "(empty)"} from ${source}`;
+    } else if (level.type === "task") {
+      const taskLevel = level as TaskHierarchyLevel;
+      return `Level ${levelNum}: tasks by ${taskLevel.groupBy ?? "state"}`;
+    } else if (level.type === "composite") {
+      const keys = ((level as CompositeHierarchyLevel).keys || []).map((part) => part.key);
+      return `Level ${levelNum}: ${keys.length > 0 ? keys.join(" · ") : "(empty)"} (composite)`;
+    } else if (level.type === "date") {
+      const dateLevel = level as DateHierarchyLevel;
+      const source = dateLevel.source === "ctime" ? "created" :
+                     dateLevel.source === "mtime" ? "modified" : (level.key || "(empty)");
+      return `Level ${levelNum}: ${source} date (${(dateLevel.granularity || []).join(" → ")})`;
     } else {
       const key = level.key || "(empty)";
-      return `Level ${levelNum}: ${key} property`;
+      const via = (level as PropertyHierarchyLevel).via;
+      return via
+        ? `Level ${levelNum}: ${key} property via ${via}`
+        : `Level ${levelNum}: ${key} property`;
     }
   }
 
@@ -531,15 +784,65 @@ export class ViewEditorModal extends Modal {
           dropdown
             .addOption("tag", "Tag")
             .addOption("property", "Property")
+            .addOption("folder", "Folder")
+            .addOption("date", "Date")
+            .addOption("parent-link", "Parent link")
+            .addOption("smart-group", "Smart groups")
+            .addOption("computed", "Computed key")
+            .addOption("regex", "Regex capture")
+            .addOption("task", "Tasks")
+            .addOption("composite", "Composite key")
             .setValue(level.type)
             .onChange((value) => {
               // Replace level with new type-specific level
-              const newType = value as "tag" | "property";
+              const newType = value as "tag" | "property" | "folder" | "date" | "parent-link" | "smart-group" | "computed" | "regex" | "task" | "composite";
               if (newType === "tag") {
                 this.workingView.levels[index] = createTagLevel({
                   key: level.key,
                   label: level.label,
                 });
+              } else if (newType === "folder") {
+                this.workingView.levels[index] = createFolderLevel({
+                  key: level.key,
+                  label: level.label,
+                });
+              } else if (newType === "date") {
+                this.workingView.levels[index] = createDateLevel({
+                  key: level.key,
+                  label: level.label,
+                });
+              } else if (newType === "parent-link") {
+                this.workingView.levels[index] = createParentLinkLevel({
+                  key: level.key || "up",
+                  label: level.label,
+                });
+              } else if (newType === "smart-group") {
+                this.workingView.levels[index] = createSmartGroupLevel({
+                  key: level.key || "Groups",
+                  label: level.label,
+                });
+              } else if (newType === "computed") {
+                this.workingView.levels[index] = createComputedLevel({
+                  key: level.key || "Computed",
+                  label: level.label,
+                  template: level.key ? `\${${level.key}}` : "",
+                });
+              } else if (newType === "regex") {
+                this.workingView.levels[index] = createRegexLevel({
+                  key: level.key || "Capture",
+                  label: level.label,
+                });
+              } else if (newType === "task") {
+                this.workingView.levels[index] = createTaskLevel({
+                  key: level.key || "Tasks",
+                  label: level.label,
+                });
+              } else if (newType === "composite") {
+                this.workingView.levels[index] = createCompositeLevel({
+                  key: level.key || "Composite",
+                  label: level.label,
+                  keys: level.type === "property" && level.key ? [{ key: level.key }] : [],
+                });
               } else {
                 this.workingView.levels[index] = createPropertyLevel({
                   key: level.key,
@@ -552,16 +855,37 @@ export class ViewEditorModal extends Modal {
 
       // Key field
       new Setting(levelContainer)
-        .setName(level.type === "tag" ? "Tag prefix" : "Property name")
+        .setName(
+          level.type === "tag" ? "Tag prefix" : level.type === "folder" ? "Folder path" :
+          level.type === "parent-link" ? "Parent property" :
+          level.type === "smart-group" || level.type === "computed" || level.type === "regex" ||
+          level.type === "task" || level.type === "composite" ? "Level name" : "Property name"
+        )
         .setDesc(
           level.type === "tag"
             ? "Tag root to match (empty = all base tags)"
-            : "Name of the frontmatter property"
+            : level.type === "folder"
+              ? "Folder to group under (empty = all top-level folders)"
+              : level.type === "date"
+                ? "Name of the date property (ignored when grouping by file dates)"
+                : level.type === "parent-link"
+                  ? "Property linking each note to its parent (e.g., 'up'); must be the last level"
+                  : level.type === "smart-group"
+                    ? "Name of this level (e.g., 'Due')"
+                    : level.type === "computed"
+                      ? "Name of this level (e.g., 'Client / year')"
+                      : level.type === "regex"
+                        ? "Name of this level (e.g., 'Client')"
+                        : level.type === "task"
+                          ? "Name of this level (e.g., 'Tasks')"
+                          : level.type === "composite"
+                            ? "Name of this level (e.g., 'Client · Project')"
+                    : "Name of the frontmatter property (nested: 'meta.review.state', lists of objects: 'items[].name')"
         )
         .addText((text) =>
           text
             .setPlaceholder(
-              level.type === "tag" ? "project" : "status"
+              level.type === "tag" ? "project" : level.type === "folder" ? "Projects" : "status"
             )
             .setValue(level.key)
             .onChange((value) => {
@@ -570,13 +894,14 @@ export class ViewEditorModal extends Modal {
         );
 
       // Type-specific fields
-      if (level.type === "tag") {
-        const tagLevel = level as TagHierarchyLevel;
+      if (level.type === "tag" || level.type === "folder") {
+        const tagLevel = level as TagHierarchyLevel | FolderHierarchyLevel;
+        const unit = level.type === "tag" ? "tag" : "folder";
 
         // Depth field
         new Setting(levelContainer)
           .setName("Depth")
-          .setDesc("Number of tag levels to span (1 or higher for specific depth, -1 for unlimited/full nested hierarchy)")
+          .setDesc(`Number of ${unit} levels to span (1 or higher for specific depth, -1 for unlimited/full nested hierarchy)`)
           .addText((text) =>
             text
               .setPlaceholder("-1")
@@ -592,7 +917,7 @@ export class ViewEditorModal extends Modal {
         // Virtual toggle
         new Setting(levelContainer)
           .setName("Virtual levels")
-          .setDesc("Insert next hierarchy level after each intermediate tag level")
+          .setDesc(`Insert next hierarchy level after each intermediate ${unit} level`)
           .addToggle((toggle) =>
             toggle
               .setValue(tagLevel.virtual ?? false)
@@ -603,8 +928,12 @@ export class ViewEditorModal extends Modal {
 
         // Show full path toggle
         new Setting(levelContainer)
-          .setName("Show full tag path")
-          .setDesc("Display full tag path (e.g., 'project/a/task1') instead of just last segment ('task1')")
+          .setName(`Show full ${unit} path`)
+          .setDesc(
+            level.type === "tag"
+              ? "Display full tag path (e.g., 'project/a/task1') instead of just last segment ('task1')"
+              : "Display full folder path (e.g., 'Projects/Alpha') instead of just last segment ('Alpha')"
+          )
           .addToggle((toggle) =>
             toggle
               .setValue(tagLevel.showFullPath ?? false)
@@ -612,6 +941,428 @@ export class ViewEditorModal extends Modal {
                 tagLevel.showFullPath = value;
               })
           );
+      } else if (level.type === "computed") {
+        const computedLevel = level as ComputedHierarchyLevel;
+
+        // Template, validated as you type
+        let templateErrorsEl: HTMLElement;
+        const renderTemplateErrors = () => {
+          templateErrorsEl.empty();
+          const templateErrors = computedLevel.template?.trim()
+            ? validateTemplate(computedLevel.template)
+            : ["Template cannot be empty"];
+          templateErrors.forEach((error) => {
+            templateErrorsEl.createEl("div", { text: `⚠ ${error}` });
+          });
+        };
+
+        new Setting(levelContainer)
+          .setName("Template")
+          .setDesc(
+            "Group key built from ${...} placeholders: properties (status, meta.state), file.name, file.folder, " +
+            "tags, defaults (priority ?? \"P3\") and functions (year, month, lower, first, join, ...)"
+          )
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("${client} / ${year(due)}")
+              .setValue(computedLevel.template || "")
+              .onChange((value) => {
+                computedLevel.template = value;
+                renderTemplateErrors();
+              });
+            text.inputEl.rows = 2;
+            text.inputEl.style.fontFamily = "monospace";
+          });
+
+        templateErrorsEl = levelContainer.createDiv({ cls: "metagrouper-expression-error" });
+        templateErrorsEl.style.color = "var(--text-error)";
+        renderTemplateErrors();
+
+        // Property source
+        new Setting(levelContainer)
+          .setName("Property source")
+          .setDesc("Read properties in the template from frontmatter, inline fields (key:: value) or both")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("frontmatter", "Frontmatter")
+              .addOption("inline", "Inline fields")
+              .addOption("both", "Both")
+              .setValue(computedLevel.propertySource || "frontmatter")
+              .onChange((value) => {
+                computedLevel.propertySource = value === "frontmatter" ? undefined : (value as PropertySource);
+              })
+          );
+      } else if (level.type === "composite") {
+        const compositeLevel = level as CompositeHierarchyLevel;
+
+        // One line per key; a quoted prefix replaces the separator before that key
+        new Setting(levelContainer)
+          .setName("Keys")
+          .setDesc("One property per line, in label order. Prefix a line with a quoted separator to use it before that key, e.g. '\" / \" project'")
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("client\nproject")
+              .setValue(
+                (compositeLevel.keys || [])
+                  .map((part) => (part.separator !== undefined ? `"${part.separator}" ${part.key}` : part.key))
+                  .join("\n")
+              )
+              .onChange((value) => {
+                compositeLevel.keys = [];
+                for (const line of value.split("\n")) {
+                  const match = line.match(/^\s*(?:"([^"]*)"\s*)?(.*?)\s*$/);
+                  if (match && match[2] !== "") {
+                    compositeLevel.keys.push(
+                      match[1] !== undefined ? { key: match[2], separator: match[1] } : { key: match[2] }
+                    );
+                  }
+                }
+              });
+            text.inputEl.rows = 3;
+            text.inputEl.style.fontFamily = "monospace";
+          });
+
+        new Setting(levelContainer)
+          .setName("Separator")
+          .setDesc("Text placed between values (default: ' · ')")
+          .addText((text) =>
+            text
+              .setPlaceholder(" · ")
+              .setValue(compositeLevel.separator ?? " · ")
+              .onChange((value) => {
+                compositeLevel.separator = value === "" ? undefined : value;
+              })
+          );
+
+        // Property source
+        new Setting(levelContainer)
+          .setName("Property source")
+          .setDesc("Read the keys from frontmatter, inline fields (key:: value) or both")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("frontmatter", "Frontmatter")
+              .addOption("inline", "Inline fields")
+              .addOption("both", "Both")
+              .setValue(compositeLevel.propertySource || "frontmatter")
+              .onChange((value) => {
+                compositeLevel.propertySource = value === "frontmatter" ? undefined : (value as PropertySource);
+              })
+          );
+      } else if (level.type === "task") {
+        const taskLevel = level as TaskHierarchyLevel;
+
+        new Setting(levelContainer)
+          .setName("Group by")
+          .setDesc("Overall state (open tasks / all done / no tasks) or one group per status character ([ ], [x], [/], ...)")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("state", "Task state")
+              .addOption("status", "Status character")
+              .setValue(taskLevel.groupBy ?? "state")
+              .onChange((value) => {
+                taskLevel.groupBy = value as TaskGrouping;
+              })
+          );
+
+        new Setting(levelContainer)
+          .setName("Open statuses")
+          .setDesc("Status characters that count as open; all others count as done (default: space and '/')")
+          .addText((text) =>
+            text
+              .setPlaceholder(DEFAULT_OPEN_TASK_STATUSES)
+              .setValue(taskLevel.openStatuses ?? DEFAULT_OPEN_TASK_STATUSES)
+              .onChange((value) => {
+                taskLevel.openStatuses = value === DEFAULT_OPEN_TASK_STATUSES ? undefined : value;
+              })
+          );
+
+        // One line per group: "open: To do" or "[/]: In progress"
+        new Setting(levelContainer)
+          .setName("Group names (optional)")
+          .setDesc("One line per group: 'open: To do', 'done: Finished', 'none: No tasks' or '[/]: In progress'")
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("[/]: In progress\n[-]: Cancelled")
+              .setValue(
+                Object.entries(taskLevel.labels ?? {})
+                  .map(([key, name]) => `${key.length === 1 ? `[${key}]` : key}: ${name}`)
+                  .join("\n")
+              )
+              .onChange((value) => {
+                const labels: Record<string, string> = {};
+                for (const line of value.split("\n")) {
+                  const match = line.match(/^\s*(?:\[(.)\]|(open|done|none))\s*:\s*(.+?)\s*$/);
+                  if (match) {
+                    labels[match[1] ?? match[2]] = match[3];
+                  }
+                }
+                taskLevel.labels = Object.keys(labels).length > 0 ? labels : undefined;
+              });
+            text.inputEl.rows = 3;
+          });
+      } else if (level.type === "regex") {
+        const regexLevel = level as RegexHierarchyLevel;
+
+        // Preview of the captures for files in the vault, updated as you type
+        let previewEl: HTMLElement;
+        const renderPreview = () => {
+          previewEl.empty();
+
+          const patternError = regexLevel.pattern
+            ? validateCapturePattern(regexLevel.pattern, regexLevel.group || undefined)
+            : "Enter a pattern to preview captures";
+          const regex = patternError ? null : compileCapturePattern(regexLevel.pattern, regexLevel.ignoreCase);
+          if (!regex) {
+            const errorEl = previewEl.createEl("div", { text: `⚠ ${patternError}` });
+            errorEl.style.color = regexLevel.pattern ? "var(--text-error)" : "var(--text-muted)";
+            return;
+          }
+
+          const files = this.app.vault.getMarkdownFiles();
+          const samples: Array<{ text: string; capture: string | null }> = files.map((file) => {
+            const text = (regexLevel.source ?? "basename") === "path" ? file.path : file.basename;
+            return { text, capture: getRegexCapture(text, regex, regexLevel.group || undefined) };
+          });
+          const matched = samples.filter((sample) => sample.capture !== null);
+
+          previewEl.createEl("div", {
+            text: `${matched.length} of ${samples.length} files match`,
+          }).style.color = "var(--text-muted)";
+
+          // Show a few matches first, then a few unmatched files
+          const shown = [
+            ...matched.slice(0, 5),
+            ...samples.filter((sample) => sample.capture === null).slice(0, 3),
+          ];
+          const list = previewEl.createEl("ul");
+          list.style.marginTop = "4px";
+          for (const sample of shown) {
+            list.createEl("li", {
+              text: `${sample.text} → ${sample.capture ?? getMissingGroupLabel(regexLevel)}`,
+            });
+          }
+        };
+
+        new Setting(levelContainer)
+          .setName("Match against")
+          .setDesc("Apply the pattern to the file name (without extension) or the full path")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("basename", "File name")
+              .addOption("path", "Path")
+              .setValue(regexLevel.source ?? "basename")
+              .onChange((value) => {
+                regexLevel.source = value as RegexSource;
+                renderPreview();
+              })
+          );
+
+        new Setting(levelContainer)
+          .setName("Pattern")
+          .setDesc("Regular expression with a named group, e.g. '^(?<date>\\d{4}-\\d{2}-\\d{2}) Meeting - (?<client>.+)$'")
+          .addText((text) => {
+            text
+              .setPlaceholder("Meeting - (?<client>.+)$")
+              .setValue(regexLevel.pattern || "")
+              .onChange((value) => {
+                regexLevel.pattern = value;
+                renderPreview();
+              });
+            text.inputEl.style.fontFamily = "monospace";
+          });
+
+        new Setting(levelContainer)
+          .setName("Capture group")
+          .setDesc("Named group to group by (empty = first named group, else the whole match)")
+          .addText((text) =>
+            text
+              .setPlaceholder("client")
+              .setValue(regexLevel.group || "")
+              .onChange((value) => {
+                regexLevel.group = value.trim() || undefined;
+                renderPreview();
+              })
+          );
+
+        new Setting(levelContainer)
+          .setName("Ignore case")
+          .addToggle((toggle) =>
+            toggle
+              .setValue(regexLevel.ignoreCase ?? false)
+              .onChange((value) => {
+                regexLevel.ignoreCase = value;
+                renderPreview();
+              })
+          );
+
+        previewEl = levelContainer.createDiv({ cls: "metagrouper-regex-preview" });
+        renderPreview();
+      } else if (level.type === "smart-group") {
+        const smartLevel = level as SmartGroupHierarchyLevel;
+        if (!smartLevel.groups) {
+          smartLevel.groups = [];
+        }
+
+        // Match mode dropdown
+        new Setting(levelContainer)
+          .setName("Match mode")
+          .setDesc("Put each file in the first group it matches, or in every group it matches")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("first", "First match")
+              .addOption("all", "All matches")
+              .setValue(smartLevel.matchMode ?? "first")
+              .onChange((value) => {
+                smartLevel.matchMode = value as SmartGroupMatchMode;
+              })
+          );
+
+        // One entry per group: name and filter configuration (JSON)
+        smartLevel.groups.forEach((group, groupIndex) => {
+          const groupSetting = new Setting(levelContainer)
+            .setName(`Group ${groupIndex + 1}`)
+            .setDesc("Name and filter configuration (JSON, same format as the view's filters)")
+            .addText((text) =>
+              text
+                .setPlaceholder("Overdue")
+                .setValue(group.name)
+                .onChange((value) => {
+                  group.name = value.trim();
+                })
+            )
+            .addTextArea((text) => {
+              text
+                .setValue(JSON.stringify(group.filters, null, 2))
+                .onChange((value) => {
+                  try {
+                    group.filters = JSON.parse(value);
+                    text.inputEl.style.borderColor = "";
+                  } catch {
+                    // Keep the last valid configuration while the JSON is incomplete
+                    text.inputEl.style.borderColor = "var(--text-error)";
+                  }
+                });
+              text.inputEl.rows = 4;
+              text.inputEl.style.fontFamily = "monospace";
+            });
+
+          groupSetting.addExtraButton((button) =>
+            button
+              .setIcon("arrow-up")
+              .setTooltip("Move up")
+              .setDisabled(groupIndex === 0)
+              .onClick(() => {
+                if (groupIndex > 0) {
+                  smartLevel.groups.splice(groupIndex - 1, 0, smartLevel.groups.splice(groupIndex, 1)[0]);
+                  this.renderEditor(this.contentEl);
+                }
+              })
+          );
+
+          groupSetting.addExtraButton((button) =>
+            button
+              .setIcon("trash")
+              .setTooltip("Delete group")
+              .onClick(() => {
+                smartLevel.groups.splice(groupIndex, 1);
+                this.renderEditor(this.contentEl);
+              })
+          );
+        });
+
+        new Setting(levelContainer).addButton((button) =>
+          button
+            .setButtonText("+ Add group")
+            .onClick(() => {
+              smartLevel.groups.push({
+                name: `Group ${smartLevel.groups.length + 1}`,
+                filters: { version: 2, filters: [], expression: "" },
+              });
+              this.renderEditor(this.contentEl);
+            })
+        );
+      } else if (level.type === "date") {
+        const dateLevel = level as DateHierarchyLevel;
+
+        // Date source dropdown
+        new Setting(levelContainer)
+          .setName("Date source")
+          .setDesc("Read dates from the property above or from the file's timestamps")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("property", "Property")
+              .addOption("ctime", "File created")
+              .addOption("mtime", "File modified")
+              .setValue(dateLevel.source ?? "property")
+              .onChange((value) => {
+                dateLevel.source = value as DateSource;
+              })
+          );
+
+        // Property source
+        new Setting(levelContainer)
+          .setName("Property source")
+          .setDesc("Read the date property from frontmatter, inline fields (key:: value) or both")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("frontmatter", "Frontmatter")
+              .addOption("inline", "Inline fields")
+              .addOption("both", "Both")
+              .setValue(dateLevel.propertySource || "frontmatter")
+              .onChange((value) => {
+                dateLevel.propertySource = value === "frontmatter" ? undefined : (value as PropertySource);
+              })
+          );
+
+        // Granularity list (nested from coarsest to finest)
+        new Setting(levelContainer)
+          .setName("Granularity")
+          .setDesc("Comma-separated buckets from coarsest to finest: year, quarter, month, week, day (e.g., 'year, month')")
+          .addText((text) => {
+            text
+              .setPlaceholder("year, month")
+              .setValue((dateLevel.granularity || []).join(", "))
+              .onChange((value) => {
+                const validGranularities: DateGranularity[] = ["year", "quarter", "month", "week", "day"];
+                const granularity = value
+                  .split(",")
+                  .map((g) => g.trim().toLowerCase())
+                  .filter((g) => g !== "") as DateGranularity[];
+                // Only accept known granularities in coarse-to-fine order
+                const isOrdered = granularity.every((g, i) =>
+                  validGranularities.indexOf(g) !== -1 &&
+                  (i === 0 || validGranularities.indexOf(g) > validGranularities.indexOf(granularity[i - 1]))
+                );
+                if (granularity.length > 0 && isOrdered) {
+                  dateLevel.granularity = granularity;
+                }
+              });
+            // Re-render on blur to show format fields for the new granularities
+            text.inputEl.addEventListener("blur", () => {
+              this.renderEditor(this.contentEl);
+            });
+          });
+
+        // Label format per granularity
+        for (const granularity of dateLevel.granularity || []) {
+          new Setting(levelContainer)
+            .setName(`${granularity.charAt(0).toUpperCase()}${granularity.slice(1)} label format`)
+            .setDesc("Moment-style tokens, e.g. YYYY, [Q]Q, MMMM, MMM YYYY, GGGG-[W]WW, YYYY-MM-DD (empty = default)")
+            .addText((text) =>
+              text
+                .setPlaceholder(DEFAULT_DATE_FORMATS[granularity])
+                .setValue(dateLevel.formats?.[granularity] ?? "")
+                .onChange((value) => {
+                  const formats = { ...(dateLevel.formats || {}) };
+                  if (value.trim()) {
+                    formats[granularity] = value;
+                  } else {
+                    delete formats[granularity];
+                  }
+                  dateLevel.formats = Object.keys(formats).length > 0 ? formats : undefined;
+                })
+            );
+        }
       } else if (level.type === "property") {
         const propLevel = level as PropertyHierarchyLevel;
 
@@ -638,6 +1389,247 @@ export class ViewEditorModal extends Modal {
                 propLevel.showPropertyName = value;
               })
           );
+
+        // Property source
+        new Setting(levelContainer)
+          .setName("Property source")
+          .setDesc("Read the property from frontmatter, inline fields (key:: value) or both")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("frontmatter", "Frontmatter")
+              .addOption("inline", "Inline fields")
+              .addOption("both", "Both")
+              .setValue(propLevel.propertySource || "frontmatter")
+              .onChange((value) => {
+                propLevel.propertySource = value === "frontmatter" ? undefined : (value as PropertySource);
+              })
+          );
+
+        // Roll-up through a link property
+        new Setting(levelContainer)
+          .setName("Via link property (optional)")
+          .setDesc("Follow this link property (e.g., 'project') and group by the property above on the linked note")
+          .addText((text) =>
+            text
+              .setPlaceholder("project")
+              .setValue(propLevel.via || "")
+              .onChange((value) => {
+                propLevel.via = value.trim() || undefined;
+              })
+          );
+
+        // Resolve links toggle
+        new Setting(levelContainer)
+          .setName("Resolve links")
+          .setDesc("Group wikilink values (e.g., '[[Alpha|A]]') by the note they point to")
+          .addToggle((toggle) =>
+            toggle
+              .setValue(propLevel.resolveLinks ?? false)
+              .onChange((value) => {
+                propLevel.resolveLinks = value || undefined;
+                this.renderEditor(this.contentEl); // Re-render to show/hide alias option
+              })
+          );
+
+        if (propLevel.resolveLinks) {
+          new Setting(levelContainer)
+            .setName("Show note alias")
+            .setDesc("Show the linked note's first alias instead of its name")
+            .addToggle((toggle) =>
+              toggle
+                .setValue(propLevel.showLinkAlias ?? false)
+                .onChange((value) => {
+                  propLevel.showLinkAlias = value || undefined;
+                })
+            );
+        }
+
+        // Numeric bucketing mode
+        new Setting(levelContainer)
+          .setName("Numeric buckets")
+          .setDesc("Group numeric values into ranges instead of one node per value")
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("", "None")
+              .addOption("width", "Fixed-width bins")
+              .addOption("breakpoints", "Explicit breakpoints")
+              .addOption("quantiles", "Quantiles")
+              .setValue(propLevel.bucketing?.mode ?? "")
+              .onChange((value) => {
+                if (value === "width") {
+                  propLevel.bucketing = { mode: "width", width: 10 };
+                } else if (value === "breakpoints") {
+                  propLevel.bucketing = { mode: "breakpoints", breakpoints: [0, 1, 5] };
+                } else if (value === "quantiles") {
+                  propLevel.bucketing = { mode: "quantiles", quantiles: 4 };
+                } else {
+                  propLevel.bucketing = undefined;
+                }
+                this.renderEditor(this.contentEl); // Re-render to show bucketing options
+              })
+          );
+
+        const bucketing = propLevel.bucketing;
+        if (bucketing?.mode === "width") {
+          new Setting(levelContainer)
+            .setName("Bin width")
+            .setDesc("Size of each range (e.g., 10 gives 0-10, 10-20, ...)")
+            .addText((text) =>
+              text
+                .setPlaceholder("10")
+                .setValue(String(bucketing.width ?? ""))
+                .onChange((value) => {
+                  const width = parseFloat(value);
+                  if (width > 0) {
+                    bucketing.width = width;
+                  }
+                })
+            );
+
+          new Setting(levelContainer)
+            .setName("Bin origin")
+            .setDesc("Where the first bin starts (default 0)")
+            .addText((text) =>
+              text
+                .setPlaceholder("0")
+                .setValue(bucketing.origin !== undefined ? String(bucketing.origin) : "")
+                .onChange((value) => {
+                  const origin = parseFloat(value);
+                  bucketing.origin = isNaN(origin) ? undefined : origin;
+                })
+            );
+        } else if (bucketing?.mode === "breakpoints") {
+          new Setting(levelContainer)
+            .setName("Breakpoints")
+            .setDesc("Comma-separated ascending boundaries (e.g., '0, 1, 5' gives <0, 0-1, 1-5, 5+)")
+            .addText((text) =>
+              text
+                .setPlaceholder("0, 1, 5")
+                .setValue((bucketing.breakpoints || []).join(", "))
+                .onChange((value) => {
+                  const breakpoints = value
+                    .split(",")
+                    .map((b) => b.trim())
+                    .filter((b) => b !== "")
+                    .map((b) => parseFloat(b));
+                  // Only accept valid ascending lists
+                  const isValid = breakpoints.every((b, i) =>
+                    !isNaN(b) && (i === 0 || b > breakpoints[i - 1])
+                  );
+                  if (breakpoints.length > 0 && isValid) {
+                    bucketing.breakpoints = breakpoints;
+                  }
+                })
+            );
+        } else if (bucketing?.mode === "quantiles") {
+          new Setting(levelContainer)
+            .setName("Number of quantiles")
+            .setDesc("How many equally-populated ranges to split values into (e.g., 4 = quartiles)")
+            .addText((text) =>
+              text
+                .setPlaceholder("4")
+                .setValue(String(bucketing.quantiles ?? ""))
+                .onChange((value) => {
+                  const quantiles = parseInt(value, 10);
+                  if (quantiles >= 2) {
+                    bucketing.quantiles = quantiles;
+                  }
+                })
+            );
+        }
+
+        // Value mapping
+        new Setting(levelContainer)
+          .setName("Map values")
+          .setDesc("Merge different spellings of a value into one group (e.g., 'Done', 'completed' → 'done')")
+          .addToggle((toggle) =>
+            toggle
+              .setValue(propLevel.valueMapping !== undefined)
+              .onChange((value) => {
+                propLevel.valueMapping = value ? { values: {}, ignoreCase: true, trim: true } : undefined;
+                this.renderEditor(this.contentEl); // Re-render to show mapping options
+              })
+          );
+
+        const valueMapping = propLevel.valueMapping;
+        if (valueMapping) {
+          // One line per canonical value: "done: Done, completed, ✅"
+          const formatMapping = () => {
+            const byTarget = new Map<string, string[]>();
+            for (const [from, to] of Object.entries(valueMapping.values)) {
+              if (!byTarget.has(to)) {
+                byTarget.set(to, []);
+              }
+              byTarget.get(to)!.push(from);
+            }
+            return Array.from(byTarget.entries())
+              .map(([to, froms]) => `${to}: ${froms.join(", ")}`)
+              .join("\n");
+          };
+
+          new Setting(levelContainer)
+            .setName("Value map")
+            .setDesc("One line per value: 'canonical: raw1, raw2' (e.g., 'done: Done, completed, ✅')")
+            .addTextArea((text) => {
+              text
+                .setPlaceholder("done: completed, ✅")
+                .setValue(formatMapping())
+                .onChange((value) => {
+                  const values: Record<string, string> = {};
+                  for (const line of value.split("\n")) {
+                    const separator = line.indexOf(":");
+                    if (separator === -1) {
+                      continue;
+                    }
+                    const to = line.substring(0, separator).trim();
+                    if (to === "") {
+                      continue;
+                    }
+                    for (const from of line.substring(separator + 1).split(",")) {
+                      if (from.trim() !== "") {
+                        values[from.trim()] = to;
+                      }
+                    }
+                  }
+                  valueMapping.values = values;
+                });
+              text.inputEl.rows = 4;
+            });
+
+          new Setting(levelContainer)
+            .setName("Ignore case")
+            .setDesc("Match raw values regardless of capitalization")
+            .addToggle((toggle) =>
+              toggle
+                .setValue(valueMapping.ignoreCase ?? false)
+                .onChange((value) => {
+                  valueMapping.ignoreCase = value;
+                })
+            );
+
+          new Setting(levelContainer)
+            .setName("Trim whitespace")
+            .setDesc("Ignore spaces around raw values")
+            .addToggle((toggle) =>
+              toggle
+                .setValue(valueMapping.trim ?? false)
+                .onChange((value) => {
+                  valueMapping.trim = value;
+                })
+            );
+
+          new Setting(levelContainer)
+            .setName("Other values (optional)")
+            .setDesc("Group all unmapped values under this value (empty = keep them as they are)")
+            .addText((text) =>
+              text
+                .setPlaceholder("other")
+                .setValue(valueMapping.fallback || "")
+                .onChange((value) => {
+                  valueMapping.fallback = value.trim() || undefined;
+                })
+            );
+        }
       }
 
       // Optional label
@@ -653,6 +1645,175 @@ export class ViewEditorModal extends Modal {
             })
         );
 
+      // Missing group (every note has a place in parent-link levels)
+      if (level.type !== "parent-link") {
+        new Setting(levelContainer)
+          .setName("Group files without a value")
+          .setDesc("Collect files that don't match this level into a group (e.g., '(no status)') instead of dropping them")
+          .addToggle((toggle) =>
+            toggle
+              .setValue(level.showMissing ?? false)
+              .onChange((value) => {
+                level.showMissing = value || undefined;
+                this.renderEditor(this.contentEl); // Re-render to show/hide label option
+              })
+          );
+
+        if (level.showMissing) {
+          new Setting(levelContainer)
+            .setName("Missing group label (optional)")
+            .setDesc("Name of the group of files without a value")
+            .addText((text) =>
+              text
+                .setPlaceholder(getMissingGroupLabel(level))
+                .setValue(level.missingLabel || "")
+                .onChange((value) => {
+                  level.missingLabel = value.trim() || undefined;
+                })
+            );
+        }
+
+        // Long-tail folding
+        new Setting(levelContainer)
+          .setName("Maximum groups (optional)")
+          .setDesc("Keep only the N largest groups and fold the rest into an 'Other' group")
+          .addText((text) =>
+            text
+              .setPlaceholder("All")
+              .setValue(level.maxGroups !== undefined ? String(level.maxGroups) : "")
+              .onChange((value) => {
+                const num = parseInt(value);
+                level.maxGroups = !isNaN(num) && num > 0 ? num : undefined;
+              })
+          );
+
+        new Setting(levelContainer)
+          .setName("Minimum files per group (optional)")
+          .setDesc("Fold groups with fewer files into an 'Other' group")
+          .addText((text) =>
+            text
+              .setPlaceholder("1")
+              .setValue(level.minGroupCount !== undefined ? String(level.minGroupCount) : "")
+              .onChange((value) => {
+                const num = parseInt(value);
+                level.minGroupCount = !isNaN(num) && num > 1 ? num : undefined;
+              })
+          );
+
+        new Setting(levelContainer)
+          .setName("Other group label (optional)")
+          .setDesc("Name of the group of folded values; the number of values is appended")
+          .addText((text) =>
+            text
+              .setPlaceholder("Other")
+              .setValue(level.otherLabel || "")
+              .onChange((value) => {
+                level.otherLabel = value.trim() || undefined;
+              })
+          );
+
+        // Label template, validated as you type
+        let labelErrorsEl: HTMLElement;
+        const renderLabelErrors = () => {
+          labelErrorsEl.empty();
+          (level.labelTemplate ? validateTemplate(level.labelTemplate) : []).forEach((error) => {
+            labelErrorsEl.createEl("div", { text: `⚠ ${error}` });
+          });
+        };
+
+        new Setting(levelContainer)
+          .setName("Label template (optional)")
+          .setDesc("Group names built like computed keys: ${value} is the group's value and ${count} its number of files")
+          .addText((text) =>
+            text
+              .setPlaceholder("Sprint ${value}")
+              .setValue(level.labelTemplate || "")
+              .onChange((value) => {
+                level.labelTemplate = value.trim() || undefined;
+                renderLabelErrors();
+              })
+          );
+
+        labelErrorsEl = levelContainer.createDiv({ cls: "metagrouper-expression-error" });
+        labelErrorsEl.style.color = "var(--text-error)";
+        renderLabelErrors();
+
+        // Include/exclude lists: one literal or /regex/ per line
+        new Setting(levelContainer)
+          .setName("Show only values (optional)")
+          .setDesc("One value per line (ignoring case) or /regex/; other groups of this level are hidden")
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("Alpha\n/^beta/i")
+              .setValue((level.includeValues || []).join("\n"))
+              .onChange((value) => {
+                const entries = value.split("\n").map((line) => line.trim()).filter((line) => line !== "");
+                level.includeValues = entries.length > 0 ? entries : undefined;
+              });
+            text.inputEl.rows = 2;
+          });
+
+        new Setting(levelContainer)
+          .setName("Hide values (optional)")
+          .setDesc("One value per line (ignoring case) or /regex/; matching groups of this level are hidden")
+          .addTextArea((text) => {
+            text
+              .setPlaceholder("archived")
+              .setValue((level.excludeValues || []).join("\n"))
+              .onChange((value) => {
+                const entries = value.split("\n").map((line) => line.trim()).filter((line) => line !== "");
+                level.excludeValues = entries.length > 0 ? entries : undefined;
+              });
+            text.inputEl.rows = 2;
+          });
+
+        // Branches: other sub-levels below some groups (JSON)
+        let branchErrorsEl: HTMLElement;
+        const renderBranchErrors = (errors: string[]) => {
+          branchErrorsEl.empty();
+          errors.forEach((error) => {
+            branchErrorsEl.createEl("div", { text: `⚠ ${error}` });
+          });
+        };
+
+        new Setting(levelContainer)
+          .setName("Branches (optional)")
+          .setDesc(
+            "Other sub-levels below some groups, as JSON: [{ \"value\": \"done\", \"levels\": [...] }] or " +
+            "[{ \"filters\": {...}, \"levels\": [...] }]. Files matching no branch continue with the levels below."
+          )
+          .addTextArea((text) => {
+            text
+              .setPlaceholder('[{ "value": "active", "levels": [{ "type": "property", "key": "priority" }] }]')
+              .setValue(level.branches ? JSON.stringify(level.branches, null, 2) : "")
+              .onChange((value) => {
+                if (value.trim() === "") {
+                  level.branches = undefined;
+                  renderBranchErrors([]);
+                  return;
+                }
+
+                try {
+                  const branches = JSON.parse(value);
+                  level.branches = branches;
+                  renderBranchErrors(
+                    validateHierarchyLevel(level).errors.filter(
+                      (error) => error.startsWith("Branch") || error.includes("'branches'") || error.includes("support branches")
+                    )
+                  );
+                } catch {
+                  // Keep the last valid branches while the JSON is incomplete
+                  renderBranchErrors(["Invalid JSON"]);
+                }
+              });
+            text.inputEl.rows = 4;
+            text.inputEl.style.fontFamily = "monospace";
+          });
+
+        branchErrorsEl = levelContainer.createDiv({ cls: "metagrouper-expression-error" });
+        branchErrorsEl.style.color = "var(--text-error)";
+      }
+
       // Sort override
       new Setting(levelContainer)
         .setName("Sort override (optional)")
@@ -662,15 +1823,68 @@ export class ViewEditorModal extends Modal {
             .addOption("", "Use default")
             .addOption("alpha-asc", "Alphabetical (A-Z)")
             .addOption("alpha-desc", "Alphabetical (Z-A)")
+            .addOption("natural-asc", "Natural (2 before 10)")
+            .addOption("natural-desc", "Natural (descending)")
+            .addOption("numeric-asc", "Number (Lowest first)")
+            .addOption("numeric-desc", "Number (Highest first)")
+            .addOption("date-asc", "Date (Oldest first)")
+            .addOption("date-desc", "Date (Newest first)")
             .addOption("count-desc", "File count (Most first)")
             .addOption("count-asc", "File count (Least first)")
-            .addOption("none", "Unsorted")
+            .addOption("custom", "Custom order")
+            .addOption("none", "Unsorted");
+          this.addAggregateSortOptions(dropdown);
+          dropdown
             .setValue(level.sortBy || "")
             .onChange((value) => {
               level.sortBy = value ? (value as SortMode) : undefined;
             });
         });
 
+      // Value type hint for sorting
+      new Setting(levelContainer)
+        .setName("Value type (optional)")
+        .setDesc("How values are read in alphabetical and natural sorting, e.g. as numbers so 9 comes before 10 (default: text, detected in natural sorting)")
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption("", "Default")
+            .addOption("text", "Text")
+            .addOption("number", "Number")
+            .addOption("date", "Date")
+            .setValue(level.valueType || "")
+            .onChange((value) => {
+              level.valueType = value ? (value as LevelValueType) : undefined;
+            });
+        });
+
+      // Explicit value order for the "custom" sort mode
+      new Setting(levelContainer)
+        .setName("Custom order (optional)")
+        .setDesc("One value per line (ignoring case), in the order used by the 'Custom order' sort mode")
+        .addTextArea((text) => {
+          text
+            .setPlaceholder("backlog\ntodo\ndoing\nreview\ndone")
+            .setValue((level.customOrder || []).join("\n"))
+            .onChange((value) => {
+              const entries = value.split("\n").map((line) => line.trim()).filter((line) => line !== "");
+              level.customOrder = entries.length > 0 ? entries : undefined;
+            });
+          text.inputEl.rows = 3;
+        });
+
+      new Setting(levelContainer)
+        .setName("Values not in the custom order")
+        .setDesc("Where the 'Custom order' sort mode puts groups whose value isn't listed")
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption("last", "Last")
+            .addOption("first", "First")
+            .setValue(level.customOrderUnknown || "last")
+            .onChange((value) => {
+              level.customOrderUnknown = value === "first" ? "first" : undefined;
+            });
+        });
+
       // Level color (only show if level colors are enabled for this view)
       if (this.workingView.levelColorMode && this.workingView.levelColorMode !== "none") {
         const defaultColor = DEFAULT_LEVEL_COLORS[index % DEFAULT_LEVEL_COLORS.length];
@@ -847,6 +2061,9 @@ export class ViewEditorModal extends Modal {
       case "link-count":
         this.renderLinkCountFilterUI(setting, filter as LinkCountFilter);
         break;
+      case "task-count":
+        this.renderTaskCountFilterUI(setting, filter as TaskCountFilter);
+        break;
       case "bookmark":
         this.renderBookmarkFilterUI(setting, filter as BookmarkFilter);
         break;
@@ -928,6 +2145,19 @@ export class ViewEditorModal extends Modal {
       });
     });
 
+    // Property source selector
+    setting.addDropdown(dropdown => {
+      dropdown
+        .addOption("frontmatter", "Frontmatter")
+        .addOption("inline", "Inline")
+        .addOption("both", "Both")
+        .setValue(filter.source || "frontmatter")
+        .onChange(value => {
+          filter.source = value === "frontmatter" ? undefined : (value as PropertySource);
+        });
+      dropdown.selectEl.style.width = "auto";
+    });
+
     // Detect property type and show appropriate operators
     const propertyType = this.detectPropertyType(filter.property);
 
@@ -1249,6 +2479,57 @@ export class ViewEditorModal extends Modal {
     });
   }
 
+  private renderTaskCountFilterUI(setting: Setting, filter: TaskCountFilter): void {
+    setting.addDropdown(dropdown => {
+      dropdown
+        .addOption("all", "All tasks")
+        .addOption("open", "Open tasks")
+        .addOption("done", "Done tasks")
+        .addOption("custom", "Status…")
+        .setValue(["all", "open", "done"].includes(filter.status) ? filter.status : "custom")
+        .onChange(value => {
+          filter.status = value === "custom" ? "/" : value;
+          this.renderEditor(this.contentEl);
+        });
+    });
+
+    // Custom status character (e.g., "/" for "- [/]")
+    if (!["all", "open", "done"].includes(filter.status)) {
+      setting.addText(text => {
+        text
+          .setPlaceholder("/")
+          .setValue(filter.status)
+          .onChange(value => {
+            if (value.length === 1) {
+              filter.status = value;
+            }
+          });
+        text.inputEl.maxLength = 1;
+        text.inputEl.style.width = "40px";
+      });
+    }
+
+    setting.addDropdown(dropdown => {
+      LINK_COUNT_OPERATORS.forEach(op => {
+        dropdown.addOption(op.operator, op.label);
+      });
+      dropdown
+        .setValue(filter.operator || "gte")
+        .onChange(value => {
+          filter.operator = value as any;
+        });
+    });
+
+    setting.addText(text => {
+      text
+        .setPlaceholder("Count")
+        .setValue(String(filter.value || ""))
+        .onChange(value => {
+          filter.value = parseInt(value) || 0;
+        });
+    });
+  }
+
   private renderBookmarkFilterUI(setting: Setting, filter: BookmarkFilter): void {
     // Dropdown for is bookmarked / is not bookmarked
     setting.addDropdown(dropdown => {
@@ -1403,6 +2684,8 @@ switch (type) {
     return { ...baseFilter, type: "file-mtime", operator: "after", value: "" } as FileDateFilter;
   case "link-count":
     return { ...baseFilter, type: "link-count", linkType: "outlinks", operator: "gte", value: 0 } as LinkCountFilter;
+  case "task-count":
+    return { ...baseFilter, type: "task-count", status: "open", operator: "gt", value: 0 } as TaskCountFilter;
   case "bookmark":
     return { ...baseFilter, type: "bookmark", isBookmarked: true } as BookmarkFilter;
   default:
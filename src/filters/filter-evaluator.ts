@@ -11,6 +11,7 @@ import {
   FileSizeFilter,
   FileDateFilter,
   LinkCountFilter,
+  TaskCountFilter,
   BookmarkFilter,
   PropertyOperator,
   PropertyValueType,
@@ -25,6 +26,7 @@ import {
 } from "./filter-utils";
 import { ExpressionParser } from "./expression-parser";
 import { ExpressionEvaluator } from "./expression-evaluator";
+import { countTasks } from "../utils/task-status";
 
 /**
  * FilterEvaluator - Evaluates filter configurations against files
@@ -124,6 +126,9 @@ export class FilterEvaluator {
         case "link-count":
           result = this.evaluateLinkCountFilter(file, filter);
           break;
+        case "task-count":
+          result = this.evaluateTaskCountFilter(file, filter);
+          break;
         case "bookmark":
           result = this.evaluateBookmarkFilter(file, filter);
           break;
@@ -178,8 +183,7 @@ export class FilterEvaluator {
       return false; // Invalid filter
     }
 
-    const properties = this.indexer.getFileProperties(file);
-    return filter.property in properties;
+    return this.indexer.getFilePropertyValue(file, filter.property) !== undefined;
   }
 
   private evaluatePropertyValueFilter(file: TFile, filter: PropertyValueFilter): boolean {
@@ -187,8 +191,7 @@ export class FilterEvaluator {
       return false; // Invalid filter
     }
 
-    const properties = this.indexer.getFileProperties(file);
-    const actualValue = properties[filter.property];
+    const actualValue = this.indexer.getFilePropertyValue(file, filter.property, filter.source);
 
     if (actualValue === undefined || actualValue === null) {
       return false; // Property doesn't exist
@@ -595,6 +598,33 @@ export class FilterEvaluator {
     }
   }
 
+  // ============================================================================
+  // Task Count Filter
+  // ============================================================================
+
+  private evaluateTaskCountFilter(file: TFile, filter: TaskCountFilter): boolean {
+    if (!isValidNumber(filter.value)) {
+      return false; // Invalid filter
+    }
+
+    const count = countTasks(this.indexer.getFileTaskCounts(file), filter.status || "all");
+
+    switch (filter.operator) {
+      case "eq":
+        return count === filter.value;
+      case "lt":
+        return count < filter.value;
+      case "lte":
+        return count <= filter.value;
+      case "gt":
+        return count > filter.value;
+      case "gte":
+        return count >= filter.value;
+      default:
+        return false;
+    }
+  }
+
   // ============================================================================
   // Bookmark Filter
   // ============================================================================
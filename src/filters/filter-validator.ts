@@ -9,9 +9,11 @@ import {
   FileSizeFilter,
   FileDateFilter,
   LinkCountFilter,
+  TaskCountFilter,
   BookmarkFilter,
 } from "../types/filters";
 import { parseSmartDate, isValidNumber } from "./filter-utils";
+import { validatePropertyPath } from "../utils/property-paths";
 
 /**
  * Validation result for filters
@@ -142,6 +144,9 @@ export class FilterValidator {
       case "link-count":
         this.validateLinkCountFilter(filter, groupId, errors, warnings);
         break;
+      case "task-count":
+        this.validateTaskCountFilter(filter, groupId, errors, warnings);
+        break;
       case "bookmark":
         this.validateBookmarkFilter(filter, groupId, errors, warnings);
         break;
@@ -196,6 +201,17 @@ export class FilterValidator {
         field: "property",
         message: "Property filter requires a property name",
       });
+      return;
+    }
+
+    const pathError = validatePropertyPath(filter.property);
+    if (pathError) {
+      errors.push({
+        filterId: filter.id,
+        groupId,
+        field: "property",
+        message: pathError,
+      });
     }
   }
 
@@ -215,6 +231,17 @@ export class FilterValidator {
       return;
     }
 
+    const pathError = validatePropertyPath(filter.property);
+    if (pathError) {
+      errors.push({
+        filterId: filter.id,
+        groupId,
+        field: "property",
+        message: pathError,
+      });
+      return;
+    }
+
     if (!filter.operator) {
       errors.push({
         filterId: filter.id,
@@ -506,6 +533,43 @@ export class FilterValidator {
     }
   }
 
+  private validateTaskCountFilter(
+    filter: TaskCountFilter,
+    groupId: string,
+    errors: ValidationError[],
+    warnings: ValidationWarning[]
+  ): void {
+    if (
+      typeof filter.status !== "string" ||
+      (!["all", "open", "done"].includes(filter.status) && filter.status.length !== 1)
+    ) {
+      errors.push({
+        filterId: filter.id,
+        groupId,
+        field: "status",
+        message: "Task count filter status must be 'all', 'open', 'done' or a single status character",
+      });
+    }
+
+    if (!filter.operator) {
+      errors.push({
+        filterId: filter.id,
+        groupId,
+        field: "operator",
+        message: "Task count filter requires an operator",
+      });
+    }
+
+    if (!isValidNumber(filter.value)) {
+      errors.push({
+        filterId: filter.id,
+        groupId,
+        field: "value",
+        message: "Task count filter requires a numeric value",
+      });
+    }
+  }
+
   private validateBookmarkFilter(
     filter: BookmarkFilter,
     groupId: string,
@@ -1,26 +1,62 @@
-import { App, Events, TFile, CachedMetadata } from "obsidian";
+import { App, Events, EventRef, TFile, CachedMetadata } from "obsidian";
+import { parseWikilink } from "../utils/property-links";
+import { parseInlineFields } from "../utils/inline-fields";
+import { flattenPropertyValue, getPropertyByPath } from "../utils/property-paths";
+import { PropertySource } from "../types/filters";
+
+/**
+ * Options controlling what the indexer reads from notes
+ */
+export interface VaultIndexerOptions {
+  /** Whether to index Dataview-style inline fields ("key:: value") from note bodies */
+  inlineFields: boolean;
+
+  /** Whether to also index bracketed inline fields ("[key:: value]", "(key:: value)") */
+  inlineFieldBrackets: boolean;
+}
+
+/**
+ * Default indexer options
+ */
+export const DEFAULT_INDEXER_OPTIONS: VaultIndexerOptions = {
+  inlineFields: false,
+  inlineFieldBrackets: false,
+};
 
 /**
  * VaultIndexer - Indexes all tags and frontmatter properties from vault files
  *
  * Responsibilities:
  * - Index all tags and frontmatter from vault files
+ * - Index inline fields from note bodies (kept separate from frontmatter)
+ * - Count tasks per file by status character
  * - Maintain reverse mappings (tag → files, property → value → files)
  * - Subscribe to Obsidian's metadata cache events for incremental updates
+ * - Resolve link-valued properties to linked notes (for roll-up levels)
  * - Provide query methods for tree builders
  */
 export class VaultIndexer extends Events {
   private app: App;
+  private options: VaultIndexerOptions;
 
   // Primary indices
   private tagToFiles: Map<string, Set<TFile>>;
   private propertyToValueToFiles: Map<string, Map<string, Set<TFile>>>;
   private fileToTags: Map<TFile, Set<string>>;
   private fileToProperties: Map<TFile, Record<string, any>>;
+  private fileToInlineFields: Map<TFile, Record<string, any>>;
+  private fileToTaskCounts: Map<TFile, Record<string, number>>;
 
   // Cached hierarchical tag data
   private tagHierarchyCache: Map<string, string[]>;
 
+  // Cached link resolution (file → property → linked files)
+  private linkCache: Map<TFile, Map<string, TFile[]>>;
+  // Reverse link mapping (linked file → files linking to it) for invalidation
+  private linkDependents: Map<TFile, Set<TFile>>;
+  // Files with links that didn't resolve (may resolve once a note is created or renamed)
+  private filesWithUnresolvedLinks: Set<TFile>;
+
   // Performance tracking
   private lastIndexTime: number;
   private fileCount: number;
@@ -28,19 +64,28 @@ export class VaultIndexer extends Events {
   // Initialization state
   private initialized: boolean;
 
+  // Listeners on the metadata cache and vault (removed by destroy)
+  private eventRefs: Array<{ source: Events; ref: EventRef }> = [];
+
   // Debouncing for batch updates
   private updateQueue: Set<TFile>;
   private updateTimer: NodeJS.Timeout | null;
   private readonly DEBOUNCE_MS = 300;
 
-  constructor(app: App) {
+  constructor(app: App, options: Partial<VaultIndexerOptions> = {}) {
     super();
     this.app = app;
+    this.options = { ...DEFAULT_INDEXER_OPTIONS, ...options };
     this.tagToFiles = new Map();
     this.propertyToValueToFiles = new Map();
     this.fileToTags = new Map();
     this.fileToProperties = new Map();
+    this.fileToInlineFields = new Map();
+    this.fileToTaskCounts = new Map();
     this.tagHierarchyCache = new Map();
+    this.linkCache = new Map();
+    this.linkDependents = new Map();
+    this.filesWithUnresolvedLinks = new Set();
     this.lastIndexTime = 0;
     this.fileCount = 0;
     this.initialized = false;
@@ -100,32 +145,67 @@ export class VaultIndexer extends Events {
    */
   private registerEventListeners(): void {
     // File modified
-    this.app.metadataCache.on("changed", (file) => {
-      this.updateFileIndex(file);
+    this.eventRefs.push({
+      source: this.app.metadataCache,
+      ref: this.app.metadataCache.on("changed", (file) => {
+        this.updateFileIndex(file);
+      }),
     });
 
     // File deleted
-    this.app.vault.on("delete", (file) => {
-      if (file instanceof TFile) {
-        this.removeFileFromIndex(file);
-      }
+    this.eventRefs.push({
+      source: this.app.vault,
+      ref: this.app.vault.on("delete", (file) => {
+        if (file instanceof TFile) {
+          this.removeFileFromIndex(file);
+        }
+      }),
     });
 
     // File renamed
-    this.app.vault.on("rename", (file, oldPath) => {
-      if (file instanceof TFile) {
-        // Remove old entries and re-index
-        this.removeFileFromIndex(file);
-        this.updateFileIndex(file);
-      }
+    this.eventRefs.push({
+      source: this.app.vault,
+      ref: this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) {
+          // Remove old entries and re-index
+          this.removeFileFromIndex(file);
+          this.updateFileIndex(file);
+        }
+      }),
     });
   }
 
+  /**
+   * Stop incremental updates: remove the event listeners and drop pending updates
+   * Call when the indexer is no longer used.
+   */
+  destroy(): void {
+    this.eventRefs.forEach(({ source, ref }) => source.offref(ref));
+    this.eventRefs = [];
+
+    if (this.updateTimer) {
+      clearTimeout(this.updateTimer);
+      this.updateTimer = null;
+    }
+    this.updateQueue.clear();
+  }
+
   /**
    * Index a single file
+   * The note body is read first, so a re-indexed file's old entries are
+   * replaced in one synchronous step (tree builds never see it half-indexed).
+   *
+   * @param file - File to index
+   * @param replace - Whether to remove the file's current entries first
    */
-  private async indexFile(file: TFile): Promise<void> {
+  private async indexFile(file: TFile, replace: boolean = false): Promise<void> {
     try {
+      const inlineFields = this.options.inlineFields ? await this.readInlineFields(file) : null;
+
+      if (replace) {
+        this.removeFileFromIndex(file);
+      }
+
       const cache = this.app.metadataCache.getFileCache(file);
 
       if (!cache) {
@@ -135,6 +215,11 @@ export class VaultIndexer extends Events {
 
       this.indexTags(file, cache);
       this.indexProperties(file, cache);
+      this.indexTasks(file, cache);
+
+      if (inlineFields && Object.keys(inlineFields).length > 0) {
+        this.fileToInlineFields.set(file, inlineFields);
+      }
     } catch (error) {
       console.error(`[MetaGrouper] Error indexing file ${file.path}:`, error);
     }
@@ -206,18 +291,20 @@ export class VaultIndexer extends Events {
 
         props[key] = value;
 
-        // Add to property index
-        if (!this.propertyToValueToFiles.has(key)) {
-          this.propertyToValueToFiles.set(key, new Map());
-        }
+        // Add to property index (nested objects are indexed by path, e.g. "meta.review.state")
+        for (const [path, pathValue] of flattenPropertyValue(key, value)) {
+          if (!this.propertyToValueToFiles.has(path)) {
+            this.propertyToValueToFiles.set(path, new Map());
+          }
 
-        const valueMap = this.propertyToValueToFiles.get(key)!;
-        const valueKey = String(value);
+          const valueMap = this.propertyToValueToFiles.get(path)!;
+          const valueKey = String(pathValue);
 
-        if (!valueMap.has(valueKey)) {
-          valueMap.set(valueKey, new Set());
+          if (!valueMap.has(valueKey)) {
+            valueMap.set(valueKey, new Set());
+          }
+          valueMap.get(valueKey)!.add(file);
         }
-        valueMap.get(valueKey)!.add(file);
       }
 
       this.fileToProperties.set(file, props);
@@ -229,6 +316,46 @@ export class VaultIndexer extends Events {
     }
   }
 
+  /**
+   * Count a file's tasks by status character (" " for "- [ ]", "x" for "- [x]", ...)
+   */
+  private indexTasks(file: TFile, cache: CachedMetadata): void {
+    const counts: Record<string, number> = {};
+    let hasTasks = false;
+
+    cache.listItems?.forEach((item) => {
+      if (item.task !== undefined) {
+        counts[item.task] = (counts[item.task] ?? 0) + 1;
+        hasTasks = true;
+      }
+    });
+
+    if (hasTasks) {
+      this.fileToTaskCounts.set(file, counts);
+    }
+  }
+
+  /**
+   * Read inline fields ("key:: value") from a file's body
+   * Stored separately from frontmatter so levels and filters can choose the source
+   *
+   * @returns Fields, or null if the file couldn't be read
+   */
+  private async readInlineFields(file: TFile): Promise<Record<string, any> | null> {
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      return parseInlineFields(content, {
+        brackets: this.options.inlineFieldBrackets,
+      });
+    } catch (error) {
+      console.error(
+        `[MetaGrouper] Error indexing inline fields for ${file.path}:`,
+        error
+      );
+      return null;
+    }
+  }
+
   /**
    * Parse tag hierarchy
    * Example: "project/alpha/feature" → ["project", "project/alpha", "project/alpha/feature"]
@@ -283,11 +410,8 @@ export class VaultIndexer extends Events {
 
     // Update all queued files
     for (const file of filesToUpdate) {
-      // Remove old entries
-      this.removeFileFromIndex(file);
-
-      // Re-index the file
-      await this.indexFile(file);
+      // Re-index the file, replacing its old entries
+      await this.indexFile(file, true);
     }
 
     // Update timestamp
@@ -301,6 +425,8 @@ export class VaultIndexer extends Events {
    * Remove a file from all indices
    */
   private removeFileFromIndex(file: TFile): void {
+    // Drop cached links from and to this file
+    this.invalidateLinks(file);
     // Remove from tag indices
     const tags = this.fileToTags.get(file);
     if (tags) {
@@ -326,23 +452,50 @@ export class VaultIndexer extends Events {
     const props = this.fileToProperties.get(file);
     if (props) {
       for (const [key, value] of Object.entries(props)) {
-        const valueMap = this.propertyToValueToFiles.get(key);
-        if (valueMap) {
-          const valueKey = String(value);
-          const files = valueMap.get(valueKey);
-          if (files) {
-            files.delete(file);
-            if (files.size === 0) {
-              valueMap.delete(valueKey);
+        for (const [path, pathValue] of flattenPropertyValue(key, value)) {
+          const valueMap = this.propertyToValueToFiles.get(path);
+          if (valueMap) {
+            const valueKey = String(pathValue);
+            const files = valueMap.get(valueKey);
+            if (files) {
+              files.delete(file);
+              if (files.size === 0) {
+                valueMap.delete(valueKey);
+              }
+            }
+            if (valueMap.size === 0) {
+              this.propertyToValueToFiles.delete(path);
             }
-          }
-          if (valueMap.size === 0) {
-            this.propertyToValueToFiles.delete(key);
           }
         }
       }
       this.fileToProperties.delete(file);
     }
+
+    // Remove inline fields and task counts
+    this.fileToInlineFields.delete(file);
+    this.fileToTaskCounts.delete(file);
+  }
+
+  /**
+   * Invalidate cached link resolution affected by a file change
+   *
+   * Clears the file's own links and the links of every file pointing to it,
+   * so roll-ups pick up the linked note's new frontmatter (or its removal).
+   * Files with unresolved links are cleared too, since the change may be
+   * the note they were waiting for.
+   */
+  private invalidateLinks(file: TFile): void {
+    this.linkCache.delete(file);
+
+    const dependents = this.linkDependents.get(file);
+    if (dependents) {
+      dependents.forEach((dependent) => this.linkCache.delete(dependent));
+      this.linkDependents.delete(file);
+    }
+
+    this.filesWithUnresolvedLinks.forEach((dependent) => this.linkCache.delete(dependent));
+    this.filesWithUnresolvedLinks.clear();
   }
 
   /**
@@ -397,6 +550,13 @@ export class VaultIndexer extends Events {
     return Array.from(this.tagToFiles.keys());
   }
 
+  /**
+   * Get all frontmatter property keys in the vault
+   */
+  getAllPropertyKeys(): string[] {
+    return Array.from(this.propertyToValueToFiles.keys());
+  }
+
   /**
    * Get all tags for a specific file
    */
@@ -411,6 +571,162 @@ export class VaultIndexer extends Events {
     return this.fileToProperties.get(file) || {};
   }
 
+  /**
+   * Get all inline fields for a specific file
+   */
+  getFileInlineFields(file: TFile): Record<string, any> {
+    return this.fileToInlineFields.get(file) || {};
+  }
+
+  /**
+   * Get a file's task counts by status character (empty if it has no tasks)
+   */
+  getFileTaskCounts(file: TFile): Record<string, number> {
+    return this.fileToTaskCounts.get(file) || {};
+  }
+
+  /**
+   * Get a single property of a file by key or nested path
+   *
+   * @param file - File to read
+   * @param path - Property key or path (e.g., "meta.review.state", "items[].name")
+   * @param source - Where to read the property from (default: frontmatter)
+   * @returns Value, or undefined if the file doesn't have it
+   */
+  getFilePropertyValue(file: TFile, path: string, source: PropertySource = "frontmatter"): any {
+    return getPropertyByPath(this.getFilePropertiesFromSource(file, source), path);
+  }
+
+  /**
+   * Get a file's properties from a source
+   *
+   * With "both", a key present in frontmatter and inline fields yields
+   * a combined list of the distinct values.
+   *
+   * @param file - File to get properties for
+   * @param source - Where to read properties from (default: frontmatter)
+   * @returns Map of property name to value
+   */
+  getFilePropertiesFromSource(file: TFile, source: PropertySource = "frontmatter"): Record<string, any> {
+    if (source === "frontmatter") {
+      return this.getFileProperties(file);
+    } else if (source === "inline") {
+      return this.getFileInlineFields(file);
+    }
+
+    const combined: Record<string, any> = Object.assign(Object.create(null), this.getFileProperties(file));
+    for (const [key, inlineValue] of Object.entries(this.getFileInlineFields(file))) {
+      if (!Object.prototype.hasOwnProperty.call(combined, key)) {
+        combined[key] = inlineValue;
+        continue;
+      }
+
+      const values: any[] = [];
+      for (const value of [combined[key], inlineValue]) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (!values.some((v) => String(v) === String(item))) {
+            values.push(item);
+          }
+        }
+      }
+      combined[key] = values.length === 1 ? values[0] : values;
+    }
+    return combined;
+  }
+
+  /**
+   * Get the notes a file links to through a property
+   * Wikilink values (e.g., project: "[[Alpha]]") are resolved with the metadata cache;
+   * other values and unresolved links are skipped.
+   *
+   * @param file - File whose property holds the links
+   * @param propertyKey - Link-valued property name
+   * @returns Linked files (in property order, without duplicates)
+   */
+  getLinkedFiles(file: TFile, propertyKey: string): TFile[] {
+    const cached = this.linkCache.get(file)?.get(propertyKey);
+    if (cached) {
+      return cached;
+    }
+
+    const value = this.getFilePropertyValue(file, propertyKey);
+    const values = Array.isArray(value) ? value : [value];
+    const linkedFiles: TFile[] = [];
+
+    for (const item of values) {
+      const link = parseWikilink(item);
+      if (!link) {
+        continue;
+      }
+
+      const target = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, file.path);
+      if (!target) {
+        this.filesWithUnresolvedLinks.add(file);
+        continue;
+      }
+
+      if (!linkedFiles.includes(target)) {
+        linkedFiles.push(target);
+      }
+
+      if (!this.linkDependents.has(target)) {
+        this.linkDependents.set(target, new Set());
+      }
+      this.linkDependents.get(target)!.add(file);
+    }
+
+    if (!this.linkCache.has(file)) {
+      this.linkCache.set(file, new Map());
+    }
+    this.linkCache.get(file)!.set(propertyKey, linkedFiles);
+
+    return linkedFiles;
+  }
+
+  /**
+   * Get a property of the notes a file links to (roll-up)
+   * Example: a task with project: "[[Alpha]]" gets Alpha's "area" property
+   *
+   * @param file - File whose property holds the links
+   * @param linkKey - Link-valued property to follow
+   * @param propertyKey - Property to read from the linked notes
+   * @param source - Where to read the property on the linked notes (default: frontmatter)
+   * @returns The linked note's value, a combined list when several linked notes
+   *          have the property, or undefined if none do
+   */
+  getLinkedPropertyValue(
+    file: TFile,
+    linkKey: string,
+    propertyKey: string,
+    source: PropertySource = "frontmatter"
+  ): any {
+    const values: any[] = [];
+
+    for (const linkedFile of this.getLinkedFiles(file, linkKey)) {
+      const value = this.getFilePropertyValue(linkedFile, propertyKey, source);
+      if (value !== undefined) {
+        values.push(value);
+      }
+    }
+
+    if (values.length === 0) {
+      return undefined;
+    } else if (values.length === 1) {
+      return values[0];
+    }
+
+    // Several linked notes: combine their values into one list without duplicates
+    const combined: any[] = [];
+    for (const value of values) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (!combined.some((c) => String(c) === String(item))) {
+          combined.push(item);
+        }
+      }
+    }
+    return combined;
+  }
+
   /**
    * Get the timestamp of the last index operation
    */
@@ -441,7 +757,12 @@ export class VaultIndexer extends Events {
     this.propertyToValueToFiles.clear();
     this.fileToTags.clear();
     this.fileToProperties.clear();
+    this.fileToInlineFields.clear();
+    this.fileToTaskCounts.clear();
     this.tagHierarchyCache.clear();
+    this.linkCache.clear();
+    this.linkDependents.clear();
+    this.filesWithUnresolvedLinks.clear();
 
     // Re-index all files
     const files = this.app.vault.getMarkdownFiles();
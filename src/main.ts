@@ -12,6 +12,9 @@ export default class MetaGrouperPlugin extends Plugin {
   settings!: MetaGrouperSettings;
   private registeredViewCommands: Set<string> = new Set();
 
+  /** Renders all metagrouper codeblocks, sharing one vault index */
+  private codeblockProcessor: MetaGrouperCodeblockProcessor | null = null;
+
   async onload() {
     // Load settings
     await this.loadSettings();
@@ -55,12 +58,16 @@ export default class MetaGrouperPlugin extends Plugin {
     el: HTMLElement,
     ctx: MarkdownPostProcessorContext
   ): Promise<void> {
-    const processor = new MetaGrouperCodeblockProcessor(this.app, this);
-    await processor.render(source, el, ctx);
+    if (!this.codeblockProcessor) {
+      this.codeblockProcessor = new MetaGrouperCodeblockProcessor(this.app, this);
+    }
+    await this.codeblockProcessor.render(source, el, ctx);
   }
 
   async onunload() {
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_METAGROUPER);
+    this.codeblockProcessor?.destroy();
+    this.codeblockProcessor = null;
   }
 
   async activateView() {
@@ -16,6 +16,12 @@ export interface MetaGrouperSettings {
 
   /** Per-view UI state storage (keyed by view name) */
   viewStates: Record<string, ViewState>;
+
+  /** Whether to index inline fields ("key:: value") from note bodies */
+  indexInlineFields: boolean;
+
+  /** Whether to also index bracketed inline fields ("[key:: value]", "(key:: value)") */
+  inlineFieldBrackets: boolean;
 }
 
 /**
@@ -47,6 +53,10 @@ export const DEFAULT_SETTINGS: MetaGrouperSettings = {
     // Default view state for "All Tags"
     "All Tags": { ...DEFAULT_VIEW_STATE },
   },
+
+  // Off by default: indexing inline fields reads the body of every note
+  indexInlineFields: false,
+  inlineFieldBrackets: false,
 };
 
 /**
@@ -5,15 +5,68 @@ import {
   createTagNode,
   createFileNode,
   createPropertyGroupNode,
+  createFolderNode,
+  createDateNode,
+  createNoteNode,
+  createMissingValueNode,
+  createSmartGroupNode,
+  createOtherGroupNode,
+  getNodeCount,
 } from "../types/tree-node";
-import { SortMode, FileSortMode, ViewState } from "../types/view-state";
+import { SortMode, FileSortMode, ViewState, parseAggregateSortMode, parsePropertyFileSortMode } from "../types/view-state";
 import {
   HierarchyConfig,
   HierarchyLevel,
   TagHierarchyLevel,
   PropertyHierarchyLevel,
+  FolderHierarchyLevel,
+  DateHierarchyLevel,
+  DateGranularity,
+  ParentLinkHierarchyLevel,
+  SmartGroupHierarchyLevel,
+  ComputedHierarchyLevel,
+  RegexHierarchyLevel,
+  TaskHierarchyLevel,
+  CompositeHierarchyLevel,
+  LevelValueType,
+  SortCollation,
+  GroupAggregate,
+  NodeCountMode,
+  ProgressIndicator,
+  getMissingGroupLabel,
+  getAllLevels,
 } from "../types/hierarchy-config";
 import { FilterEvaluator } from "../filters/filter-evaluator";
+import {
+  DEFAULT_DATE_FORMATS,
+  formatDateLabel,
+  getDateBucket,
+  parseDateValue,
+} from "../utils/date-buckets";
+import {
+  NumericBucket,
+  computeQuantileBreakpoints,
+  getNumericBucket,
+  parseNumericValue,
+} from "../utils/numeric-buckets";
+import { parseWikilink } from "../utils/property-links";
+import { computeAggregate } from "../utils/aggregates";
+import { mapPropertyValue } from "../utils/value-mapping";
+import { TemplatePart, evaluateTemplate, parseTemplate } from "../utils/template-expression";
+import { compileCapturePattern, getRegexCapture } from "../utils/regex-capture";
+import { matchesValuePatterns } from "../utils/value-patterns";
+import {
+  DEFAULT_OPEN_TASK_STATUSES,
+  TASK_STATE_LABELS,
+  TaskState,
+  formatTaskStatus,
+  getTaskState,
+} from "../utils/task-status";
+
+/**
+ * Group key for property values whose wikilinks can't be resolved
+ */
+export const UNRESOLVED_LINK_GROUP = "unresolved";
 
 /**
  * TreeBuilder - Transforms flat tag index into hierarchical tree structure
@@ -25,10 +78,66 @@ import { FilterEvaluator } from "../filters/filter-evaluator";
  * - Sort nodes according to specified sort mode
  */
 export class TreeBuilder {
+  /**
+   * Numeric buckets seen during the current build, per bucketed property level
+   * Keyed by bucket label; collects the values that fell into each bucket
+   */
+  private numericBuckets = new Map<PropertyHierarchyLevel, Map<string, { bucket: NumericBucket; values: Set<number> }>>();
+
+  /** Quantile breakpoints computed from the current build's files, per level */
+  private quantileBreakpoints = new Map<PropertyHierarchyLevel, number[]>();
+
+  /**
+   * Raw values seen during the current build, per value-mapped property level
+   * Keyed by group key; lets search queries match every raw spelling of a group
+   */
+  private mappedRawValues = new Map<PropertyHierarchyLevel, Map<string, Set<string>>>();
+
+  /**
+   * Key values seen during the current build, per composite level
+   * Keyed by group key; lets composite nodes be searched by each key
+   */
+  private compositeValues = new Map<CompositeHierarchyLevel, Map<string, string[]>>();
+
+  /** Parsed templates of computed levels, keyed by template text (null if invalid) */
+  private parsedTemplates = new Map<string, TemplatePart[] | null>();
+
+  /** Compiled patterns of regex levels, keyed by flags and pattern (null if invalid) */
+  private compiledPatterns = new Map<string, RegExp | null>();
+
+  /** Evaluates the filter expressions of smart-group levels and level branches */
+  private levelFilterEvaluator: FilterEvaluator;
+
+  /** Index of each level (including branch levels) in getAllLevels of the config being built */
+  private levelIndices = new Map<HierarchyLevel, number>();
+
+  /** Group names toggled off in the toolbar for the view being built (levelIndex → names) */
+  private hiddenGroupValues: Record<number, string[]> = {};
+
+  /** Names of the groups each level could show in the last build (before toolbar toggles) */
+  private levelGroupValues = new Map<number, Set<string>>();
+
+  /** Compares group and file names; set from the view's sort collation when a build starts */
+  private collator = this.createCollator();
+
+  /** Aggregates computed on group nodes for the view being built */
+  private aggregates: GroupAggregate[] = [];
+
+  /** Which file count count-based sort modes compare for the view being built */
+  private countMode: NodeCountMode = "occurrences";
+
+  /** Progress indicator of the view being built */
+  private progress: ProgressIndicator | undefined = undefined;
+
+  /** Whether each file is done for the progress indicator, by path (reset per build) */
+  private doneFiles = new Map<string, boolean>();
+
   constructor(
     private app: App,
     private indexer: VaultIndexer
-  ) {}
+  ) {
+    this.levelFilterEvaluator = new FilterEvaluator(app, indexer);
+  }
 
   /**
    * Build a tree from nested tags
@@ -172,7 +281,8 @@ export class TreeBuilder {
 
   /**
    * Calculate aggregate file counts recursively
-   * Each node's fileCount includes files from all descendants
+   * Each node's fileCount includes files from all descendants, once per group they
+   * appear in; uniqueFileCount counts each distinct file once
    *
    * @param node - Node to calculate counts for
    * @returns Total file count for this node and all descendants
@@ -181,22 +291,338 @@ export class TreeBuilder {
     // If this is a file node, return 1
     if (node.type === "file") {
       node.fileCount = 1;
+      node.uniqueFileCount = 1;
       return 1;
     }
 
-    let total = 0;
+    // Note nodes count themselves (cycle markers repeat a note shown above)
+    let total = node.type === "note" && !node.metadata?.cycle ? 1 : 0;
 
     // Count files from children (recursively)
     for (const child of node.children) {
       total += this.calculateFileCounts(child);
     }
 
+    // Distinct files, even if they appear under several groups below the node
+    // ("Other" groups too: a file with several folded values is one unique file)
+    const files = this.collectNodeFiles(node);
+    node.uniqueFileCount = files.size;
+
     // Update the node's file count
     node.fileCount = total;
 
+    // Progress counts each distinct file once
+    if (this.progress) {
+      let done = 0;
+      files.forEach((file) => {
+        if (this.isFileDone(file, this.progress!)) {
+          done++;
+        }
+      });
+      node.progress = { done, total: files.size };
+    }
+
+    // Aggregates count each distinct file once
+    if (this.aggregates.length > 0) {
+      const fileList = Array.from(files.values());
+      node.aggregates = this.aggregates.map((aggregate) =>
+        computeAggregate(
+          fileList
+            .map((file) => this.getAggregateFileValue(file, aggregate))
+            .filter((value): value is number => value !== null),
+          aggregate.function
+        )
+      );
+    }
+
     return total;
   }
 
+  /**
+   * Check whether a file is done for the progress indicator
+   * A checkbox property is done when checked (true or "true").
+   */
+  private isFileDone(file: TFile, progress: ProgressIndicator): boolean {
+    if (!this.doneFiles.has(file.path)) {
+      let done: boolean;
+      if (progress.filters) {
+        done = this.levelFilterEvaluator.evaluateFilters(file, progress.filters);
+      } else {
+        const value = this.indexer.getFilePropertyValue(file, progress.property ?? "");
+        done = value === true || (typeof value === "string" && value.trim().toLowerCase() === "true");
+      }
+      this.doneFiles.set(file.path, done);
+    }
+
+    return this.doneFiles.get(file.path)!;
+  }
+
+  /**
+   * Read the number a file contributes to an aggregate
+   *
+   * @returns File statistic or numeric property value, or null if the file has no number
+   */
+  private getAggregateFileValue(file: TFile, aggregate: GroupAggregate): number | null {
+    if (aggregate.stat) {
+      return file.stat[aggregate.stat];
+    }
+
+    return parseNumericValue(this.indexer.getFilePropertyValue(file, aggregate.property ?? ""));
+  }
+
+  /**
+   * Collect the distinct files shown under a node
+   *
+   * @param node - Node to collect files from
+   * @param files - Map to add the files to
+   * @returns Files under the node, by path
+   */
+  private collectNodeFiles(node: TreeNode, files: Map<string, TFile> = new Map()): Map<string, TFile> {
+    if ((node.type === "file" || (node.type === "note" && !node.metadata?.cycle)) && node.files[0]) {
+      files.set(node.files[0].path, node.files[0]);
+    }
+
+    for (const child of node.children) {
+      this.collectNodeFiles(child, files);
+    }
+
+    return files;
+  }
+
+  /**
+   * Get the names of the groups each level could show in the last build
+   * Groups removed by include/exclude lists are left out; groups toggled off in the toolbar are kept.
+   *
+   * @returns Sorted group names by level index
+   */
+  getLevelGroupValues(): Map<number, string[]> {
+    const values = new Map<number, string[]>();
+    for (const [levelIndex, names] of this.levelGroupValues.entries()) {
+      values.set(levelIndex, Array.from(names).sort((a, b) => a.localeCompare(b)));
+    }
+    return values;
+  }
+
+  /**
+   * Remove the groups hidden by their level's include/exclude lists or by toolbar toggles (recursive)
+   * Groups left without children are removed as well. Levels spanning several depths
+   * (multi-depth tags and folders, date granularities) are matched at their top groups.
+   *
+   * @param node - Node whose child groups should be pruned
+   * @param levels - All hierarchy levels
+   */
+  private pruneHiddenGroups(node: TreeNode, levels: HierarchyLevel[]): void {
+    node.children = node.children.filter((child) => {
+      const levelIndex = child.metadata?.levelIndex;
+      if (child.type === "file" || child.type === "note" || levelIndex === undefined) {
+        return true;
+      }
+
+      const level = levels[levelIndex];
+      if (
+        level && level.type !== "parent-link" && node.metadata?.levelIndex !== levelIndex &&
+        !this.isGroupShown(level, levelIndex, child.name, this.getGroupValues(child), !!child.metadata?.missingValue)
+      ) {
+        return false;
+      }
+
+      const hadChildren = child.children.length > 0;
+      this.pruneHiddenGroups(child, levels);
+      return !hadChildren || child.children.length > 0;
+    });
+  }
+
+  /**
+   * Check whether a group passes its level's include/exclude lists and toolbar toggles
+   * Groups passing the lists are recorded for the toolbar, even if toggled off.
+   *
+   * @param level - Level of the group
+   * @param levelIndex - Index of the level
+   * @param name - Group name, as toggled in the toolbar
+   * @param values - Values matched against the lists (e.g., the tag path and the name)
+   * @param isMissing - Whether the group is the level's missing group (not subject to include lists)
+   */
+  private isGroupShown(
+    level: HierarchyLevel,
+    levelIndex: number,
+    name: string,
+    values: string[],
+    isMissing: boolean
+  ): boolean {
+    if (level.includeValues && level.includeValues.length > 0 && !isMissing &&
+        !matchesValuePatterns(values, level.includeValues)) {
+      return false;
+    }
+    if (level.excludeValues && level.excludeValues.length > 0 && matchesValuePatterns(values, level.excludeValues)) {
+      return false;
+    }
+
+    if (!this.levelGroupValues.has(levelIndex)) {
+      this.levelGroupValues.set(levelIndex, new Set());
+    }
+    this.levelGroupValues.get(levelIndex)!.add(name);
+
+    return !(this.hiddenGroupValues[levelIndex] ?? []).includes(name);
+  }
+
+  /**
+   * Rename the groups of levels with a label template (recursive)
+   * Missing and "Other" groups keep their names.
+   *
+   * @param node - Node whose child groups should be renamed
+   * @param levels - All hierarchy levels
+   */
+  private applyLabelTemplates(node: TreeNode, levels: HierarchyLevel[]): void {
+    for (const child of node.children) {
+      const levelIndex = child.metadata?.levelIndex;
+      if (child.type === "file" || child.type === "note") {
+        continue;
+      }
+
+      const level = levelIndex !== undefined ? levels[levelIndex] : undefined;
+      if (level?.labelTemplate && !child.metadata?.missingValue && !child.metadata?.otherGroup) {
+        const metadata = child.metadata;
+        const value = metadata?.propertyValue !== undefined && metadata?.propertyValue !== null
+          ? String(metadata.propertyValue)
+          : child.name;
+        child.name = this.getTemplateLabel(level, value, getNodeCount(child, "unique")) ?? child.name;
+      }
+
+      this.applyLabelTemplates(child, levels);
+    }
+  }
+
+  /**
+   * Get the name of a group from its level's label template
+   *
+   * @param level - Level of the group
+   * @param value - Group value (${value})
+   * @param fileCount - Number of distinct files in the group (${count})
+   * @returns Label, or null if the level has no valid template or a placeholder has no value
+   */
+  private getTemplateLabel(level: HierarchyLevel, value: string, fileCount: number): string | null {
+    if (!level.labelTemplate) {
+      return null;
+    }
+    if (!this.parsedTemplates.has(level.labelTemplate)) {
+      this.parsedTemplates.set(level.labelTemplate, parseTemplate(level.labelTemplate).parts);
+    }
+    const parts = this.parsedTemplates.get(level.labelTemplate);
+    if (!parts) {
+      return null;
+    }
+
+    const label = evaluateTemplate(parts, {
+      getProperty: (path) => (path === "value" ? value : path === "count" ? fileCount : undefined),
+      getTags: () => [],
+      getFileField: () => undefined,
+    });
+
+    return label !== null ? label.trim() : null;
+  }
+
+  /**
+   * Get the values a group is matched by in include/exclude lists
+   *
+   * @returns The group's value (tag or folder path, property value, smart group name) and its name
+   */
+  private getGroupValues(node: TreeNode): string[] {
+    const metadata = node.metadata;
+    const value = metadata?.tagPath ?? metadata?.folderPath ?? metadata?.smartGroup?.name ??
+      (metadata?.propertyValue !== undefined && metadata?.propertyValue !== null ? String(metadata.propertyValue) : undefined);
+
+    return value !== undefined && value !== node.name ? [value, node.name] : [node.name];
+  }
+
+  /**
+   * Fold the small groups of levels with maxGroups or minGroupCount into "Other" groups (recursive)
+   * Groups are compared by their number of distinct files; missing groups are never folded.
+   *
+   * @param node - Node whose child groups should be folded
+   * @param levels - All hierarchy levels
+   */
+  private foldSmallGroups(node: TreeNode, levels: HierarchyLevel[]): void {
+    // Group the children by level (virtual tag levels mix levels among siblings)
+    const groupsByLevel = new Map<number, TreeNode[]>();
+    for (const child of node.children) {
+      const levelIndex = child.metadata?.levelIndex;
+      if (child.type === "file" || child.type === "note" || levelIndex === undefined || child.metadata?.missingValue) {
+        continue;
+      }
+      if (!groupsByLevel.has(levelIndex)) {
+        groupsByLevel.set(levelIndex, []);
+      }
+      groupsByLevel.get(levelIndex)!.push(child);
+    }
+
+    for (const [levelIndex, groups] of groupsByLevel.entries()) {
+      const level = levels[levelIndex];
+      if (!level || level.type === "parent-link" || (level.maxGroups === undefined && level.minGroupCount === undefined)) {
+        continue;
+      }
+
+      const folded = this.selectFoldedGroups(groups, level);
+      if (folded.length === 0) {
+        continue;
+      }
+
+      const otherNode = createOtherGroupNode(level, folded, folded[0].depth, {
+        parentId: node.id === "root" ? undefined : node.id,
+        levelIndex,
+      });
+      otherNode.parent = folded[0].parent;
+
+      for (const group of folded) {
+        group.parent = otherNode;
+        this.shiftNodeDepth(group, 1);
+      }
+
+      const foldedSet = new Set(folded);
+      node.children = node.children.filter((child) => !foldedSet.has(child));
+      node.children.push(otherNode);
+    }
+
+    // Recurse into the groups (folded groups are processed inside their "Other" group)
+    for (const child of node.children) {
+      if (child.metadata?.otherGroup) {
+        child.children.forEach((group) => this.foldSmallGroups(group, levels));
+      } else {
+        this.foldSmallGroups(child, levels);
+      }
+    }
+  }
+
+  /**
+   * Select the groups of a level to fold into its "Other" group
+   *
+   * @param groups - Sibling groups of the level
+   * @param level - Level with maxGroups and/or minGroupCount
+   * @returns Groups to fold (in their original order)
+   */
+  private selectFoldedGroups(groups: TreeNode[], level: HierarchyLevel): TreeNode[] {
+    const sizes = new Map<TreeNode, number>();
+    groups.forEach((group) => sizes.set(group, this.collectNodeFiles(group).size));
+
+    let kept = groups.filter((group) => sizes.get(group)! >= (level.minGroupCount ?? 1));
+
+    if (level.maxGroups !== undefined && kept.length > level.maxGroups) {
+      kept = [...kept]
+        .sort((a, b) => sizes.get(b)! - sizes.get(a)! || this.compareNodeNames(a, b))
+        .slice(0, level.maxGroups);
+    }
+
+    const keptSet = new Set(kept);
+    return groups.filter((group) => !keptSet.has(group));
+  }
+
+  /**
+   * Shift the depth of a node and its descendants
+   */
+  private shiftNodeDepth(node: TreeNode, delta: number): void {
+    node.depth += delta;
+    node.children.forEach((child) => this.shiftNodeDepth(child, delta));
+  }
+
   /**
    * Sort tree nodes according to sort mode (recursive)
    * LEGACY METHOD - kept for buildFromTags compatibility
@@ -231,45 +657,42 @@ export class TreeBuilder {
       // Apply sort mode
       switch (sortMode) {
         case "alpha-asc":
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+          return this.collator.compare(a.name, b.name);
 
         case "alpha-desc":
-          return b.name.localeCompare(a.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+          return this.collator.compare(b.name, a.name);
 
         case "count-desc":
           // More files first
-          if (a.fileCount !== b.fileCount) {
-            return b.fileCount - a.fileCount;
+          if (getNodeCount(a, this.countMode) !== getNodeCount(b, this.countMode)) {
+            return getNodeCount(b, this.countMode) - getNodeCount(a, this.countMode);
           }
           // Tie-breaker: alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+          return this.collator.compare(a.name, b.name);
 
         case "count-asc":
           // Fewer files first
-          if (a.fileCount !== b.fileCount) {
-            return a.fileCount - b.fileCount;
+          if (getNodeCount(a, this.countMode) !== getNodeCount(b, this.countMode)) {
+            return getNodeCount(a, this.countMode) - getNodeCount(b, this.countMode);
           }
           // Tie-breaker: alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+          return this.collator.compare(a.name, b.name);
+
+        case "natural-asc":
+        case "natural-desc":
+        case "numeric-asc":
+        case "numeric-desc":
+        case "date-asc":
+        case "date-desc":
+        case "custom":
+          return this.compareNodes(a, b, sortMode);
 
         default:
+          if (parseAggregateSortMode(sortMode)) {
+            return this.compareNodes(a, b, sortMode);
+          }
           // Default to alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+          return this.collator.compare(a.name, b.name);
       }
     });
 
@@ -321,7 +744,7 @@ export class TreeBuilder {
     const fileSortMode = viewState?.fileSortMode ??
                          config.defaultFileSortMode ??
                          "alpha-asc";
-    this.sortFiles(fileNodes, fileSortMode);
+    this.sortFiles(fileNodes, fileSortMode, config);
 
     // Sort tag/property nodes using level-specific or default sort mode
     // Use the CHILDREN's level index, not the parent's level index
@@ -333,10 +756,14 @@ export class TreeBuilder {
       config,
       viewState
     );
-    this.sortNodes(tagPropertyNodes, nodeSortMode);
+    this.sortNodes(tagPropertyNodes, nodeSortMode, getAllLevels(config.levels)[childrenLevelIndex]);
+
+    // "Other" groups stay last whatever the sort mode
+    const otherNodes = tagPropertyNodes.filter((child) => child.metadata?.otherGroup);
+    const groupNodes = tagPropertyNodes.filter((child) => !child.metadata?.otherGroup);
 
     // Recombine: files first, then nodes (maintains current behavior)
-    node.children = [...fileNodes, ...tagPropertyNodes];
+    node.children = [...fileNodes, ...groupNodes, ...otherNodes];
 
     // Recursively sort children of tag/property nodes
     for (const child of tagPropertyNodes) {
@@ -367,10 +794,10 @@ export class TreeBuilder {
 
     const currentLevel = config.levels[currentLevelIndex];
 
-    // For tag levels with unlimited depth (-1) or depth > 1,
-    // all nested tags are part of the same hierarchy level
-    if (currentLevel.type === "tag") {
-      const tagLevel = currentLevel as TagHierarchyLevel;
+    // For tag/folder levels with unlimited depth (-1) or depth > 1,
+    // all nested tags/folders are part of the same hierarchy level
+    if (currentLevel.type === "tag" || currentLevel.type === "folder") {
+      const tagLevel = currentLevel as TagHierarchyLevel | FolderHierarchyLevel;
       const tagDepth = tagLevel.depth || 1;
 
       if (tagDepth === -1 || tagDepth > 1) {
@@ -397,12 +824,22 @@ export class TreeBuilder {
     config: HierarchyConfig,
     viewState?: ViewState
   ): SortMode {
-    // 1. Check ViewState runtime override (NOT USED - per user's decision)
-    // We decided level sorting changes via context menu go to config, not viewState
+    // 1. Check ViewState runtime override
+    // (the context menu saves level sorting to the config; overrides come from saved view state)
+    const override = viewState?.levelSortOverrides?.[levelIndex];
+    if (override) {
+      return override;
+    }
 
-    // 2. Check hierarchy level config
-    if (levelIndex < config.levels.length && config.levels[levelIndex]?.sortBy) {
-      return config.levels[levelIndex].sortBy!;
+    // 2. Check hierarchy level config (branch levels follow the top-level levels)
+    const level = getAllLevels(config.levels)[levelIndex];
+    if (level?.sortBy) {
+      return level.sortBy;
+    }
+
+    // Smart groups and task states keep their configured order unless the level overrides it
+    if (level?.type === "smart-group" || (level?.type === "task" && (level.groupBy ?? "state") === "state")) {
+      return "none";
     }
 
     // 3. Fall back to view default
@@ -414,51 +851,128 @@ export class TreeBuilder {
    *
    * @param files - Array of file nodes to sort (modified in place)
    * @param mode - File sort mode
+   * @param config - Hierarchy configuration (tiebreaker and missing placement of property modes)
    */
-  private sortFiles(files: TreeNode[], mode: FileSortMode): void {
+  private sortFiles(files: TreeNode[], mode: FileSortMode, config?: HierarchyConfig): void {
     if (mode === "none" || files.length === 0) {
       return;
     }
 
-    files.sort((a, b) => {
-      const fileA = a.files[0]; // File nodes always have exactly 1 file
-      const fileB = b.files[0];
+    files.sort((a, b) => this.compareFiles(a, b, mode, config));
+  }
 
-      switch (mode) {
-        case "alpha-asc":
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+  /**
+   * Compare two file nodes according to a file sort mode
+   * Property modes order files with equal values, or both without one, by the config's tiebreaker.
+   *
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareFiles(a: TreeNode, b: TreeNode, mode: FileSortMode, config?: HierarchyConfig): number {
+    const fileA = a.files[0]; // File nodes always have exactly 1 file
+    const fileB = b.files[0];
+
+    const propertySort = parsePropertyFileSortMode(mode);
+    if (propertySort) {
+      const result = this.compareFilePropertyValues(
+        this.getFileSortValue(fileA, propertySort.key),
+        this.getFileSortValue(fileB, propertySort.key),
+        propertySort.direction === "asc" ? 1 : -1,
+        config?.fileSortMissing ?? "last"
+      );
+      // A property tiebreaker breaks its own ties alphabetically
+      const tiebreaker = config?.fileSortTiebreaker ?? "alpha-asc";
+      return result || this.compareFiles(a, b, tiebreaker === mode ? "alpha-asc" : tiebreaker);
+    }
 
-        case "alpha-desc":
-          return b.name.localeCompare(a.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+    switch (mode) {
+      case "alpha-asc":
+        return this.collator.compare(a.name, b.name);
 
-        case "created-asc":
-          return fileA.stat.ctime - fileB.stat.ctime;
+      case "alpha-desc":
+        return this.collator.compare(b.name, a.name);
 
-        case "created-desc":
-          return fileB.stat.ctime - fileA.stat.ctime;
+      case "created-asc":
+        return fileA.stat.ctime - fileB.stat.ctime;
 
-        case "modified-asc":
-          return fileA.stat.mtime - fileB.stat.mtime;
+      case "created-desc":
+        return fileB.stat.ctime - fileA.stat.ctime;
 
-        case "modified-desc":
-          return fileB.stat.mtime - fileA.stat.mtime;
+      case "modified-asc":
+        return fileA.stat.mtime - fileB.stat.mtime;
 
-        case "size-asc":
-          return fileA.stat.size - fileB.stat.size;
+      case "modified-desc":
+        return fileB.stat.mtime - fileA.stat.mtime;
 
-        case "size-desc":
-          return fileB.stat.size - fileA.stat.size;
+      case "size-asc":
+        return fileA.stat.size - fileB.stat.size;
 
-        default:
-          return 0;
+      case "size-desc":
+        return fileB.stat.size - fileA.stat.size;
+
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Read a file's frontmatter property for sorting files
+   * Lists sort by their first item; numbers and dates (including numeric
+   * and date strings) become numbers, other values strings.
+   *
+   * @returns Sort value, or null if the file has no value
+   */
+  private getFileSortValue(file: TFile, key: string): number | string | null {
+    let value = this.indexer.getFilePropertyValue(file, key);
+    if (Array.isArray(value)) {
+      value = value[0];
+    }
+
+    if (value === undefined || value === null || value === "") {
+      return null;
+    }
+    if (typeof value === "number") {
+      return isFinite(value) ? value : null;
+    }
+    if (typeof value === "boolean") {
+      return value ? 1 : 0;
+    }
+
+    const text = String(value).trim();
+    if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) {
+      return parseFloat(text);
+    }
+    return parseDateValue(text) ?? text;
+  }
+
+  /**
+   * Compare two file sort values
+   * Numbers compare as numbers and anything else by name; files without a value go first or last.
+   *
+   * @param direction - 1 for ascending, -1 for descending
+   * @param missing - Where files without a value go, whatever the direction
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareFilePropertyValues(
+    valueA: number | string | null,
+    valueB: number | string | null,
+    direction: 1 | -1,
+    missing: "first" | "last"
+  ): number {
+    if (valueA === null || valueB === null) {
+      if (valueA === valueB) {
+        return 0;
       }
-    });
+      return (valueA === null ? 1 : -1) * (missing === "first" ? -1 : 1);
+    }
+
+    if (typeof valueA === "number" && typeof valueB === "number") {
+      return direction * (valueA - valueB);
+    }
+    // Numbers before text
+    if (typeof valueA === "number" || typeof valueB === "number") {
+      return typeof valueA === "number" ? -1 : 1;
+    }
+    return direction * this.collator.compare(valueA, valueB);
   }
 
   /**
@@ -467,89 +981,265 @@ export class TreeBuilder {
    * @param nodes - Array of tag/property nodes to sort (modified in place)
    * @param mode - Sort mode
    */
-  private sortNodes(nodes: TreeNode[], mode: SortMode): void {
+  private sortNodes(nodes: TreeNode[], mode: SortMode, level?: HierarchyLevel): void {
     if (mode === "none" || nodes.length === 0) {
       return;
     }
 
-    nodes.sort((a, b) => {
-      switch (mode) {
-        case "alpha-asc":
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+    nodes.sort((a, b) => this.compareNodes(a, b, mode, level));
+  }
 
-        case "alpha-desc":
-          return b.name.localeCompare(a.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+  /**
+   * Compare two group nodes according to a sort mode
+   *
+   * @param level - Level of the nodes (its value type changes how alphabetical and natural modes read values)
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareNodes(a: TreeNode, b: TreeNode, mode: SortMode, level?: HierarchyLevel): number {
+    const aggregateSort = parseAggregateSortMode(mode);
+    if (aggregateSort) {
+      return this.compareNodeAggregates(a, b, aggregateSort.index, aggregateSort.direction === "asc" ? 1 : -1);
+    }
 
-        case "count-desc":
-          // More files first
-          if (a.fileCount !== b.fileCount) {
-            return b.fileCount - a.fileCount;
-          }
-          // Tie-breaker: alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+    switch (mode) {
+      case "alpha-asc":
+        return this.compareNodeValues(a, b, level?.valueType ?? "text", 1);
 
-        case "count-asc":
-          // Fewer files first
-          if (a.fileCount !== b.fileCount) {
-            return a.fileCount - b.fileCount;
-          }
-          // Tie-breaker: alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
+      case "alpha-desc":
+        return this.compareNodeValues(a, b, level?.valueType ?? "text", -1);
 
-        default:
-          // Default to alphabetical
-          return a.name.localeCompare(b.name, undefined, {
-            numeric: true,
-            sensitivity: "base",
-          });
-      }
-    });
+      case "natural-asc":
+        return this.compareNodeValues(a, b, level?.valueType ?? "auto", 1);
+
+      case "natural-desc":
+        return this.compareNodeValues(a, b, level?.valueType ?? "auto", -1);
+
+      case "numeric-asc":
+        return this.compareNodeValues(a, b, "number", 1);
+
+      case "numeric-desc":
+        return this.compareNodeValues(a, b, "number", -1);
+
+      case "date-asc":
+        return this.compareNodeValues(a, b, "date", 1);
+
+      case "date-desc":
+        return this.compareNodeValues(a, b, "date", -1);
+
+      case "custom":
+        return this.compareCustomOrder(a, b, level);
+
+      case "count-desc":
+        // More files first
+        if (getNodeCount(a, this.countMode) !== getNodeCount(b, this.countMode)) {
+          return getNodeCount(b, this.countMode) - getNodeCount(a, this.countMode);
+        }
+        // Tie-breaker: alphabetical
+        return this.compareNodeNames(a, b);
+
+      case "count-asc":
+        // Fewer files first
+        if (getNodeCount(a, this.countMode) !== getNodeCount(b, this.countMode)) {
+          return getNodeCount(a, this.countMode) - getNodeCount(b, this.countMode);
+        }
+        // Tie-breaker: alphabetical
+        return this.compareNodeNames(a, b);
+
+      default:
+        // Default to alphabetical
+        return this.compareNodeNames(a, b);
+    }
   }
 
   /**
-   * Build a tree from a hierarchy configuration
-   * Supports multi-level grouping by tags and properties
+   * Compare two nodes by their values read as a type
+   * - text: by name (see compareNodeNames)
+   * - auto: as numbers if both are numbers, as dates if both are dates, else as text
+   * - number/date: values that can't be read as the type sort last, by name
    *
-   * @param config - Hierarchy configuration defining the tree structure
-   * @param viewState - Optional view state for runtime sort overrides
-   * @returns Root tree node with hierarchical structure
+   * @param direction - 1 for ascending, -1 for descending
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
    */
-  buildFromHierarchy(config: HierarchyConfig, viewState?: ViewState): TreeNode {
-    // Get initial file set (optionally filtered by filters)
-    const allFiles = this.indexer.getAllFiles();
-    let files: TFile[];
+  private compareNodeValues(
+    a: TreeNode,
+    b: TreeNode,
+    valueType: LevelValueType | "auto",
+    direction: 1 | -1
+  ): number {
+    if (valueType === "text") {
+      return direction * this.compareNodeNames(a, b);
+    }
 
-    if (config.filters && config.filters.filters && config.filters.filters.length > 0) {
-      // Apply filters using FilterEvaluator
-      const filterEvaluator = new FilterEvaluator(this.app, this.indexer);
-      files = allFiles.filter((file) => filterEvaluator.evaluateFilters(file, config.filters));
-    } else {
-      files = allFiles;
+    if (valueType === "auto") {
+      for (const type of ["number", "date"] as const) {
+        const valueA = this.getNodeSortNumber(a, type, true);
+        const valueB = this.getNodeSortNumber(b, type, true);
+        if (valueA !== null && valueB !== null) {
+          return direction * (valueA - valueB || this.compareNodeNames(a, b));
+        }
+      }
+      return direction * this.compareNodeNames(a, b);
     }
 
-    // Optimization: For simple single-level tag hierarchies with unlimited depth,
-    // use buildFromTags which is more efficient for full nested hierarchies
-    if (this.shouldUseBuildFromTags(config)) {
+    const valueA = this.getNodeSortNumber(a, valueType);
+    const valueB = this.getNodeSortNumber(b, valueType);
+    if (valueA !== null && valueB !== null) {
+      return direction * (valueA - valueB || this.compareNodeNames(a, b));
+    }
+    if (valueA !== null || valueB !== null) {
+      return valueA !== null ? -1 : 1;
+    }
+    return this.compareNodeNames(a, b);
+  }
+
+  /**
+   * Compare two nodes by one of their aggregates
+   * Nodes without a value sort last, alphabetically among themselves.
+   *
+   * @param index - Index of the view's aggregate
+   * @param direction - 1 for ascending, -1 for descending
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareNodeAggregates(a: TreeNode, b: TreeNode, index: number, direction: 1 | -1): number {
+    const valueA = a.aggregates?.[index] ?? null;
+    const valueB = b.aggregates?.[index] ?? null;
+    if (valueA !== null && valueB !== null) {
+      return direction * (valueA - valueB) || this.compareNodeNames(a, b);
+    }
+    if (valueA !== null || valueB !== null) {
+      return valueA !== null ? -1 : 1;
+    }
+    return this.compareNodeNames(a, b);
+  }
+
+  /**
+   * Compare two nodes by their position in the level's custom order
+   * Values not in the order go first or last (customOrderUnknown), alphabetically among themselves.
+   * Without a custom order, nodes are compared alphabetically.
+   *
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareCustomOrder(a: TreeNode, b: TreeNode, level?: HierarchyLevel): number {
+    const order = (level?.customOrder ?? []).map((value) => value.toLowerCase());
+    const unknownRank = level?.customOrderUnknown === "first" ? -1 : order.length;
+    const getRank = (node: TreeNode): number => {
+      const values = this.getGroupValues(node).map((value) => value.toLowerCase());
+      const rank = order.findIndex((value) => values.includes(value));
+      return rank === -1 ? unknownRank : rank;
+    };
+
+    return getRank(a) - getRank(b) || this.compareNodeNames(a, b);
+  }
+
+  /**
+   * Read a node's value as a number or a date for sorting
+   * Date buckets and numeric ranges use their start; property groups use their value, other nodes their name.
+   *
+   * @param strict - Whether a number must be the whole value ("10"), not only its start ("10 kg")
+   * @returns Number or timestamp, or null if the value can't be read as the type
+   */
+  private getNodeSortNumber(node: TreeNode, valueType: "number" | "date", strict: boolean = false): number | null {
+    if (node.metadata?.sortValue !== undefined) {
+      return node.metadata.sortValue;
+    }
+
+    const rawValue = node.metadata?.propertyValue ?? node.name;
+    if (valueType === "date") {
+      return typeof rawValue === "string" ? parseDateValue(rawValue) : null;
+    }
+
+    if (typeof rawValue === "number") {
+      return isFinite(rawValue) ? rawValue : null;
+    }
+    const match = String(rawValue).trim().match(strict ? /^[-+]?(\d+\.?\d*|\.\d+)$/ : /^[-+]?(\d+\.?\d*|\.\d+)/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  /**
+   * Compare two nodes for alphabetical ordering
+   * Nodes with a sort value (e.g., date buckets) are ordered by that value instead of their name
+   *
+   * @returns Negative if a sorts before b, positive if after, 0 if equal
+   */
+  private compareNodeNames(a: TreeNode, b: TreeNode): number {
+    const valueA = a.metadata?.sortValue;
+    const valueB = b.metadata?.sortValue;
+    if (valueA !== undefined && valueB !== undefined && valueA !== valueB) {
+      return valueA - valueB;
+    }
+
+    return this.collator.compare(a.name, b.name);
+  }
+
+  /**
+   * Create the collator comparing group and file names
+   * Digits compare as numbers ("P2" before "P10") whatever the collation.
+   *
+   * @param collation - The view's sort collation (default: app language, ignoring accents and case)
+   */
+  private createCollator(collation?: SortCollation): Intl.Collator {
+    const sensitivity = collation?.accentSensitive
+      ? (collation.caseSensitive ? "variant" : "accent")
+      : (collation?.caseSensitive ? "case" : "base");
+
+    try {
+      return new Intl.Collator(collation?.locale || undefined, { numeric: true, sensitivity });
+    } catch {
+      // Invalid locales are reported by validation; fall back to the app language
+      return new Intl.Collator(undefined, { numeric: true, sensitivity });
+    }
+  }
+
+  /**
+   * Build a tree from a hierarchy configuration
+   * Supports multi-level grouping by tags and properties
+   *
+   * @param config - Hierarchy configuration defining the tree structure
+   * @param viewState - Optional view state for runtime sort overrides
+   * @returns Root tree node with hierarchical structure
+   */
+  buildFromHierarchy(config: HierarchyConfig, viewState?: ViewState): TreeNode {
+    // Get initial file set (optionally filtered by filters)
+    const allFiles = this.indexer.getAllFiles();
+    let files: TFile[];
+
+    if (config.filters && config.filters.filters && config.filters.filters.length > 0) {
+      // Apply filters using FilterEvaluator
+      const filterEvaluator = new FilterEvaluator(this.app, this.indexer);
+      files = allFiles.filter((file) => filterEvaluator.evaluateFilters(file, config.filters));
+    } else {
+      files = allFiles;
+    }
+
+    // Resolve numeric buckets against the files in this view
+    this.prepareNumericBuckets(config.levels, files);
+    this.mappedRawValues.clear();
+    this.compositeValues.clear();
+    this.indexLevels(config);
+    this.hiddenGroupValues = viewState?.hiddenGroupValues ?? {};
+    this.levelGroupValues.clear();
+    this.collator = this.createCollator(config.sortCollation);
+    this.aggregates = config.aggregates ?? [];
+    this.countMode = config.countMode ?? "occurrences";
+    this.progress = config.progress;
+    this.doneFiles.clear();
+
+    // Optimization: For simple single-level tag hierarchies with unlimited depth,
+    // use buildFromTags which is more efficient for full nested hierarchies
+    if (this.shouldUseBuildFromTags(config) && !this.hiddenGroupValues[0]?.length) {
       const tagLevel = config.levels[0] as TagHierarchyLevel;
-      return this.buildFromTags(
+      const tagTree = this.buildFromTags(
         tagLevel.key || undefined,
         config.defaultNodeSortMode || "alpha-asc",
         config,
         viewState,
         files // Pass filtered files to buildFromTags
       );
+
+      // Nothing is hidden, but the toolbar lists the tags that could be
+      this.pruneHiddenGroups(tagTree, config.levels);
+      this.applyLabelTemplates(tagTree, config.levels);
+      return tagTree;
     }
 
     // Build tree recursively through hierarchy levels
@@ -561,6 +1251,12 @@ export class TreeBuilder {
       config.showPartialMatches
     );
 
+    // Remove groups hidden by include/exclude lists or toolbar toggles
+    this.pruneHiddenGroups(root, getAllLevels(config.levels));
+
+    // Fold long-tail groups into "Other" groups where levels limit their groups
+    this.foldSmallGroups(root, getAllLevels(config.levels));
+
     // Calculate aggregate file counts BEFORE sorting
     // (needed for count-based sorting to work correctly)
     this.calculateFileCounts(root);
@@ -568,6 +1264,9 @@ export class TreeBuilder {
     // Apply sorting with per-level and file-specific logic
     this.sortTreeRecursiveNew(root, config, viewState, 0);
 
+    // Rename groups after sorting, so sorting still reads their values
+    this.applyLabelTemplates(root, getAllLevels(config.levels));
+
     return root;
   }
 
@@ -591,8 +1290,21 @@ export class TreeBuilder {
       files = allFiles;
     }
 
+    // Resolve numeric buckets against the files in this view
+    this.prepareNumericBuckets(config.levels, files);
+    this.mappedRawValues.clear();
+    this.compositeValues.clear();
+    this.indexLevels(config);
+    this.hiddenGroupValues = viewState?.hiddenGroupValues ?? {};
+    this.levelGroupValues.clear();
+    this.collator = this.createCollator(config.sortCollation);
+    this.aggregates = config.aggregates ?? [];
+    this.countMode = config.countMode ?? "occurrences";
+    this.progress = config.progress;
+    this.doneFiles.clear();
+
     // Group files by their complete flattened path
-    const pathGroups = new Map<string, { files: TFile[], path: Array<{ segment: string; levelIndex: number; levelType: "tag" | "property" }> }>();
+    const pathGroups = new Map<string, { files: TFile[], path: Array<{ segment: string; levelIndex: number; levelType: HierarchyLevel["type"] }> }>();
 
     for (const file of files) {
       // Get all possible path combinations for this file (handles multi-value expansion)
@@ -625,7 +1337,11 @@ export class TreeBuilder {
       if (group.files.length === 0) continue;
 
       // Create combined display name
-      const displayName = this.createFlattenedNodeName(group.path, config.levels);
+      const displayName = this.createFlattenedNodeName(
+        group.path,
+        getAllLevels(config.levels),
+        new Set(group.files.map((file) => file.path)).size
+      );
 
       // Create unique ID for this flattened group
       const nodeId = `flattened:${pathKey}`;
@@ -667,51 +1383,74 @@ export class TreeBuilder {
 
   /**
    * Compute all possible flattened paths for a file across all hierarchy levels
-   * Handles multi-value expansion by generating Cartesian product of all possible combinations
+   * Handles multi-value expansion by generating every combination of the file's values
+   * (each value continues with its own branch when the level has branches)
    * Returns array of path arrays, or empty array if file doesn't match any levels
    */
   private computeAllFlattenedPaths(
     file: TFile,
     levels: HierarchyLevel[]
-  ): Array<Array<{ segment: string; levelIndex: number; levelType: "tag" | "property" }>> {
-    // Get all possible segments for each level
-    const levelSegments: Array<Array<{ segment: string; levelIndex: number; levelType: "tag" | "property" }>> = [];
+  ): Array<Array<{ segment: string; levelIndex: number; levelType: HierarchyLevel["type"] }>> {
+    if (levels.length === 0) {
+      return [];
+    }
 
-    for (let levelIndex = 0; levelIndex < levels.length; levelIndex++) {
-      const level = levels[levelIndex];
-      const rawSegments = this.getFileSegmentsForLevel(file, level, levelIndex);
+    return this.computeFlattenedPathsFrom(file, levels, 0);
+  }
 
-      if (rawSegments.length === 0) {
-        // File doesn't match this level at all
-        return [];
-      }
+  /**
+   * Compute the flattened path suffixes of a file from a level on
+   *
+   * @param file - File to compute paths for
+   * @param levels - Hierarchy levels on the file's path
+   * @param depth - Index of the first level of the suffix
+   * @returns Path suffixes, or an empty array if the file doesn't match a level
+   */
+  private computeFlattenedPathsFrom(
+    file: TFile,
+    levels: HierarchyLevel[],
+    depth: number
+  ): Array<Array<{ segment: string; levelIndex: number; levelType: HierarchyLevel["type"] }>> {
+    if (depth >= levels.length) {
+      return [[]];
+    }
 
-      // Convert to formatted segments with level index and type
-      const formattedSegments = rawSegments.map(segment => ({
-        segment: this.formatSegmentForLevel(segment, level),
-        levelIndex,
-        levelType: level.type
-      }));
+    const level = levels[depth];
+    let rawSegments = this.getFileSegmentsForLevel(file, level, depth);
+    let groupKeys: Array<string | undefined> = rawSegments;
 
-      levelSegments.push(formattedSegments);
+    // Files without a value take the level's missing group as their segment
+    if (rawSegments.length === 0 && this.hasMissingGroup(level)) {
+      rawSegments = [getMissingGroupLabel(level)];
+      groupKeys = [undefined];
     }
 
-    if (levelSegments.length === 0) {
-      return [];
-    }
+    // A file that doesn't match this level at all has no paths
+    const paths: Array<Array<{ segment: string; levelIndex: number; levelType: HierarchyLevel["type"] }>> = [];
 
-    // Generate Cartesian product of all level combinations
-    return this.cartesianProduct(levelSegments);
-  }
+    rawSegments.forEach((rawSegment, index) => {
+      // Convert to formatted segment with level index and type
+      const segment = {
+        segment: this.formatSegmentForLevel(rawSegment, level),
+        levelIndex: this.getLevelIndex(levels, depth),
+        levelType: level.type,
+      };
 
-  /**
-   * Generate Cartesian product of arrays
-   */
-  private cartesianProduct<T>(arrays: T[][]): T[][] {
-    return arrays.reduce<T[][]>(
-      (acc, curr) => acc.flatMap(a => curr.map(b => [...a, b])),
-      [[]]
-    );
+      // Hidden values drop the paths through them
+      if (
+        level.type !== "parent-link" &&
+        !this.isGroupShown(level, segment.levelIndex, segment.segment, [rawSegment, segment.segment], groupKeys[index] === undefined)
+      ) {
+        return;
+      }
+
+      const branchLevels = this.getBranchLevels(levels, depth, this.findBranchIndex(file, level, groupKeys[index]));
+      for (const rest of this.computeFlattenedPathsFrom(file, branchLevels, depth + 1)) {
+        paths.push([segment, ...rest]);
+      }
+    });
+
+    return paths;
   }
 
   /**
@@ -724,8 +1463,13 @@ export class TreeBuilder {
   ): string[] {
     if (level.type === "property") {
       const propertyLevel = level as PropertyHierarchyLevel;
-      const props = this.indexer.getFileProperties(file);
-      const value = props[level.key];
+
+      // Bucketed levels use one segment per range
+      if (propertyLevel.bucketing) {
+        return this.getFileNumericBuckets(file, propertyLevel).map(b => b.label);
+      }
+
+      const value = this.getPropertyValue(file, propertyLevel);
 
       if (value === undefined) {
         return [];
@@ -735,14 +1479,14 @@ export class TreeBuilder {
       if (Array.isArray(value)) {
         if (propertyLevel.separateListValues) {
           // Each list item becomes a separate segment
-          return value.map(v => String(v));
+          return value.map(v => this.getPropertyDisplayValue(this.getPropertyGroupKey(v, propertyLevel, file), propertyLevel));
         } else {
           // Combined list as single segment
-          return [`[${value.map(v => String(v)).join(", ")}]`];
+          return [`[${value.map(v => this.getMappedValue(v, propertyLevel)).join(", ")}]`];
         }
       } else {
         // Single value
-        return [String(value)];
+        return [this.getPropertyDisplayValue(this.getPropertyGroupKey(value, propertyLevel, file), propertyLevel)];
       }
     } else if (level.type === "tag") {
       const tagLevel = level as TagHierarchyLevel;
@@ -756,6 +1500,53 @@ export class TreeBuilder {
       );
 
       return matchingTags;
+    } else if (level.type === "date") {
+      const dateLevel = level as DateHierarchyLevel;
+      const granularities = this.getDateGranularities(dateLevel);
+
+      // One segment per date, combining all granularities (e.g., "2024 / 2024-03")
+      const segments: string[] = [];
+      for (const timestamp of this.getFileDates(file, dateLevel)) {
+        const segment = granularities
+          .map(g => this.formatDateBucketLabel(getDateBucket(timestamp, g).start, g, dateLevel))
+          .join(" / ");
+        if (!segments.includes(segment)) {
+          segments.push(segment);
+        }
+      }
+      return segments;
+    } else if (level.type === "smart-group") {
+      // One segment per matching group
+      return this.getSmartGroupMatches(file, level as SmartGroupHierarchyLevel);
+    } else if (level.type === "computed") {
+      const computedKey = this.getComputedKey(file, level as ComputedHierarchyLevel);
+      return computedKey !== null ? [computedKey] : [];
+    } else if (level.type === "regex") {
+      const capture = this.getRegexKey(file, level as RegexHierarchyLevel);
+      return capture !== null ? [capture] : [];
+    } else if (level.type === "composite") {
+      // One segment per combination of values
+      return this.getCompositeKeys(file, level as CompositeHierarchyLevel);
+    } else if (level.type === "task") {
+      // One segment per task group, by its display name
+      const taskLevel = level as TaskHierarchyLevel;
+      return this.getTaskGroupKeys(file, taskLevel).map(key => this.getTaskGroupLabel(key, taskLevel));
+    } else if (level.type === "parent-link") {
+      // One breadcrumb per parent chain (e.g., "Home / Projects / Alpha")
+      return this.getParentLinkBreadcrumbs(file, level as ParentLinkHierarchyLevel, new Set())
+        .map(chain => chain.join(" / "));
+    } else if (level.type === "folder") {
+      const folderLevel = level as FolderHierarchyLevel;
+
+      // Find the file's folder truncated to the appropriate depth
+      return this.findMatchingTags(
+        file,
+        this.normalizeFolderPath(folderLevel.key),
+        undefined,
+        folderLevel.depth === -1 ? 999 : (folderLevel.depth || 1),
+        0,
+        this.getFolderPaths(file)
+      );
     }
 
     return [];
@@ -772,8 +1563,8 @@ export class TreeBuilder {
         return `${prefix} = ${segment}`;
       }
       return segment;
-    } else if (level.type === "tag") {
-      const tagLevel = level as TagHierarchyLevel;
+    } else if (level.type === "tag" || level.type === "folder") {
+      const tagLevel = level as TagHierarchyLevel | FolderHierarchyLevel;
       if (tagLevel.showFullPath) {
         return segment; // Already full path
       }
@@ -790,7 +1581,8 @@ export class TreeBuilder {
    */
   private createFlattenedNodeName(
     path: Array<{ segment: string; levelIndex: number }>,
-    levels: HierarchyLevel[]
+    levels: HierarchyLevel[],
+    fileCount: number
   ): string {
     if (path.length === 0) {
       return "Unmatched Files";
@@ -799,7 +1591,7 @@ export class TreeBuilder {
     // Apply level-specific formatting and combine with separators
     const formattedSegments = path.map(({ segment, levelIndex }) => {
       const level = levels[levelIndex];
-      return this.formatSegmentForLevel(segment, level);
+      return this.getTemplateLabel(level, segment, fileCount) ?? this.formatSegmentForLevel(segment, level);
     });
 
     return formattedSegments.join("; ");
@@ -833,7 +1625,15 @@ export class TreeBuilder {
     }
 
     // Must not use advanced features
-    if (tagLevel.virtual) {
+    if (
+      tagLevel.virtual ||
+      tagLevel.showMissing ||
+      tagLevel.maxGroups !== undefined ||
+      tagLevel.minGroupCount !== undefined ||
+      (tagLevel.branches && tagLevel.branches.length > 0) ||
+      (tagLevel.includeValues && tagLevel.includeValues.length > 0) ||
+      (tagLevel.excludeValues && tagLevel.excludeValues.length > 0)
+    ) {
       return false;
     }
 
@@ -879,14 +1679,43 @@ export class TreeBuilder {
 
     const level = levels[depth];
 
-    // Handle tag levels with depth > 1 or depth = -1 (unlimited) specially
-    if (level.type === "tag") {
-      const tagLevel = level as TagHierarchyLevel;
+    // Collect files without a value for this level into its missing group
+    if (this.hasMissingGroup(level)) {
+      const missingFiles = files.filter((f) => !this.fileHasLevelValue(f, level, parentTagPath));
+
+      if (missingFiles.length > 0) {
+        const missingSet = new Set(missingFiles);
+        const result = this.buildLevelRecursive(
+          files.filter((f) => !missingSet.has(f)),
+          levels,
+          depth,
+          parentTagPath,
+          showPartialMatches,
+          parentId
+        );
+
+        const missingNode = this.buildMissingGroupNode(
+          missingFiles,
+          levels,
+          depth,
+          parentTagPath,
+          showPartialMatches,
+          parentId
+        );
+
+        result.children.push(missingNode);
+        return result;
+      }
+    }
+
+    // Handle tag/folder levels with depth > 1 or depth = -1 (unlimited) specially
+    if (level.type === "tag" || level.type === "folder") {
+      const tagLevel = level as TagHierarchyLevel | FolderHierarchyLevel;
       const tagDepth = tagLevel.depth || 1;
 
       if (tagDepth > 1 || tagDepth === -1) {
-        // Multi-depth tag level - build intermediate tag levels
-        // For depth=-1, this will recurse until no more nested tags exist
+        // Multi-depth tag/folder level - build intermediate levels
+        // For depth=-1, this will recurse until no more nested tags/folders exist
         return this.buildMultiDepthTagLevel(
           files,
           levels,
@@ -900,6 +1729,30 @@ export class TreeBuilder {
       }
     }
 
+    // Parent-link levels nest notes under the notes they link to
+    if (level.type === "parent-link") {
+      return this.buildParentLinkLevel(
+        files,
+        level as ParentLinkHierarchyLevel,
+        depth,
+        parentId
+      );
+    }
+
+    // Date levels build one nested level per configured granularity
+    if (level.type === "date") {
+      return this.buildDateLevel(
+        files,
+        levels,
+        depth,
+        level as DateHierarchyLevel,
+        parentTagPath,
+        0, // Start at the coarsest granularity
+        showPartialMatches,
+        parentId
+      );
+    }
+
     // Single-depth grouping (original logic)
     const groups = this.groupFilesByLevel(files, level, parentTagPath);
 
@@ -919,78 +1772,11 @@ export class TreeBuilder {
 
     for (const [groupKey, groupFiles] of groups.entries()) {
       // Create the group node
-      let node: TreeNode;
-      if (level.type === "tag") {
-        const tagLevel = level as TagHierarchyLevel;
-        node = createTagNode(groupKey, [], treeDepth, {
-          label: tagLevel.label,
-          showFullPath: tagLevel.showFullPath,
-          parentId,
-          levelIndex: depth, // Set hierarchy level index
-        });
-      } else {
-        const propLevel = level as PropertyHierarchyLevel;
-        node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
-          label: propLevel.label,
-          showPropertyName: propLevel.showPropertyName,
-          parentId,
-          levelIndex: depth, // Set hierarchy level index
-        });
-      }
-
-      // Separate files: those that match next level vs those that end here
-      const filesForNextLevel: TFile[] = [];
-      const filesForThisLevel: TFile[] = [];
-
-      if (depth + 1 < levels.length) {
-        const nextLevel = levels[depth + 1];
-        // Determine parent tag path for checking next level
-        const nextParentTagPath =
-          level.type === "tag" ? groupKey : parentTagPath;
-
-        for (const file of groupFiles) {
-          if (this.fileMatchesLevel(file, nextLevel, nextParentTagPath)) {
-            filesForNextLevel.push(file);
-          } else {
-            filesForThisLevel.push(file);
-          }
-        }
-      } else {
-        // No more levels, all files end here
-        filesForThisLevel.push(...groupFiles);
-      }
-
-      // Add file nodes for files that end at this level
-      // Only add if showPartialMatches=true OR this is the last hierarchy level
-      if (showPartialMatches || depth + 1 >= levels.length) {
-        for (const file of filesForThisLevel) {
-          const fileNode = createFileNode(file, treeDepth + 1, node.id);
-          fileNode.parent = node;
-          node.children.push(fileNode);
-        }
-      }
-
-      // Recursively build next level for files that continue
-      if (filesForNextLevel.length > 0) {
-        // Determine parent tag path for next level
-        const newParentTagPath =
-          level.type === "tag" ? groupKey : parentTagPath;
-
-        const childTreeNode = this.buildLevelRecursive(
-          filesForNextLevel,
-          levels,
-          depth + 1,
-          newParentTagPath,
-          showPartialMatches,
-          node.id
-        );
+      const node = this.createGroupNode(level, groupKey, treeDepth, parentId, this.getLevelIndex(levels, depth));
 
-        // Add children from recursive call and set parent references
-        for (const child of childTreeNode.children) {
-          child.parent = node;
-          node.children.push(child);
-        }
-      }
+      // Continue with the next level (or the group's branch)
+      const nextParentTagPath = level.type === "tag" ? groupKey : parentTagPath;
+      this.addNextLevelChildren(node, groupFiles, levels, depth, nextParentTagPath, showPartialMatches, groupKey);
 
       children.push(node);
     }
@@ -1018,45 +1804,218 @@ export class TreeBuilder {
   }
 
   /**
-   * Build multiple tree levels for a single tag hierarchy level with depth > 1
+   * Create a group node for a single-depth grouping of a hierarchy level
+   *
+   * @param level - Hierarchy level the group belongs to
+   * @param groupKey - Group key as produced by groupFilesByLevel
+   * @param treeDepth - Depth of the node in the tree
+   * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @param levelIndex - Index of the hierarchy level
+   * @returns Tree node for the group (without children)
+   */
+  private createGroupNode(
+    level: HierarchyLevel,
+    groupKey: string,
+    treeDepth: number,
+    parentId: string | undefined,
+    levelIndex: number
+  ): TreeNode {
+    if (level.type === "tag") {
+      const tagLevel = level as TagHierarchyLevel;
+      return createTagNode(groupKey, [], treeDepth, {
+        label: tagLevel.label,
+        showFullPath: tagLevel.showFullPath,
+        parentId,
+        levelIndex, // Set hierarchy level index
+      });
+    } else if (level.type === "folder") {
+      const folderLevel = level as FolderHierarchyLevel;
+      return createFolderNode(groupKey, [], treeDepth, {
+        label: folderLevel.label,
+        showFullPath: folderLevel.showFullPath,
+        parentId,
+        levelIndex, // Set hierarchy level index
+      });
+    } else if (level.type === "date") {
+      // Single-depth date groups use the finest granularity; the key is the bucket start
+      const dateLevel = level as DateHierarchyLevel;
+      const granularity = this.getDateGranularities(dateLevel).slice(-1)[0];
+      return this.createDateBucketNode(dateLevel, granularity, Number(groupKey), treeDepth, parentId, levelIndex);
+    } else if (level.type === "smart-group") {
+      const smartLevel = level as SmartGroupHierarchyLevel;
+      return createSmartGroupNode(
+        groupKey,
+        smartLevel.groups.findIndex((g) => g.name === groupKey),
+        treeDepth,
+        {
+          label: smartLevel.label,
+          parentId,
+          levelIndex, // Set hierarchy level index
+        }
+      );
+    } else if (level.type === "computed") {
+      const computedLevel = level as ComputedHierarchyLevel;
+      const node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
+        label: computedLevel.label,
+        showPropertyName: false,
+        parentId,
+        levelIndex, // Set hierarchy level index
+      });
+
+      // Computed keys have no search equivalent
+      if (node.metadata) {
+        node.metadata.template = computedLevel.template;
+      }
+      return node;
+    } else if (level.type === "regex") {
+      const regexLevel = level as RegexHierarchyLevel;
+      const node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
+        label: regexLevel.label,
+        showPropertyName: false,
+        parentId,
+        levelIndex, // Set hierarchy level index
+      });
+
+      // Captures have no search equivalent
+      if (node.metadata) {
+        node.metadata.capturePattern = regexLevel.pattern;
+      }
+      return node;
+    } else if (level.type === "task") {
+      const taskLevel = level as TaskHierarchyLevel;
+      const node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
+        label: taskLevel.label,
+        showPropertyName: false,
+        parentId,
+        levelIndex, // Set hierarchy level index
+        displayValue: this.getTaskGroupLabel(groupKey, taskLevel),
+      });
+
+      // Task groups have no search equivalent
+      if (node.metadata) {
+        node.metadata.taskGroup = groupKey;
+      }
+      return node;
+    } else if (level.type === "composite") {
+      const compositeLevel = level as CompositeHierarchyLevel;
+      const node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
+        label: compositeLevel.label,
+        showPropertyName: false,
+        parentId,
+        levelIndex, // Set hierarchy level index
+      });
+
+      // Composite groups are searched by each of their keys
+      const values = this.compositeValues.get(compositeLevel)?.get(groupKey);
+      if (values && node.metadata) {
+        node.metadata.compositeValues = compositeLevel.keys.map((part, i) => ({ key: part.key, value: values[i] }));
+        if (compositeLevel.propertySource && compositeLevel.propertySource !== "frontmatter") {
+          node.metadata.propertySource = compositeLevel.propertySource;
+        }
+      }
+      return node;
+    } else {
+      const propLevel = level as PropertyHierarchyLevel;
+      const node = createPropertyGroupNode(level.key, groupKey, [], treeDepth, {
+        label: propLevel.label,
+        showPropertyName: propLevel.showPropertyName,
+        parentId,
+        levelIndex, // Set hierarchy level index
+        displayValue: this.getPropertyDisplayValue(groupKey, propLevel),
+      });
+
+      // Roll-up groups can't be searched by the property of the files themselves
+      if (propLevel.via && node.metadata) {
+        node.metadata.rollupVia = propLevel.via;
+      }
+
+      // Inline field groups can't be searched with Obsidian's property syntax
+      if (propLevel.propertySource && propLevel.propertySource !== "frontmatter" && node.metadata) {
+        node.metadata.propertySource = propLevel.propertySource;
+      }
+
+      // Resolved link groups remember their target so clicking opens the note
+      if (propLevel.resolveLinks && node.metadata) {
+        const target = this.getLinkGroupTarget(groupKey);
+        if (target) {
+          node.metadata.linkTarget = target.path;
+        } else if (groupKey === UNRESOLVED_LINK_GROUP) {
+          node.metadata.unresolvedLinks = true;
+        }
+      }
+
+      // Mapped groups keep their raw values so searches match every spelling
+      const rawValues = propLevel.valueMapping
+        ? this.mappedRawValues.get(propLevel)?.get(groupKey)
+        : undefined;
+      if (rawValues && node.metadata) {
+        node.metadata.rawValues = Array.from(rawValues).sort();
+      }
+
+      // Bucketed groups keep their range so they sort numerically and can be searched
+      const bucketEntry = propLevel.bucketing
+        ? this.numericBuckets.get(propLevel)?.get(groupKey)
+        : undefined;
+      if (bucketEntry && node.metadata) {
+        node.metadata.numericRange = {
+          min: bucketEntry.bucket.min,
+          max: bucketEntry.bucket.max,
+          values: Array.from(bucketEntry.values).sort((a, b) => a - b),
+        };
+        node.metadata.sortValue = bucketEntry.bucket.min ?? -Infinity;
+      }
+
+      return node;
+    }
+  }
+
+  /**
+   * Build multiple tree levels for a single tag or folder hierarchy level with depth > 1
    *
    * @param files - Files to process
    * @param levels - All hierarchy levels
    * @param hierarchyDepth - Current hierarchy level index
-   * @param tagLevel - The tag level being processed
+   * @param tagLevel - The tag or folder level being processed
    * @param parentTagPath - Parent tag path for nested grouping
    * @param subDepth - Current sub-depth within this tag level (0 to tagDepth-1)
    * @param showPartialMatches - Whether to show files at intermediate levels
    * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @param folderPath - Current folder path within a folder level (parentTagPath keeps the tag context)
    * @returns Tree node with multi-level tag structure
    */
   private buildMultiDepthTagLevel(
     files: TFile[],
     levels: HierarchyLevel[],
     hierarchyDepth: number,
-    tagLevel: TagHierarchyLevel,
+    tagLevel: TagHierarchyLevel | FolderHierarchyLevel,
     parentTagPath: string | undefined,
     subDepth: number,
     showPartialMatches: boolean = false,
-    parentId?: string
+    parentId?: string,
+    folderPath?: string
   ): TreeNode {
     const tagDepth = tagLevel.depth || 1;
     // Tree depth is hierarchy level index + 1 (root is depth 0)
     const treeDepth = hierarchyDepth + 1;
 
+    const isFolderLevel = tagLevel.type === "folder";
+    const levelKey = isFolderLevel ? this.normalizeFolderPath(tagLevel.key) : tagLevel.key;
+    const currentPath = isFolderLevel ? folderPath : parentTagPath;
+
     // Group files by tags at current sub-depth (1 level at a time)
     const groups = new Map<string, TFile[]>();
 
     for (const file of files) {
       // Always look for immediate children (depth 1) relative to parent
       // The subDepth counter is only for tracking when to stop recursion
-      const targetDepth = parentTagPath ? 1 : (subDepth + 1);
+      const targetDepth = currentPath ? 1 : (subDepth + 1);
 
       const matchingTags = this.findMatchingTagsAtDepth(
         file,
-        tagLevel.key,
-        parentTagPath,
-        targetDepth
+        levelKey,
+        currentPath,
+        targetDepth,
+        this.getLevelPaths(file, tagLevel)
       );
 
       for (const tag of matchingTags) {
@@ -1085,12 +2044,18 @@ export class TreeBuilder {
     const children: TreeNode[] = [];
 
     for (const [groupKey, groupFiles] of groups.entries()) {
-      const node = createTagNode(groupKey, [], treeDepth + subDepth, {
+      const nodeOptions = {
         label: tagLevel.label,
         showFullPath: tagLevel.showFullPath,
         parentId,
-        levelIndex: hierarchyDepth, // Set hierarchy level index (not treeDepth!)
-      });
+        levelIndex: this.getLevelIndex(levels, hierarchyDepth), // Set hierarchy level index (not treeDepth!)
+      };
+      const node = isFolderLevel
+        ? createFolderNode(groupKey, [], treeDepth + subDepth, nodeOptions)
+        : createTagNode(groupKey, [], treeDepth + subDepth, nodeOptions);
+
+      // Tag context handed to the next hierarchy level (folder paths are not tags)
+      const nextParentTagPath = isFolderLevel ? parentTagPath : groupKey;
 
       // Check if there are more sub-depths to process
       // For depth=-1 (unlimited), always continue recursing (will stop when no more tags found)
@@ -1107,7 +2072,7 @@ export class TreeBuilder {
         if (hierarchyDepth + 1 >= levels.length) {
           // This is a single-level tag hierarchy, check for files ending at this tag
           for (const file of groupFiles) {
-            const fileTags = Array.from(this.indexer.getFileTags(file));
+            const fileTags = Array.from(this.getLevelPaths(file, tagLevel));
             // Check if this file has any tags deeper than groupKey
             const hasDeeper = fileTags.some(tag =>
               tag.startsWith(groupKey + "/") && tag.length > groupKey.length + 1
@@ -1144,7 +2109,8 @@ export class TreeBuilder {
             subDepth,
             node,
             showPartialMatches,
-            node.id
+            node.id,
+            parentTagPath
           );
         } else {
           // Non-virtual mode: continue directly to next tag sub-depth
@@ -1153,10 +2119,11 @@ export class TreeBuilder {
             levels,
             hierarchyDepth,
             tagLevel,
-            groupKey,
+            isFolderLevel ? parentTagPath : groupKey,
             subDepth + 1,
             showPartialMatches,
-            node.id
+            node.id,
+            isFolderLevel ? groupKey : undefined
           );
 
           // Add children and set parent references
@@ -1166,58 +2133,266 @@ export class TreeBuilder {
           }
         }
       } else {
-        // Last sub-depth of this tag level
-        // Separate files: those that match next hierarchy level vs those that end here
-        const filesForNextLevel: TFile[] = [];
-        const filesForThisLevel: TFile[] = [];
+        // Last sub-depth of this tag level: continue with the next hierarchy level (or the group's branch)
+        this.addNextLevelChildren(node, groupFiles, levels, hierarchyDepth, nextParentTagPath, showPartialMatches, groupKey);
+      }
 
-        if (hierarchyDepth + 1 < levels.length) {
-          const nextLevel = levels[hierarchyDepth + 1];
+      children.push(node);
+    }
 
-          for (const file of groupFiles) {
-            if (this.fileMatchesLevel(file, nextLevel, groupKey)) {
-              filesForNextLevel.push(file);
-            } else {
-              filesForThisLevel.push(file);
-            }
-          }
-        } else {
-          // No more hierarchy levels
-          filesForThisLevel.push(...groupFiles);
-        }
+    return {
+      id: parentId || "root",
+      name: "Root",
+      type: "tag",
+      children,
+      depth: treeDepth,
+      files: [],
+      fileCount: 0,
+    };
+  }
 
-        // Add file nodes for files that end here
-        // Only add if showPartialMatches=true OR this is the last hierarchy level
-        if (showPartialMatches || hierarchyDepth + 1 >= levels.length) {
-          for (const file of filesForThisLevel) {
-            const fileNode = createFileNode(file, treeDepth + subDepth + 1, node.id);
-            fileNode.parent = node;
-            node.children.push(fileNode);
-          }
+  /**
+   * Build a parent-link hierarchy: each note is nested under the note(s)
+   * its parent property links to
+   *
+   * Notes whose parents are missing or outside the view sit at the top.
+   * A note with several parents appears under each of them. When a note
+   * would appear inside its own subtree, a cycle marker is shown instead.
+   *
+   * @param files - Files to arrange
+   * @param level - The parent-link level
+   * @param hierarchyDepth - Current hierarchy level index
+   * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @returns Tree node with nested note structure
+   */
+  private buildParentLinkLevel(
+    files: TFile[],
+    level: ParentLinkHierarchyLevel,
+    hierarchyDepth: number,
+    parentId?: string
+  ): TreeNode {
+    // Tree depth is hierarchy level index + 1 (root is depth 0)
+    const treeDepth = hierarchyDepth + 1;
+    const levelIndex = this.levelIndices.get(level) ?? hierarchyDepth;
+    const fileSet = new Set(files);
+
+    // Map each note to the notes that name it as parent
+    const childrenOf = new Map<TFile, TFile[]>();
+    const roots: TFile[] = [];
+
+    for (const file of files) {
+      const parents = this.indexer
+        .getLinkedFiles(file, level.key)
+        .filter(parent => fileSet.has(parent));
+
+      if (parents.length === 0) {
+        roots.push(file);
+      }
+
+      for (const parent of parents) {
+        if (!childrenOf.has(parent)) {
+          childrenOf.set(parent, []);
         }
+        childrenOf.get(parent)!.push(file);
+      }
+    }
 
-        // Recursively build next hierarchy level for files that continue
-        if (filesForNextLevel.length > 0) {
-          const childTreeNode = this.buildLevelRecursive(
-            filesForNextLevel,
-            levels,
-            hierarchyDepth + 1,
-            groupKey,
-            showPartialMatches,
-            node.id
-          );
+    const placed = new Set<TFile>();
+    const children: TreeNode[] = [];
 
-          // Add children and set parent references
-          for (const child of childTreeNode.children) {
-            child.parent = node;
-            node.children.push(child);
-          }
+    for (const root of roots) {
+      children.push(
+        this.createParentLinkNode(root, childrenOf, treeDepth, parentId, levelIndex, new Set(), placed)
+      );
+    }
+
+    // Notes that only link in a loop have no root; start from the first one not yet shown
+    for (const file of files) {
+      if (!placed.has(file)) {
+        children.push(
+          this.createParentLinkNode(file, childrenOf, treeDepth, parentId, levelIndex, new Set(), placed)
+        );
+      }
+    }
+
+    return {
+      id: parentId || "root",
+      name: "Root",
+      type: "tag",
+      children,
+      depth: treeDepth,
+      files: [],
+      fileCount: 0,
+    };
+  }
+
+  /**
+   * Create a note node with its child notes (recursive)
+   *
+   * @param file - Note to create the node for
+   * @param childrenOf - Map of note to the notes linking to it as parent
+   * @param treeDepth - Depth of the node in the tree
+   * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @param levelIndex - Index of the hierarchy level
+   * @param ancestors - Notes on the path from the top to this note (for cycle detection)
+   * @param placed - Notes shown so far (updated in place)
+   * @returns Note node with nested child notes
+   */
+  private createParentLinkNode(
+    file: TFile,
+    childrenOf: Map<TFile, TFile[]>,
+    treeDepth: number,
+    parentId: string | undefined,
+    levelIndex: number,
+    ancestors: Set<TFile>,
+    placed: Set<TFile>
+  ): TreeNode {
+    // The note is already above us: show a cycle marker instead of recursing forever
+    if (ancestors.has(file)) {
+      return createNoteNode(file, treeDepth, { parentId, levelIndex, cycle: true });
+    }
+
+    const node = createNoteNode(file, treeDepth, { parentId, levelIndex });
+    placed.add(file);
+
+    const path = new Set(ancestors);
+    path.add(file);
+
+    for (const child of childrenOf.get(file) || []) {
+      const childNode = this.createParentLinkNode(
+        child,
+        childrenOf,
+        treeDepth + 1,
+        node.id,
+        levelIndex,
+        path,
+        placed
+      );
+      childNode.parent = node;
+      node.children.push(childNode);
+    }
+
+    return node;
+  }
+
+  /**
+   * Get the chains of note names from the top of a parent-link hierarchy down to a note
+   *
+   * @param file - Note to get chains for
+   * @param level - The parent-link level
+   * @param visited - Notes already in the chain (stops cycles)
+   * @returns One chain per path to the top, each ending with the note's own name
+   */
+  private getParentLinkBreadcrumbs(
+    file: TFile,
+    level: ParentLinkHierarchyLevel,
+    visited: Set<TFile>
+  ): string[][] {
+    const path = new Set(visited);
+    path.add(file);
+
+    const parents = this.indexer
+      .getLinkedFiles(file, level.key)
+      .filter(parent => !path.has(parent));
+
+    if (parents.length === 0) {
+      return [[file.basename]];
+    }
+
+    const chains: string[][] = [];
+    for (const parent of parents) {
+      for (const chain of this.getParentLinkBreadcrumbs(parent, level, path)) {
+        chains.push([...chain, file.basename]);
+      }
+    }
+    return chains;
+  }
+
+  /**
+   * Build nested date bucket levels for a single date hierarchy level
+   *
+   * @param files - Files to process
+   * @param levels - All hierarchy levels
+   * @param hierarchyDepth - Current hierarchy level index
+   * @param dateLevel - The date level being processed
+   * @param parentTagPath - Tag context from enclosing levels (passed on to the next level)
+   * @param granularityIndex - Index into the level's granularities (0 = coarsest)
+   * @param showPartialMatches - Whether to show files at intermediate levels
+   * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @param range - Enclosing bucket range; only dates inside it are considered
+   * @returns Tree node with nested date bucket structure
+   */
+  private buildDateLevel(
+    files: TFile[],
+    levels: HierarchyLevel[],
+    hierarchyDepth: number,
+    dateLevel: DateHierarchyLevel,
+    parentTagPath: string | undefined,
+    granularityIndex: number,
+    showPartialMatches: boolean = false,
+    parentId?: string,
+    range?: { start: number; end: number }
+  ): TreeNode {
+    const granularities = this.getDateGranularities(dateLevel);
+    const granularity = granularities[granularityIndex];
+    // Tree depth is hierarchy level index + 1 (root is depth 0)
+    const treeDepth = hierarchyDepth + 1 + granularityIndex;
+
+    const groups = this.groupFilesByDateBucket(files, dateLevel, granularity, range);
+    const children: TreeNode[] = [];
+
+    for (const [groupKey, groupFiles] of groups.entries()) {
+      const node = this.createDateBucketNode(
+        dateLevel,
+        granularity,
+        Number(groupKey),
+        treeDepth,
+        parentId,
+        this.getLevelIndex(levels, hierarchyDepth)
+      );
+
+      if (granularityIndex + 1 < granularities.length) {
+        // Nest the next finer granularity inside this bucket
+        const childTreeNode = this.buildDateLevel(
+          groupFiles,
+          levels,
+          hierarchyDepth,
+          dateLevel,
+          parentTagPath,
+          granularityIndex + 1,
+          showPartialMatches,
+          node.id,
+          node.metadata!.dateBucket
+        );
+
+        // Add children and set parent references
+        for (const child of childTreeNode.children) {
+          child.parent = node;
+          node.children.push(child);
         }
+      } else {
+        // Finest granularity: continue with the next hierarchy level (or the bucket's branch)
+        this.addNextLevelChildren(node, groupFiles, levels, hierarchyDepth, parentTagPath, showPartialMatches, groupKey);
       }
 
       children.push(node);
     }
 
+    // Files without a date don't match this level; show them as partial matches
+    // (only at the top granularity and once they've matched a previous level)
+    if (granularityIndex === 0 && showPartialMatches && hierarchyDepth > 0) {
+      const groupedFiles = new Set<TFile>();
+      for (const groupFiles of groups.values()) {
+        groupFiles.forEach(f => groupedFiles.add(f));
+      }
+
+      for (const file of files) {
+        if (!groupedFiles.has(file)) {
+          children.push(createFileNode(file, treeDepth, parentId));
+        }
+      }
+    }
+
     return {
       id: parentId || "root",
       name: "Root",
@@ -1229,6 +2404,126 @@ export class TreeBuilder {
     };
   }
 
+  /**
+   * Group files into date buckets at a single granularity
+   *
+   * @param files - Files to group
+   * @param dateLevel - Date hierarchy level
+   * @param granularity - Bucket granularity
+   * @param range - Optional enclosing bucket range to restrict dates to
+   * @returns Map of bucket start timestamp (as string) to files in that bucket
+   */
+  private groupFilesByDateBucket(
+    files: TFile[],
+    dateLevel: DateHierarchyLevel,
+    granularity: DateGranularity,
+    range?: { start: number; end: number }
+  ): Map<string, TFile[]> {
+    const groups = new Map<string, TFile[]>();
+
+    for (const file of files) {
+      // A file with several dates can land in several buckets
+      const bucketKeys = new Set<string>();
+      for (const timestamp of this.getFileDates(file, dateLevel)) {
+        if (range && (timestamp < range.start || timestamp >= range.end)) {
+          continue;
+        }
+        bucketKeys.add(String(getDateBucket(timestamp, granularity).start));
+      }
+
+      for (const groupKey of bucketKeys) {
+        if (!groups.has(groupKey)) {
+          groups.set(groupKey, []);
+        }
+        groups.get(groupKey)!.push(file);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Create a node for the date bucket starting at a timestamp
+   */
+  private createDateBucketNode(
+    dateLevel: DateHierarchyLevel,
+    granularity: DateGranularity,
+    bucketStart: number,
+    treeDepth: number,
+    parentId: string | undefined,
+    levelIndex: number
+  ): TreeNode {
+    const bucket = getDateBucket(bucketStart, granularity);
+
+    return createDateNode(
+      {
+        ...bucket,
+        granularity,
+        property: (dateLevel.source ?? "property") === "property" &&
+          (dateLevel.propertySource ?? "frontmatter") === "frontmatter" ? dateLevel.key : undefined,
+      },
+      this.formatDateBucketLabel(bucket.start, granularity, dateLevel),
+      [],
+      treeDepth,
+      {
+        label: dateLevel.label,
+        parentId,
+        levelIndex,
+      }
+    );
+  }
+
+  /**
+   * Format the label for a date bucket using the level's format (or the default)
+   */
+  private formatDateBucketLabel(
+    bucketStart: number,
+    granularity: DateGranularity,
+    dateLevel: DateHierarchyLevel
+  ): string {
+    const format = dateLevel.formats?.[granularity] || DEFAULT_DATE_FORMATS[granularity];
+    return formatDateLabel(bucketStart, format);
+  }
+
+  /**
+   * Get the granularities of a date level (defaults to a single year level)
+   */
+  private getDateGranularities(dateLevel: DateHierarchyLevel): DateGranularity[] {
+    return dateLevel.granularity && dateLevel.granularity.length > 0
+      ? dateLevel.granularity
+      : ["year"];
+  }
+
+  /**
+   * Get the dates of a file for a date level
+   * List properties yield one date per parseable item
+   *
+   * @param file - File to read dates from
+   * @param dateLevel - Date hierarchy level
+   * @returns Array of timestamps (empty if the file has no usable date)
+   */
+  private getFileDates(file: TFile, dateLevel: DateHierarchyLevel): number[] {
+    const source = dateLevel.source ?? "property";
+
+    if (source === "ctime" || source === "mtime") {
+      const timestamp = source === "ctime" ? file.stat?.ctime : file.stat?.mtime;
+      return timestamp !== undefined ? [timestamp] : [];
+    }
+
+    const value = this.indexer.getFilePropertyValue(file, dateLevel.key, dateLevel.propertySource);
+    const values = Array.isArray(value) ? value : [value];
+    const dates: number[] = [];
+
+    for (const item of values) {
+      const timestamp = parseDateValue(item);
+      if (timestamp !== null) {
+        dates.push(timestamp);
+      }
+    }
+
+    return dates;
+  }
+
   /**
    * Build virtual tag level structure
    * Inserts next hierarchy level between intermediate tag levels
@@ -1236,33 +2531,39 @@ export class TreeBuilder {
    * @param files - Files to process
    * @param levels - All hierarchy levels
    * @param hierarchyDepth - Current hierarchy level index
-   * @param tagLevel - The tag level being processed
-   * @param currentTagPath - Current tag path
+   * @param tagLevel - The tag or folder level being processed
+   * @param currentTagPath - Current tag (or folder) path
    * @param subDepth - Current sub-depth within tag level
    * @param parentNode - Parent node to add children to
    * @param showPartialMatches - Whether to show files at intermediate levels
    * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @param parentTagPath - Tag context from enclosing levels (only used by folder levels)
    */
   private buildVirtualTagLevel(
     files: TFile[],
     levels: HierarchyLevel[],
     hierarchyDepth: number,
-    tagLevel: TagHierarchyLevel,
+    tagLevel: TagHierarchyLevel | FolderHierarchyLevel,
     currentTagPath: string,
     subDepth: number,
     parentNode: TreeNode,
     showPartialMatches: boolean = false,
-    parentId?: string
+    parentId?: string,
+    parentTagPath?: string
   ): void {
     const nextLevel = levels[hierarchyDepth + 1];
     const currentTreeDepth = hierarchyDepth + subDepth;
 
+    // Folder levels keep their path separate from the tag context seen by the next level
+    const isFolderLevel = tagLevel.type === "folder";
+    const nextParentTagPath = isFolderLevel ? parentTagPath : currentTagPath;
+
     // Separate files by whether they match the next hierarchy level
     const filesMatchingNext: TFile[] = [];
     const filesNotMatching: TFile[] = [];
 
     for (const file of files) {
-      if (this.fileMatchesLevel(file, nextLevel, currentTagPath)) {
+      if (this.fileHasLevelValue(file, nextLevel, nextParentTagPath)) {
         filesMatchingNext.push(file);
       } else {
         filesNotMatching.push(file);
@@ -1276,10 +2577,11 @@ export class TreeBuilder {
         levels,
         hierarchyDepth,
         tagLevel,
-        currentTagPath,
+        isFolderLevel ? parentTagPath : currentTagPath,
         subDepth + 1,
         showPartialMatches,
-        parentId
+        parentId,
+        isFolderLevel ? currentTagPath : undefined
       );
 
       // Add children and set parent references
@@ -1290,40 +2592,24 @@ export class TreeBuilder {
     }
 
     // Files that match next level: insert next hierarchy level, then continue with tag sub-depths
+    // (virtual levels only show files that have a value; the rest continue above)
     if (filesMatchingNext.length > 0) {
       // Group files by the next hierarchy level
       const groups = this.groupFilesByLevel(
         filesMatchingNext,
         nextLevel,
-        currentTagPath
+        nextParentTagPath
       );
 
       for (const [groupKey, groupFiles] of groups.entries()) {
         // Create node for next hierarchy level
-        let nextLevelNode: TreeNode;
-        if (nextLevel.type === "tag") {
-          const tagLvl = nextLevel as TagHierarchyLevel;
-          nextLevelNode = createTagNode(groupKey, [], currentTreeDepth + 1, {
-            label: tagLvl.label,
-            showFullPath: tagLvl.showFullPath,
-            parentId,
-            levelIndex: hierarchyDepth + 1, // Set hierarchy level index
-          });
-        } else {
-          const propLvl = nextLevel as PropertyHierarchyLevel;
-          nextLevelNode = createPropertyGroupNode(
-            nextLevel.key,
-            groupKey,
-            [],
-            currentTreeDepth + 1,
-            {
-              label: propLvl.label,
-              showPropertyName: propLvl.showPropertyName,
-              parentId,
-              levelIndex: hierarchyDepth + 1, // Set hierarchy level index
-            }
-          );
-        }
+        const nextLevelNode = this.createGroupNode(
+          nextLevel,
+          groupKey,
+          currentTreeDepth + 1,
+          parentId,
+          this.getLevelIndex(levels, hierarchyDepth + 1)
+        );
 
         // After inserting next level, continue with remaining tag sub-depths
         const childTreeNode = this.buildMultiDepthTagLevel(
@@ -1331,10 +2617,11 @@ export class TreeBuilder {
           levels,
           hierarchyDepth,
           tagLevel,
-          currentTagPath,
+          isFolderLevel ? parentTagPath : currentTagPath,
           subDepth + 1,
           showPartialMatches,
-          nextLevelNode.id
+          nextLevelNode.id,
+          isFolderLevel ? currentTagPath : undefined
         );
 
         // Add children and set parent references
@@ -1354,15 +2641,16 @@ export class TreeBuilder {
    * @param tagKey - Tag key/prefix to match
    * @param parentTagPath - Parent tag path
    * @param targetDepth - The specific depth to find tags at (1 = immediate children)
+   * @param fileTags - Paths to match against (defaults to the file's tags)
    * @returns Array of tags at exactly this depth
    */
   private findMatchingTagsAtDepth(
     file: TFile,
     tagKey: string,
     parentTagPath: string | undefined,
-    targetDepth: number
+    targetDepth: number,
+    fileTags: Set<string> = this.indexer.getFileTags(file)
   ): string[] {
-    const fileTags = this.indexer.getFileTags(file);
     const matchingTags: string[] = [];
 
     // Determine the base path
@@ -1426,11 +2714,18 @@ export class TreeBuilder {
     const groups = new Map<string, TFile[]>();
 
     for (const file of files) {
-      if (level.type === "property") {
+      if (level.type === "property" && (level as PropertyHierarchyLevel).bucketing) {
+        // Group by numeric range (a list property can land in several ranges)
+        for (const bucket of this.getFileNumericBuckets(file, level as PropertyHierarchyLevel)) {
+          if (!groups.has(bucket.label)) {
+            groups.set(bucket.label, []);
+          }
+          groups.get(bucket.label)!.push(file);
+        }
+      } else if (level.type === "property") {
         // Group by property value (with list handling)
         const propertyLevel = level as PropertyHierarchyLevel;
-        const props = this.indexer.getFileProperties(file);
-        const value = props[level.key];
+        const value = this.getPropertyValue(file, propertyLevel);
 
         if (value !== undefined) {
           // Handle list properties
@@ -1438,7 +2733,7 @@ export class TreeBuilder {
             if (propertyLevel.separateListValues) {
               // Separate list values - create a group for each value
               for (const item of value) {
-                const groupKey = String(item);
+                const groupKey = this.getPropertyGroupKey(item, propertyLevel, file);
                 if (!groups.has(groupKey)) {
                   groups.set(groupKey, []);
                 }
@@ -1446,15 +2741,15 @@ export class TreeBuilder {
               }
             } else {
               // Combined list values - treat as single value with bracket notation
-              const groupKey = `[${value.map((v) => String(v)).join(", ")}]`;
+              const groupKey = `[${value.map((v) => this.getMappedValue(v, propertyLevel)).join(", ")}]`;
               if (!groups.has(groupKey)) {
                 groups.set(groupKey, []);
               }
               groups.get(groupKey)!.push(file);
             }
           } else {
-            // Non-list property - use as-is
-            const groupKey = String(value);
+            // Non-list property - use as-is (or its link target)
+            const groupKey = this.getPropertyGroupKey(value, propertyLevel, file);
             if (!groups.has(groupKey)) {
               groups.set(groupKey, []);
             }
@@ -1478,55 +2773,333 @@ export class TreeBuilder {
           }
           groups.get(tag)!.push(file);
         }
+      } else if (level.type === "date") {
+        // Group by finest date bucket (nested buckets handled by buildDateLevel)
+        const dateLevel = level as DateHierarchyLevel;
+        const granularity = this.getDateGranularities(dateLevel).slice(-1)[0];
+        const dateGroups = this.groupFilesByDateBucket([file], dateLevel, granularity);
+
+        for (const groupKey of dateGroups.keys()) {
+          if (!groups.has(groupKey)) {
+            groups.set(groupKey, []);
+          }
+          groups.get(groupKey)!.push(file);
+        }
+      } else if (level.type === "folder") {
+        // Group by folder path (single depth only - multi-depth handled elsewhere)
+        // Folder levels ignore the parent tag path: their base is always the level key
+        const matchingFolders = this.findMatchingTags(
+          file,
+          this.normalizeFolderPath(level.key),
+          undefined,
+          1,
+          0,
+          this.getFolderPaths(file)
+        );
+
+        for (const folder of matchingFolders) {
+          if (!groups.has(folder)) {
+            groups.set(folder, []);
+          }
+          groups.get(folder)!.push(file);
+        }
+      } else if (level.type === "computed") {
+        // Group by the key built from the level's template
+        const computedKey = this.getComputedKey(file, level as ComputedHierarchyLevel);
+        if (computedKey !== null) {
+          if (!groups.has(computedKey)) {
+            groups.set(computedKey, []);
+          }
+          groups.get(computedKey)!.push(file);
+        }
+      } else if (level.type === "regex") {
+        // Group by the capture from the file name or path
+        const capture = this.getRegexKey(file, level as RegexHierarchyLevel);
+        if (capture !== null) {
+          if (!groups.has(capture)) {
+            groups.set(capture, []);
+          }
+          groups.get(capture)!.push(file);
+        }
+      } else if (level.type === "composite") {
+        // Group by each combination of the keys' values
+        for (const compositeKey of this.getCompositeKeys(file, level as CompositeHierarchyLevel)) {
+          if (!groups.has(compositeKey)) {
+            groups.set(compositeKey, []);
+          }
+          groups.get(compositeKey)!.push(file);
+        }
+      } else if (level.type === "task") {
+        // Group by task state or by status character
+        for (const taskKey of this.getTaskGroupKeys(file, level as TaskHierarchyLevel)) {
+          if (!groups.has(taskKey)) {
+            groups.set(taskKey, []);
+          }
+          groups.get(taskKey)!.push(file);
+        }
+      } else if (level.type === "smart-group") {
+        // Group by matching filter-defined groups
+        for (const groupName of this.getSmartGroupMatches(file, level as SmartGroupHierarchyLevel)) {
+          if (!groups.has(groupName)) {
+            groups.set(groupName, []);
+          }
+          groups.get(groupName)!.push(file);
+        }
+      }
+    }
+
+    // Smart groups keep their configured order
+    if (level.type === "smart-group") {
+      const orderedGroups = new Map<string, TFile[]>();
+      for (const group of (level as SmartGroupHierarchyLevel).groups) {
+        const groupFiles = groups.get(group.name);
+        if (groupFiles) {
+          orderedGroups.set(group.name, groupFiles);
+        }
+      }
+      return orderedGroups;
+    }
+
+    // Task states keep a fixed order: open, done, none
+    if (level.type === "task" && ((level as TaskHierarchyLevel).groupBy ?? "state") === "state") {
+      const orderedGroups = new Map<string, TFile[]>();
+      for (const state of Object.keys(TASK_STATE_LABELS)) {
+        const stateFiles = groups.get(state);
+        if (stateFiles) {
+          orderedGroups.set(state, stateFiles);
+        }
       }
+      return orderedGroups;
     }
 
     return groups;
   }
 
   /**
-   * Find tags that match the level's pattern for a given file
-   * Handles nested tag hierarchies by finding tags at specified depth
+   * Get the task groups a file belongs to
    *
-   * @param file - File to find matching tags for
-   * @param tagKey - Tag key/prefix to match
-   * @param parentTagPath - Parent tag path for nested matching
-   * @param depth - Number of levels to traverse (default 1 for immediate children)
-   * @param currentDepth - Current depth in the traversal (for internal recursion)
-   * @returns Array of matching tag paths at the specified depth
+   * @param file - File whose task counts are read
+   * @param level - Task level
+   * @returns The file's task state, or its status characters (empty if it has no tasks)
    */
-  private findMatchingTags(
-    file: TFile,
-    tagKey: string,
-    parentTagPath?: string,
-    depth: number = 1,
-    currentDepth: number = 0
-  ): string[] {
-    const fileTags = this.indexer.getFileTags(file);
-    const matchingTags: string[] = [];
+  private getTaskGroupKeys(file: TFile, level: TaskHierarchyLevel): string[] {
+    const counts = this.indexer.getFileTaskCounts(file);
 
-    // Determine the base path to look under
-    let basePath: string;
-    if (tagKey && tagKey !== "") {
-      // Specific tag key provided - look for tags starting with this key
-      basePath = tagKey;
-    } else if (parentTagPath && parentTagPath !== "") {
-      // No specific key, but within a parent tag group - look for children of parent
-      basePath = parentTagPath;
-    } else {
-      // Empty key means match all tags
-      basePath = "";
+    if ((level.groupBy ?? "state") === "state") {
+      return [getTaskState(counts, level.openStatuses ?? DEFAULT_OPEN_TASK_STATUSES)];
     }
 
-    for (const tag of fileTags) {
-      let matchingTag: string | null = null;
+    return Object.keys(counts).filter((status) => counts[status] > 0);
+  }
 
-      if (basePath === "") {
-        // Match any tag (for empty key at top level)
-        // Truncate to specified depth
-        const segments = tag.split("/");
-        if (segments.length >= depth) {
-          matchingTag = segments.slice(0, depth).join("/");
+  /**
+   * Get the display name of a task group
+   *
+   * @param key - Task state or status character
+   * @param level - Task level (its labels override the defaults)
+   */
+  private getTaskGroupLabel(key: string, level: TaskHierarchyLevel): string {
+    if (level.labels?.[key]) {
+      return level.labels[key];
+    }
+
+    return (level.groupBy ?? "state") === "state"
+      ? TASK_STATE_LABELS[key as TaskState] ?? key
+      : formatTaskStatus(key);
+  }
+
+  /**
+   * Get the smart groups a file belongs to
+   *
+   * @param file - File to check
+   * @param level - Smart-group level
+   * @returns Names of the matching groups in configured order (at most one in "first" mode)
+   */
+  private getSmartGroupMatches(file: TFile, level: SmartGroupHierarchyLevel): string[] {
+    const matches: string[] = [];
+
+    for (const group of level.groups || []) {
+      if (this.levelFilterEvaluator.evaluateFilters(file, group.filters)) {
+        matches.push(group.name);
+        if ((level.matchMode ?? "first") === "first") {
+          break;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Get the group key of a file for a computed level
+   *
+   * @param file - File to evaluate the template for
+   * @param level - Computed level
+   * @returns Group key, or null if the template is invalid or a placeholder has no value
+   */
+  private getComputedKey(file: TFile, level: ComputedHierarchyLevel): string | null {
+    if (!this.parsedTemplates.has(level.template)) {
+      this.parsedTemplates.set(level.template, parseTemplate(level.template).parts);
+    }
+    const parts = this.parsedTemplates.get(level.template);
+    if (!parts) {
+      return null;
+    }
+
+    const key = evaluateTemplate(parts, {
+      getProperty: (path) => this.indexer.getFilePropertyValue(file, path, level.propertySource),
+      getTags: () => Array.from(this.indexer.getFileTags(file)),
+      getFileField: (field) => {
+        switch (field) {
+          case "name":
+            return file.name;
+          case "basename":
+            return file.basename;
+          case "path":
+            return file.path;
+          case "folder":
+            return file.path.includes("/") ? file.path.substring(0, file.path.lastIndexOf("/")) : undefined;
+          case "ext":
+            return file.extension;
+          case "ctime":
+            return file.stat?.ctime;
+          case "mtime":
+            return file.stat?.mtime;
+          case "size":
+            return file.stat?.size;
+          default:
+            return undefined;
+        }
+      },
+    });
+
+    return key !== null ? key.trim() : null;
+  }
+
+  /**
+   * Get the group key of a file for a regex level
+   *
+   * @param file - File whose basename or path is matched
+   * @param level - Regex level
+   * @returns Captured text, or null if the pattern is invalid or doesn't match
+   */
+  private getRegexKey(file: TFile, level: RegexHierarchyLevel): string | null {
+    const cacheKey = `${level.ignoreCase ? "i" : ""}/${level.pattern}`;
+    if (!this.compiledPatterns.has(cacheKey)) {
+      this.compiledPatterns.set(cacheKey, compileCapturePattern(level.pattern, level.ignoreCase));
+    }
+    const regex = this.compiledPatterns.get(cacheKey);
+    if (!regex) {
+      return null;
+    }
+
+    const text = (level.source ?? "basename") === "path" ? file.path : file.basename;
+    return getRegexCapture(text, regex, level.group || undefined);
+  }
+
+  /**
+   * Get the group keys of a file for a composite level
+   *
+   * List values give one key per combination (e.g., client "ClientX" with
+   * projects [Alpha, Beta] gives "ClientX · Alpha" and "ClientX · Beta").
+   *
+   * @param file - File whose properties are read
+   * @param level - Composite level
+   * @returns Group keys, or an empty array if a key has no value
+   */
+  private getCompositeKeys(file: TFile, level: CompositeHierarchyLevel): string[] {
+    const valueLists: string[][] = [];
+
+    for (const part of level.keys || []) {
+      const value = this.indexer.getFilePropertyValue(file, part.key, level.propertySource);
+      const items = (Array.isArray(value) ? value : [value])
+        .filter((item) => item !== undefined && item !== null)
+        .map((item) => String(item).trim())
+        .filter((item) => item !== "");
+
+      if (items.length === 0) {
+        return [];
+      }
+      valueLists.push(Array.from(new Set(items)));
+    }
+
+    if (valueLists.length === 0) {
+      return [];
+    }
+
+    if (!this.compositeValues.has(level)) {
+      this.compositeValues.set(level, new Map());
+    }
+    const levelValues = this.compositeValues.get(level)!;
+
+    const keys: string[] = [];
+    for (const values of this.cartesianProduct(valueLists)) {
+      const groupKey = values
+        .map((value, i) => (i === 0 ? value : `${level.keys[i].separator ?? level.separator ?? " · "}${value}`))
+        .join("");
+      if (!keys.includes(groupKey)) {
+        keys.push(groupKey);
+        levelValues.set(groupKey, values);
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * Generate Cartesian product of arrays
+   */
+  private cartesianProduct<T>(arrays: T[][]): T[][] {
+    return arrays.reduce<T[][]>(
+      (acc, curr) => acc.flatMap(a => curr.map(b => [...a, b])),
+      [[]]
+    );
+  }
+
+  /**
+   * Find tags that match the level's pattern for a given file
+   * Handles nested tag hierarchies by finding tags at specified depth
+   *
+   * @param file - File to find matching tags for
+   * @param tagKey - Tag key/prefix to match
+   * @param parentTagPath - Parent tag path for nested matching
+   * @param depth - Number of levels to traverse (default 1 for immediate children)
+   * @param currentDepth - Current depth in the traversal (for internal recursion)
+   * @param fileTags - Paths to match against (defaults to the file's tags)
+   * @returns Array of matching tag paths at the specified depth
+   */
+  private findMatchingTags(
+    file: TFile,
+    tagKey: string,
+    parentTagPath?: string,
+    depth: number = 1,
+    currentDepth: number = 0,
+    fileTags: Set<string> = this.indexer.getFileTags(file)
+  ): string[] {
+    const matchingTags: string[] = [];
+
+    // Determine the base path to look under
+    let basePath: string;
+    if (tagKey && tagKey !== "") {
+      // Specific tag key provided - look for tags starting with this key
+      basePath = tagKey;
+    } else if (parentTagPath && parentTagPath !== "") {
+      // No specific key, but within a parent tag group - look for children of parent
+      basePath = parentTagPath;
+    } else {
+      // Empty key means match all tags
+      basePath = "";
+    }
+
+    for (const tag of fileTags) {
+      let matchingTag: string | null = null;
+
+      if (basePath === "") {
+        // Match any tag (for empty key at top level)
+        // Truncate to specified depth
+        const segments = tag.split("/");
+        if (segments.length >= depth) {
+          matchingTag = segments.slice(0, depth).join("/");
         } else {
           matchingTag = tag;
         }
@@ -1563,10 +3136,35 @@ export class TreeBuilder {
     file: TFile,
     level: HierarchyLevel,
     parentTagPath?: string
+  ): boolean {
+    // Files without a value land in the level's missing group
+    if (this.hasMissingGroup(level)) {
+      return true;
+    }
+
+    return this.fileHasLevelValue(file, level, parentTagPath);
+  }
+
+  /**
+   * Check whether a file has a value for a hierarchy level
+   * (ignores the level's missing group, see fileMatchesLevel)
+   *
+   * @param file - File to check
+   * @param level - Hierarchy level
+   * @param parentTagPath - Tag context from the parent levels
+   */
+  private fileHasLevelValue(
+    file: TFile,
+    level: HierarchyLevel,
+    parentTagPath?: string
   ): boolean {
     if (level.type === "property") {
-      const props = this.indexer.getFileProperties(file);
-      const value = props[level.key];
+      // Bucketed levels only match numeric values
+      if ((level as PropertyHierarchyLevel).bucketing) {
+        return this.getFileNumericBuckets(file, level as PropertyHierarchyLevel).length > 0;
+      }
+
+      const value = this.getPropertyValue(file, level as PropertyHierarchyLevel);
 
       // Property must be defined and non-empty
       if (value === undefined) {
@@ -1586,7 +3184,516 @@ export class TreeBuilder {
         parentTagPath
       );
       return matchingTags.length > 0;
+    } else if (level.type === "folder") {
+      const matchingFolders = this.findMatchingTags(
+        file,
+        this.normalizeFolderPath(level.key),
+        undefined,
+        1,
+        0,
+        this.getFolderPaths(file)
+      );
+      return matchingFolders.length > 0;
+    } else if (level.type === "date") {
+      return this.getFileDates(file, level as DateHierarchyLevel).length > 0;
+    } else if (level.type === "smart-group") {
+      return this.getSmartGroupMatches(file, level as SmartGroupHierarchyLevel).length > 0;
+    } else if (level.type === "computed") {
+      return this.getComputedKey(file, level as ComputedHierarchyLevel) !== null;
+    } else if (level.type === "regex") {
+      return this.getRegexKey(file, level as RegexHierarchyLevel) !== null;
+    } else if (level.type === "composite") {
+      return this.getCompositeKeys(file, level as CompositeHierarchyLevel).length > 0;
+    } else if (level.type === "task") {
+      return this.getTaskGroupKeys(file, level as TaskHierarchyLevel).length > 0;
+    } else if (level.type === "parent-link") {
+      // Every note has a place: under its parents, or at the top if it has none
+      return true;
     }
     return false;
   }
+
+  /**
+   * Check whether a level collects files without a value into a missing group
+   */
+  private hasMissingGroup(level: HierarchyLevel): boolean {
+    return !!level.showMissing && level.type !== "parent-link";
+  }
+
+  /**
+   * Build the missing group of a level
+   * Files continue to the next level like in any other group
+   *
+   * @param files - Files without a value for the level
+   * @param levels - All hierarchy levels
+   * @param depth - Index of the level
+   * @param parentTagPath - Tag context from the parent levels
+   * @param showPartialMatches - Whether to show files that end before the last level
+   * @param parentId - Parent node ID for creating unique hierarchical IDs
+   * @returns Missing group node with its subtree
+   */
+  private buildMissingGroupNode(
+    files: TFile[],
+    levels: HierarchyLevel[],
+    depth: number,
+    parentTagPath: string | undefined,
+    showPartialMatches: boolean,
+    parentId?: string
+  ): TreeNode {
+    // Tree depth is hierarchy level index + 1 (root is depth 0)
+    const treeDepth = depth + 1;
+    const node = createMissingValueNode(levels[depth], treeDepth, {
+      parentId,
+      levelIndex: this.getLevelIndex(levels, depth),
+    });
+
+    // Missing groups have no value, so only filter branches apply
+    this.addNextLevelChildren(node, files, levels, depth, parentTagPath, showPartialMatches);
+
+    return node;
+  }
+
+  /**
+   * Add the children of a group node: files that end at the group, and the
+   * next level's groups for files that continue
+   *
+   * When the group's level has branches, each file continues with the levels
+   * of the first branch it matches instead of the levels that follow.
+   *
+   * @param node - Group node to add children to
+   * @param files - Files of the group
+   * @param levels - Hierarchy levels on the path to the group
+   * @param depth - Index of the group's level in levels
+   * @param nextParentTagPath - Tag context handed to the next level
+   * @param showPartialMatches - Whether to show files that end before the last level
+   * @param groupKey - Group key, matched against branch values (undefined for missing groups)
+   */
+  private addNextLevelChildren(
+    node: TreeNode,
+    files: TFile[],
+    levels: HierarchyLevel[],
+    depth: number,
+    nextParentTagPath: string | undefined,
+    showPartialMatches: boolean,
+    groupKey?: string
+  ): void {
+    const branches = this.partitionFilesByBranch(files, levels, depth, groupKey);
+
+    for (const branch of branches) {
+      const branchLevels = branch.levels;
+
+      // Separate files: those that match next level vs those that end here
+      const filesForNextLevel: TFile[] = [];
+      const filesForThisLevel: TFile[] = [];
+
+      for (const file of branch.files) {
+        if (depth + 1 < branchLevels.length && this.fileMatchesLevel(file, branchLevels[depth + 1], nextParentTagPath)) {
+          filesForNextLevel.push(file);
+        } else {
+          filesForThisLevel.push(file);
+        }
+      }
+
+      // Add file nodes for files that end at this level
+      // Only add if showPartialMatches=true OR this is the last hierarchy level
+      if (showPartialMatches || depth + 1 >= branchLevels.length) {
+        for (const file of filesForThisLevel) {
+          const fileNode = createFileNode(file, node.depth + 1, node.id);
+          fileNode.parent = node;
+          node.children.push(fileNode);
+        }
+      }
+
+      // Recursively build next level for files that continue
+      // (branches sharing a group get their own ID prefix so their groups don't collide)
+      if (filesForNextLevel.length > 0) {
+        const childParentId = branches.length > 1 && branch.index >= 0
+          ? `${node.id}/branch:${branch.index}`
+          : node.id;
+
+        const childTreeNode = this.buildLevelRecursive(
+          filesForNextLevel,
+          branchLevels,
+          depth + 1,
+          nextParentTagPath,
+          showPartialMatches,
+          childParentId
+        );
+
+        // Add children from recursive call and set parent references
+        for (const child of childTreeNode.children) {
+          child.parent = node;
+          node.children.push(child);
+        }
+      }
+    }
+  }
+
+  /**
+   * Split the files of a group among the branches of its level
+   *
+   * @param files - Files of the group
+   * @param levels - Hierarchy levels on the path to the group
+   * @param depth - Index of the group's level in levels
+   * @param groupKey - Group key (undefined for missing groups)
+   * @returns The files taking each branch, with the levels they continue with
+   *          (index -1 is the default branch: the levels that follow)
+   */
+  private partitionFilesByBranch(
+    files: TFile[],
+    levels: HierarchyLevel[],
+    depth: number,
+    groupKey?: string
+  ): Array<{ index: number; levels: HierarchyLevel[]; files: TFile[] }> {
+    const level = levels[depth];
+    if (!level.branches || level.branches.length === 0) {
+      return [{ index: -1, levels, files }];
+    }
+
+    const partitions = new Map<number, TFile[]>();
+    for (const file of files) {
+      const index = this.findBranchIndex(file, level, groupKey);
+      if (!partitions.has(index)) {
+        partitions.set(index, []);
+      }
+      partitions.get(index)!.push(file);
+    }
+
+    return Array.from(partitions.entries()).map(([index, branchFiles]) => ({
+      index,
+      levels: this.getBranchLevels(levels, depth, index),
+      files: branchFiles,
+    }));
+  }
+
+  /**
+   * Find the first branch of a level a file takes
+   *
+   * @param file - File in one of the level's groups
+   * @param level - Level with branches
+   * @param groupKey - Key of the file's group (undefined for missing groups)
+   * @returns Branch index, or -1 for the default branch
+   */
+  private findBranchIndex(file: TFile, level: HierarchyLevel, groupKey?: string): number {
+    const branches = level.branches ?? [];
+
+    return branches.findIndex((branch) => {
+      if (branch.value !== undefined) {
+        if (groupKey === undefined || groupKey.toLowerCase() !== branch.value.toLowerCase()) {
+          return false;
+        }
+      }
+
+      return !branch.filters || this.levelFilterEvaluator.evaluateFilters(file, branch.filters);
+    });
+  }
+
+  /**
+   * Get the levels a branch continues with, after the levels on the path to the branching level
+   *
+   * @param levels - Hierarchy levels on the path to the branching level
+   * @param depth - Index of the branching level in levels
+   * @param branchIndex - Branch index, or -1 for the default branch
+   */
+  private getBranchLevels(levels: HierarchyLevel[], depth: number, branchIndex: number): HierarchyLevel[] {
+    if (branchIndex < 0) {
+      return levels;
+    }
+
+    const branch = levels[depth].branches![branchIndex];
+    return [...levels.slice(0, depth + 1), ...branch.levels];
+  }
+
+  /**
+   * Number the levels of a config (including branch levels) for the nodes' levelIndex
+   */
+  private indexLevels(config: HierarchyConfig): void {
+    this.levelIndices.clear();
+    getAllLevels(config.levels).forEach((level, index) => this.levelIndices.set(level, index));
+  }
+
+  /**
+   * Get the index of a level in getAllLevels of the config being built
+   * (the position in levels for configs without branches)
+   */
+  private getLevelIndex(levels: HierarchyLevel[], depth: number): number {
+    return this.levelIndices.get(levels[depth]) ?? depth;
+  }
+
+  /**
+   * Get the value a property level groups a file by
+   * Reads frontmatter, inline fields or both depending on the level's source;
+   * roll-up levels (with `via`) read the property from the notes the file links to
+   *
+   * @param file - File to read the value for
+   * @param level - Property hierarchy level
+   * @returns Property value, or undefined if the file has none
+   */
+  private getPropertyValue(file: TFile, level: PropertyHierarchyLevel): any {
+    if (level.via) {
+      return this.indexer.getLinkedPropertyValue(file, level.via, level.key, level.propertySource);
+    }
+
+    return this.indexer.getFilePropertyValue(file, level.key, level.propertySource);
+  }
+
+  /**
+   * Get the group key for a single property value
+   *
+   * The level's value mapping is applied first. With link resolution enabled,
+   * wikilinks are keyed by their target note ("[[path/to/Note.md]]") so that
+   * aliased and relative links to the same note share a group. Links that
+   * don't resolve share the unresolved group.
+   *
+   * @param value - Property value (or list item)
+   * @param level - Property level being grouped
+   * @param file - File the value belongs to (links resolve relative to it)
+   * @returns Group key
+   */
+  private getPropertyGroupKey(value: any, level: PropertyHierarchyLevel, file: TFile): string {
+    const mappedValue = this.getMappedValue(value, level);
+    let groupKey = mappedValue;
+
+    if (level.resolveLinks) {
+      const link = parseWikilink(mappedValue);
+      if (link) {
+        const target = this.app.metadataCache.getFirstLinkpathDest(link.linkpath, file.path);
+        groupKey = target ? `[[${target.path}]]` : UNRESOLVED_LINK_GROUP;
+      }
+    }
+
+    // Remember which raw values ended up in the group
+    if (level.valueMapping) {
+      if (!this.mappedRawValues.has(level)) {
+        this.mappedRawValues.set(level, new Map());
+      }
+      const levelValues = this.mappedRawValues.get(level)!;
+      if (!levelValues.has(groupKey)) {
+        levelValues.set(groupKey, new Set());
+      }
+      levelValues.get(groupKey)!.add(String(value));
+    }
+
+    return groupKey;
+  }
+
+  /**
+   * Apply a property level's value mapping to a single value
+   *
+   * @returns Canonical value, or the value as a string if the level has no mapping
+   */
+  private getMappedValue(value: any, level: PropertyHierarchyLevel): string {
+    return level.valueMapping ? mapPropertyValue(value, level.valueMapping) : String(value);
+  }
+
+  /**
+   * Get the target note of a resolved link group key
+   *
+   * @returns Target file, or null if the key is not a resolved link
+   */
+  private getLinkGroupTarget(groupKey: string): TFile | null {
+    const match = groupKey.match(/^\[\[(.+)\]\]$/);
+    if (!match) {
+      return null;
+    }
+
+    const target = this.app.vault.getAbstractFileByPath(match[1]);
+    return target instanceof TFile ? target : null;
+  }
+
+  /**
+   * Get the text to display for a property group key
+   * Resolved links show the target's basename (or first alias if configured)
+   */
+  private getPropertyDisplayValue(groupKey: string, level: PropertyHierarchyLevel): string {
+    if (!level.resolveLinks) {
+      return groupKey;
+    }
+
+    const target = this.getLinkGroupTarget(groupKey);
+    if (!target) {
+      return groupKey;
+    }
+
+    if (level.showLinkAlias) {
+      const props = this.indexer.getFileProperties(target);
+      const aliases = props.aliases ?? props.alias;
+      const alias = Array.isArray(aliases) ? aliases[0] : aliases;
+      if (typeof alias === "string" && alias.trim() !== "") {
+        return alias;
+      }
+    }
+
+    return target.basename;
+  }
+
+  /**
+   * Reset numeric bucket state for a new build
+   * Quantile breakpoints are computed from all numeric values in the view's files
+   * (for levels inside a branch, in the files taking the branch)
+   *
+   * @param levels - Hierarchy levels of the view
+   * @param files - Files in the view (after filters)
+   */
+  private prepareNumericBuckets(levels: HierarchyLevel[], files: TFile[]): void {
+    this.numericBuckets.clear();
+    this.quantileBreakpoints.clear();
+
+    this.prepareLevelQuantiles(levels, 0, files);
+  }
+
+  /**
+   * Compute the quantile breakpoints of a level and the levels below it (recursive)
+   *
+   * @param levels - Hierarchy levels on the path to the level
+   * @param depth - Index of the level in levels
+   * @param files - Files reaching the level
+   */
+  private prepareLevelQuantiles(levels: HierarchyLevel[], depth: number, files: TFile[]): void {
+    if (depth >= levels.length || files.length === 0) {
+      return;
+    }
+
+    const level = levels[depth];
+    if (level.type === "property" && level.bucketing?.mode === "quantiles") {
+      this.computeLevelQuantiles(level, files);
+    }
+
+    if (!level.branches || level.branches.length === 0) {
+      this.prepareLevelQuantiles(levels, depth + 1, files);
+      return;
+    }
+
+    // Split the files among the branches by each of their groups, as the tree does
+    const branchFiles = new Map<number, Set<TFile>>();
+    for (const file of files) {
+      let groupKeys: Array<string | undefined> = this.getFileSegmentsForLevel(file, level, depth);
+      if (groupKeys.length === 0 && this.hasMissingGroup(level)) {
+        groupKeys = [undefined];
+      }
+
+      for (const groupKey of groupKeys) {
+        const index = this.findBranchIndex(file, level, groupKey);
+        if (!branchFiles.has(index)) {
+          branchFiles.set(index, new Set());
+        }
+        branchFiles.get(index)!.add(file);
+      }
+    }
+
+    for (const [index, filesInBranch] of branchFiles.entries()) {
+      this.prepareLevelQuantiles(this.getBranchLevels(levels, depth, index), depth + 1, Array.from(filesInBranch));
+    }
+  }
+
+  /**
+   * Compute and store quantile breakpoints for a level from a set of files
+   */
+  private computeLevelQuantiles(level: PropertyHierarchyLevel, files: TFile[]): void {
+    const values: number[] = [];
+    for (const file of files) {
+      values.push(...this.getFileNumericValues(file, level));
+    }
+    this.quantileBreakpoints.set(level, computeQuantileBreakpoints(values, level.bucketing?.quantiles ?? 4));
+  }
+
+  /**
+   * Get the numeric values of a file for a property level
+   * List properties yield one value per numeric item; non-numeric values are skipped
+   */
+  private getFileNumericValues(file: TFile, level: PropertyHierarchyLevel): number[] {
+    const value = this.getPropertyValue(file, level);
+    const rawValues = Array.isArray(value) ? value : [value];
+
+    const values: number[] = [];
+    for (const rawValue of rawValues) {
+      const parsed = parseNumericValue(rawValue);
+      if (parsed !== null) {
+        values.push(parsed);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Get the numeric buckets a file falls into for a bucketed property level
+   * Records each bucket and value so group nodes can expose their range
+   *
+   * @param file - File to bucket
+   * @param level - Property level with bucketing configured
+   * @returns Distinct buckets containing the file's values
+   */
+  private getFileNumericBuckets(file: TFile, level: PropertyHierarchyLevel): NumericBucket[] {
+    if (!level.bucketing) {
+      return [];
+    }
+
+    // Quantiles normally come from prepareNumericBuckets; fall back to the whole vault
+    if (level.bucketing.mode === "quantiles" && !this.quantileBreakpoints.has(level)) {
+      this.computeLevelQuantiles(level, this.indexer.getAllFiles());
+    }
+
+    if (!this.numericBuckets.has(level)) {
+      this.numericBuckets.set(level, new Map());
+    }
+    const seen = this.numericBuckets.get(level)!;
+
+    const buckets: NumericBucket[] = [];
+    for (const value of this.getFileNumericValues(file, level)) {
+      const bucket = getNumericBucket(value, level.bucketing, this.quantileBreakpoints.get(level));
+      if (!bucket) {
+        continue;
+      }
+
+      if (!seen.has(bucket.label)) {
+        seen.set(bucket.label, { bucket, values: new Set() });
+      }
+      seen.get(bucket.label)!.values.add(value);
+
+      if (!buckets.some(b => b.label === bucket.label)) {
+        buckets.push(bucket);
+      }
+    }
+    return buckets;
+  }
+
+  /**
+   * Get the hierarchical paths a tag or folder level groups by
+   *
+   * @param file - File to get paths for
+   * @param level - Tag or folder hierarchy level
+   * @returns The file's tags for tag levels, or its folder path for folder levels
+   */
+  private getLevelPaths(
+    file: TFile,
+    level: TagHierarchyLevel | FolderHierarchyLevel
+  ): Set<string> {
+    return level.type === "folder"
+      ? this.getFolderPaths(file)
+      : this.indexer.getFileTags(file);
+  }
+
+  /**
+   * Get the folder path containing a file
+   * Files in the vault root have no folder and return an empty set
+   *
+   * @param file - File to get the folder for
+   * @returns Set containing the file's folder path (e.g., "Projects/Alpha")
+   */
+  private getFolderPaths(file: TFile): Set<string> {
+    const lastSlash = file.path.lastIndexOf("/");
+    return lastSlash > 0
+      ? new Set([file.path.substring(0, lastSlash)])
+      : new Set<string>();
+  }
+
+  /**
+   * Normalize a folder key by stripping leading and trailing slashes
+   *
+   * @param folderPath - Folder path as configured (e.g., "/Projects/")
+   * @returns Vault-relative folder path (e.g., "Projects")
+   */
+  private normalizeFolderPath(folderPath: string): string {
+    return (folderPath || "").replace(/^\/+|\/+$/g, "");
+  }
 }
@@ -2,6 +2,8 @@
  * Filter types and interfaces for filtering files in saved views
  */
 
+import { TaskStatusSelector } from "../utils/task-status";
+
 // ============================================================================
 // Filter Configuration
 // ============================================================================
@@ -38,6 +40,7 @@ export type FilterType =
   | "file-ctime"
   | "file-mtime"
   | "link-count"
+  | "task-count"
   | "bookmark";
 
 // ============================================================================
@@ -55,18 +58,27 @@ export interface TagFilter extends BaseFilter {
 
 export interface PropertyExistsFilter extends BaseFilter {
   type: "property-exists";
-  property: string;
+  property: string; // Key or nested path ("meta.review.state", "items[].name")
 }
 
 export interface PropertyValueFilter extends BaseFilter {
   type: "property-value";
-  property: string;
+  property: string; // Key or nested path ("meta.review.state", "items[].name")
   operator: PropertyOperator;
   value: any;
   valueMax?: any; // For range operators
   valueType?: PropertyValueType; // User-specified if property not registered
+  source?: PropertySource; // Where to read the property from (default: frontmatter)
 }
 
+/**
+ * Where property values are read from
+ * - frontmatter: YAML frontmatter
+ * - inline: Dataview-style inline fields in the note body ("key:: value")
+ * - both: frontmatter and inline fields combined
+ */
+export type PropertySource = "frontmatter" | "inline" | "both";
+
 export type PropertyValueType = "string" | "number" | "date" | "boolean" | "array";
 
 export type PropertyOperator =
@@ -137,6 +149,13 @@ export interface LinkCountFilter extends BaseFilter {
   value: number;
 }
 
+export interface TaskCountFilter extends BaseFilter {
+  type: "task-count";
+  status: TaskStatusSelector; // "all", "open", "done", or a status character (e.g., "/")
+  operator: "eq" | "lt" | "lte" | "gt" | "gte";
+  value: number;
+}
+
 export interface BookmarkFilter extends BaseFilter {
   type: "bookmark";
   isBookmarked: boolean;
@@ -154,6 +173,7 @@ export type Filter =
   | FileSizeFilter
   | FileDateFilter
   | LinkCountFilter
+  | TaskCountFilter
   | BookmarkFilter;
 
 // ============================================================================
@@ -216,6 +236,12 @@ export const FILTER_TYPE_METADATA: Record<FilterType, FilterTypeMetadata> = {
     description: "Filter by number of links",
     icon: "link",
   },
+  "task-count": {
+    type: "task-count",
+    name: "Task Count",
+    description: "Filter by number of tasks (all, open, done or by status)",
+    icon: "check-square",
+  },
   bookmark: {
     type: "bookmark",
     name: "Bookmark",
@@ -1,5 +1,9 @@
-import { SortMode, FileSortMode } from "./view-state";
-import { FilterConfig } from "./filters";
+import { SortMode, FileSortMode, parseAggregateSortMode, parsePropertyFileSortMode } from "./view-state";
+import { FilterConfig, PropertySource } from "./filters";
+import { validatePropertyPath } from "../utils/property-paths";
+import { validateTemplate } from "../utils/template-expression";
+import { validateCapturePattern } from "../utils/regex-capture";
+import { validateValuePattern } from "../utils/value-patterns";
 
 /**
  * Level color modes for visual hierarchy differentiation
@@ -11,6 +15,76 @@ export type LevelColorMode = "none" | "text" | "background" | "left-border" | "i
  */
 export type HierarchyDisplayMode = "tree" | "flat";
 
+/**
+ * How a level's group values are read when sorting
+ * - text: compared as text
+ * - number: by their leading number ("10", "2.5 kg")
+ * - date: by date ("2024-03-05", "2024-03")
+ */
+export type LevelValueType = "text" | "number" | "date";
+
+/**
+ * How group names are compared when sorting
+ */
+export interface SortCollation {
+  /** Locale whose alphabet order is used (e.g., "de", "sv"; default: the app's language) */
+  locale?: string;
+
+  /** Whether accents tell names apart, e.g. "é" sorts apart from "e" (default: false) */
+  accentSensitive?: boolean;
+
+  /** Whether case tells names apart, e.g. "a" sorts apart from "A" (default: false) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * How files are counted on group nodes
+ * - occurrences: once per group below the node the file appears in (a file with two matching tags counts twice)
+ * - unique: once
+ */
+export type NodeCountMode = "occurrences" | "unique";
+
+/**
+ * Completion shown as a progress bar on group nodes: the share of the group's
+ * distinct files that are done. Exactly one of filters and property is set.
+ */
+export interface ProgressIndicator {
+  /** Filters a file must match to be done (same format as view filters, e.g. status = done) */
+  filters?: FilterConfig;
+
+  /** Checkbox property that marks a file as done when checked */
+  property?: string;
+}
+
+/**
+ * Functions aggregating a value over a group's files
+ */
+export type AggregateFunction = "sum" | "avg" | "min" | "max";
+
+/**
+ * File statistics that can be aggregated instead of a property
+ */
+export type AggregateStat = "mtime" | "ctime" | "size";
+
+/**
+ * A metric shown next to the file count of group nodes
+ * Computed over the distinct files under each group, so files listed
+ * under several values of a multi-valued level count once.
+ */
+export interface GroupAggregate {
+  /** Aggregate function */
+  function: AggregateFunction;
+
+  /** Numeric property to aggregate (e.g., "estimate"); files without a number are skipped */
+  property?: string;
+
+  /** File statistic to aggregate instead of a property (times are shown as dates) */
+  stat?: AggregateStat;
+
+  /** Label shown before the value (default: function and source, e.g. "sum estimate") */
+  label?: string;
+}
+
 /**
  * Base hierarchy level interface
  */
@@ -21,8 +95,85 @@ interface BaseHierarchyLevel {
   /** Optional sort mode for this level (defaults to parent config's sort mode) */
   sortBy?: SortMode;
 
+  /**
+   * How group values are read in alphabetical and natural sorting (default: detected
+   * in natural sorting, text in alphabetical). Property groups are read by their value,
+   * not their displayed name.
+   */
+  valueType?: LevelValueType;
+
+  /**
+   * Group values in the order used by the "custom" sort mode (e.g., backlog, todo, doing,
+   * review, done); compared ignoring case with the group's value or name
+   */
+  customOrder?: string[];
+
+  /** Where the "custom" sort mode puts groups whose value isn't in customOrder (default: "last") */
+  customOrderUnknown?: "first" | "last";
+
   /** Optional custom color for this level (CSS color value) */
   color?: string;
+
+  /**
+   * Template for the names of this level's groups, in the language of computed levels:
+   * ${value} is the group's value and ${count} its number of distinct files (e.g.,
+   * "Sprint ${value}" or "${upper(value)}"). Groups are still sorted by value; a group
+   * whose template has no value keeps its name.
+   */
+  labelTemplate?: string;
+
+  /**
+   * Whether files without a value for this level are collected into a "missing" group
+   * instead of being dropped or shown as partial matches (not supported by parent-link levels)
+   */
+  showMissing?: boolean;
+
+  /** Label of the missing group (default: "(no <label or key>)") */
+  missingLabel?: string;
+
+  /**
+   * Keep only the N largest groups of this level and fold the rest into an
+   * "Other" group (not supported by parent-link levels)
+   */
+  maxGroups?: number;
+
+  /** Keep only groups with at least this many files and fold the rest into an "Other" group */
+  minGroupCount?: number;
+
+  /** Name of the "Other" group (default: "Other"); the number of folded values is appended */
+  otherLabel?: string;
+
+  /**
+   * Show only the groups of this level whose value matches one of these entries
+   * (literals ignoring case, or regular expressions like "/^alpha/i"). Other levels
+   * and branches keep the files of hidden groups (not supported by parent-link levels).
+   */
+  includeValues?: string[];
+
+  /** Hide the groups of this level whose value matches one of these entries */
+  excludeValues?: string[];
+
+  /**
+   * Different sub-levels for some groups of this level. Each file takes the first
+   * branch it matches; files matching no branch continue with the levels that
+   * follow this one (the default branch).
+   */
+  branches?: LevelBranch[];
+}
+
+/**
+ * A branch of a hierarchy level: the sub-levels used below some of its groups
+ * A branch with both a value and filters needs both to match; one with neither matches every file.
+ */
+export interface LevelBranch {
+  /** Group value the branch applies to (e.g., "active" or a tag path); compared ignoring case */
+  value?: string;
+
+  /** Filters a file must match to take the branch (same format as view filters) */
+  filters?: FilterConfig;
+
+  /** Levels below this level for the branch's files (empty = files end at this level) */
+  levels: HierarchyLevel[];
 }
 
 /**
@@ -50,6 +201,52 @@ export interface TagHierarchyLevel extends BaseHierarchyLevel {
   showFullPath: boolean;
 }
 
+/**
+ * How numeric property values are grouped into ranges
+ * - width: fixed-width bins (e.g., 0-10, 10-20, ...)
+ * - breakpoints: explicit boundaries (e.g., [0, 1, 5] = <0, 0-1, 1-5, 5+)
+ * - quantiles: boundaries computed from the values in the view
+ */
+export type NumericBucketMode = "width" | "breakpoints" | "quantiles";
+
+/**
+ * Numeric bucketing configuration for property levels
+ */
+export interface NumericBucketing {
+  /** Bucketing mode */
+  mode: NumericBucketMode;
+
+  /** Bin width (width mode) */
+  width?: number;
+
+  /** Start of the first bin (width mode, default 0) */
+  origin?: number;
+
+  /** Ascending bucket boundaries (breakpoints mode) */
+  breakpoints?: number[];
+
+  /** Number of buckets (quantiles mode, e.g. 4 = quartiles) */
+  quantiles?: number;
+}
+
+/**
+ * Value mapping for property levels
+ * Canonicalizes raw values before grouping (e.g., "Done", "completed", "✅" → "done")
+ */
+export interface ValueMapping {
+  /** Raw value → canonical value */
+  values: Record<string, string>;
+
+  /** Whether raw values are compared case-insensitively (default false) */
+  ignoreCase?: boolean;
+
+  /** Whether surrounding whitespace is ignored when comparing (default false) */
+  trim?: boolean;
+
+  /** Catch-all canonical value for values that aren't mapped (default: keep the raw value) */
+  fallback?: string;
+}
+
 /**
  * Property-based hierarchy level
  * Groups files by frontmatter property values
@@ -57,7 +254,10 @@ export interface TagHierarchyLevel extends BaseHierarchyLevel {
 export interface PropertyHierarchyLevel extends BaseHierarchyLevel {
   type: "property";
 
-  /** Property name to group by */
+  /**
+   * Property name to group by
+   * Nested values use dot paths ("meta.review.state"), lists of objects "[]" ("items[].name")
+   */
   key: string;
 
   /** Whether to treat list properties as separate values (true) or single value (false) */
@@ -65,12 +265,285 @@ export interface PropertyHierarchyLevel extends BaseHierarchyLevel {
 
   /** Whether to prepend property name to value (e.g., "status = active") */
   showPropertyName: boolean;
+
+  /** Where to read the property from (default: frontmatter) */
+  propertySource?: PropertySource;
+
+  /**
+   * Link-valued property to follow before reading `key` (roll-up)
+   * e.g., via "project" with key "area" groups tasks by the area of their linked project
+   */
+  via?: string;
+
+  /**
+   * Whether to resolve wikilink values (e.g., "[[Alpha|A]]") to their target notes
+   * Links pointing to the same note share a group; unresolved links share an "unresolved" group
+   */
+  resolveLinks?: boolean;
+
+  /** For resolved links: show the target note's first alias instead of its basename */
+  showLinkAlias?: boolean;
+
+  /**
+   * Optional numeric bucketing
+   * When set, numeric values are grouped into ranges instead of one node per value
+   * and non-numeric values don't match the level
+   */
+  bucketing?: NumericBucketing;
+
+  /** Optional mapping from raw values to canonical values, applied before grouping */
+  valueMapping?: ValueMapping;
+}
+
+/**
+ * Folder-based hierarchy level
+ * Groups files by vault folder path under the specified key
+ */
+export interface FolderHierarchyLevel extends BaseHierarchyLevel {
+  type: "folder";
+
+  /** Folder prefix to match (empty string matches all top-level folders) */
+  key: string;
+
+  /**
+   * Number of folder levels to span
+   * - 1: Single level (e.g., "Projects" but not "Projects/Alpha")
+   * - 2+: Multiple levels (e.g., 2 = "Projects" and "Projects/Alpha")
+   * - -1: Unlimited depth - show full nested folder structure
+   */
+  depth: number;
+
+  /** Whether to insert next hierarchy level after each intermediate folder level */
+  virtual: boolean;
+
+  /** Whether to show full folder path or just last segment */
+  showFullPath: boolean;
+}
+
+/**
+ * Calendar granularity for date buckets (coarsest to finest)
+ */
+export type DateGranularity = "year" | "quarter" | "month" | "week" | "day";
+
+/**
+ * Where a date level reads its dates from
+ * - property: frontmatter property named by the level key
+ * - ctime / mtime: file creation / modification time
+ */
+export type DateSource = "property" | "ctime" | "mtime";
+
+/**
+ * Date-based hierarchy level
+ * Groups files into calendar buckets by a date property or file timestamp
+ */
+export interface DateHierarchyLevel extends BaseHierarchyLevel {
+  type: "date";
+
+  /** Property name holding the date (ignored for file timestamps) */
+  key: string;
+
+  /** Source of the date value */
+  source: DateSource;
+
+  /** Where to read the date property from (default: frontmatter) */
+  propertySource?: PropertySource;
+
+  /**
+   * Bucket granularities from coarsest to finest
+   * Each entry adds a nested level within this hierarchy level
+   * (e.g., ["year", "month"] = Year → Month)
+   */
+  granularity: DateGranularity[];
+
+  /**
+   * Optional label format per granularity using moment-style tokens
+   * (e.g., { month: "MMMM" } shows "March" instead of "2024-03")
+   */
+  formats?: Partial<Record<DateGranularity, string>>;
+}
+
+/**
+ * Parent-link hierarchy level
+ * Nests each note under the note(s) its parent property links to (e.g., up: "[[Home]]")
+ *
+ * Must be the last level, since its nodes are the notes themselves.
+ */
+export interface ParentLinkHierarchyLevel extends BaseHierarchyLevel {
+  type: "parent-link";
+
+  /** Property holding the parent link(s) (e.g., "up" or "parent") */
+  key: string;
+}
+
+/**
+ * A named group of a smart-group level
+ */
+export interface SmartGroup {
+  /** Group name shown as the node name (e.g., "Overdue") */
+  name: string;
+
+  /** Filter expression a file must match to belong to the group */
+  filters: FilterConfig;
+}
+
+/**
+ * How files are assigned to smart groups
+ * - first: a file joins only the first group it matches (in list order)
+ * - all: a file joins every group it matches
+ */
+export type SmartGroupMatchMode = "first" | "all";
+
+/**
+ * Smart-group hierarchy level
+ * Groups files into user-defined named groups, each defined by a filter expression
+ * (e.g., "Overdue" = due before today, "This week" = due within 7 days)
+ *
+ * Groups keep their configured order unless the level has its own sort override.
+ */
+export interface SmartGroupHierarchyLevel extends BaseHierarchyLevel {
+  type: "smart-group";
+
+  /** Name of the level (e.g., "Due") */
+  key: string;
+
+  /** Groups in display order */
+  groups: SmartGroup[];
+
+  /** How files are assigned to groups (default: first) */
+  matchMode?: SmartGroupMatchMode;
+}
+
+/**
+ * Computed hierarchy level
+ * Groups files by a key built from a template over properties, tags and
+ * file fields (e.g., "${client} / ${year(due)}", "${priority ?? \"P3\"}").
+ *
+ * See utils/template-expression for the template language. Files for which
+ * a placeholder has no value have no key for this level.
+ */
+export interface ComputedHierarchyLevel extends BaseHierarchyLevel {
+  type: "computed";
+
+  /** Name of the level (e.g., "Client / year") */
+  key: string;
+
+  /** Template producing the group key */
+  template: string;
+
+  /** Where properties in the template are read from (default: frontmatter) */
+  propertySource?: PropertySource;
+}
+
+/**
+ * Where a regex level reads its text from
+ * - basename: file name without extension ("2024-03-12 Meeting - ClientX")
+ * - path: vault-relative path with extension ("Meetings/2024-03-12 Meeting - ClientX.md")
+ */
+export type RegexSource = "basename" | "path";
+
+/**
+ * Regex capture hierarchy level
+ * Groups files by a capture group of a regular expression applied to the
+ * file name or path (e.g., "Meeting - (?<client>.+)$" groups meeting notes by client).
+ *
+ * Files the pattern doesn't match go into the unmatched group (the level's
+ * missing group), which is shown by default.
+ */
+export interface RegexHierarchyLevel extends BaseHierarchyLevel {
+  type: "regex";
+
+  /** Name of the level (e.g., "Client") */
+  key: string;
+
+  /** Regular expression without slashes (e.g., "Meeting - (?<client>.+)$") */
+  pattern: string;
+
+  /** Named capture group to group by (default: first named group, else first group, else whole match) */
+  group?: string;
+
+  /** Text to match (default: basename) */
+  source?: RegexSource;
+
+  /** Whether matching ignores case (default: false) */
+  ignoreCase?: boolean;
+}
+
+/**
+ * How a task level groups files
+ * - state: "Open tasks", "All done" or "No tasks"
+ * - status: one group per status character present ("[ ]", "[x]", "[/]", ...)
+ */
+export type TaskGrouping = "state" | "status";
+
+/**
+ * Task hierarchy level
+ * Groups files by the tasks in their list items ("- [ ] todo", "- [x] done", "- [/] doing")
+ */
+export interface TaskHierarchyLevel extends BaseHierarchyLevel {
+  type: "task";
+
+  /** Name of the level (e.g., "Tasks") */
+  key: string;
+
+  /** How files are grouped (default: state) */
+  groupBy?: TaskGrouping;
+
+  /** Status characters counted as open (default: " /") */
+  openStatuses?: string;
+
+  /** Group names by state ("open", "done", "none") or status character (e.g., { "/": "In progress" }) */
+  labels?: Record<string, string>;
+}
+
+/**
+ * One key of a composite level
+ */
+export interface CompositeKeyPart {
+  /** Property key (supports nested paths, e.g., "client.name") */
+  key: string;
+
+  /** Text placed before this key's value (default: the level's separator; ignored for the first key) */
+  separator?: string;
+}
+
+/**
+ * Composite hierarchy level
+ * Groups files by a tuple of property values in a single level
+ * (e.g., client and project give "ClientX · Alpha" instead of two nested levels).
+ *
+ * List values give one group per combination. Files without a value for
+ * one of the keys have no key for this level.
+ */
+export interface CompositeHierarchyLevel extends BaseHierarchyLevel {
+  type: "composite";
+
+  /** Name of the level (e.g., "Client · Project") */
+  key: string;
+
+  /** Property keys in label order */
+  keys: CompositeKeyPart[];
+
+  /** Text placed between values (default: " · ") */
+  separator?: string;
+
+  /** Where the properties are read from (default: frontmatter) */
+  propertySource?: PropertySource;
 }
 
 /**
  * Union type for all hierarchy levels
  */
-export type HierarchyLevel = TagHierarchyLevel | PropertyHierarchyLevel;
+export type HierarchyLevel =
+  | TagHierarchyLevel
+  | PropertyHierarchyLevel
+  | FolderHierarchyLevel
+  | DateHierarchyLevel
+  | ParentLinkHierarchyLevel
+  | SmartGroupHierarchyLevel
+  | ComputedHierarchyLevel
+  | RegexHierarchyLevel
+  | TaskHierarchyLevel
+  | CompositeHierarchyLevel;
 
 /**
  * Configuration for a custom hierarchy view
@@ -100,6 +573,24 @@ export interface HierarchyConfig {
   /** Default sort mode for file nodes */
   defaultFileSortMode?: FileSortMode;
 
+  /** How files with equal values are ordered when sorting files by a property (default: "alpha-asc") */
+  fileSortTiebreaker?: FileSortMode;
+
+  /** Where files without a value go when sorting files by a property (default: "last") */
+  fileSortMissing?: "first" | "last";
+
+  /** How group names are compared when sorting (default: app language, ignoring accents and case) */
+  sortCollation?: SortCollation;
+
+  /** Metrics shown on group nodes (e.g., total estimate, latest modified time) */
+  aggregates?: GroupAggregate[];
+
+  /** Which file count group nodes show and are sorted by (default: "occurrences") */
+  countMode?: NodeCountMode;
+
+  /** Progress bar on group nodes (share of files that are done) */
+  progress?: ProgressIndicator;
+
   /** How to apply level colors (none, background, border, or icon) */
   levelColorMode?: LevelColorMode;
 
@@ -111,6 +602,9 @@ export interface HierarchyConfig {
 
   /** Display mode: tree (nested) or flat (single-level with combined labels) */
   displayMode?: HierarchyDisplayMode;
+
+  /** Whether file nodes expand into their headings (outline built when a file is expanded) */
+  showHeadings?: boolean;
 }
 
 /**
@@ -143,13 +637,168 @@ export const DEFAULT_TAG_LEVEL: Partial<TagHierarchyLevel> = {
 };
 
 /**
- * Default values for property hierarchy level
+ * Default values for property hierarchy level
+ */
+export const DEFAULT_PROPERTY_LEVEL: Partial<PropertyHierarchyLevel> = {
+  separateListValues: true,
+  showPropertyName: false,
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for folder hierarchy level
+ */
+export const DEFAULT_FOLDER_LEVEL: Partial<FolderHierarchyLevel> = {
+  depth: -1, // -1 = unlimited depth (show full nested folder structure)
+  virtual: false,
+  showFullPath: false,
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for date hierarchy level
+ */
+export const DEFAULT_DATE_LEVEL: Partial<DateHierarchyLevel> = {
+  source: "property",
+  granularity: ["year", "month"],
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for parent-link hierarchy level
+ */
+export const DEFAULT_PARENT_LINK_LEVEL: Partial<ParentLinkHierarchyLevel> = {
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for smart-group hierarchy level
+ */
+export const DEFAULT_SMART_GROUP_LEVEL: Partial<SmartGroupHierarchyLevel> = {
+  groups: [],
+  matchMode: "first",
+  sortBy: undefined, // Groups keep their configured order
+};
+
+/**
+ * Default values for computed hierarchy level
+ */
+export const DEFAULT_COMPUTED_LEVEL: Partial<ComputedHierarchyLevel> = {
+  template: "",
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for regex capture hierarchy level
+ */
+export const DEFAULT_REGEX_LEVEL: Partial<RegexHierarchyLevel> = {
+  pattern: "",
+  source: "basename",
+  ignoreCase: false,
+  showMissing: true, // Unmatched files get their own group
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Default values for task hierarchy level
+ */
+export const DEFAULT_TASK_LEVEL: Partial<TaskHierarchyLevel> = {
+  groupBy: "state",
+  sortBy: undefined, // States keep their fixed order; statuses inherit from parent config
+};
+
+/**
+ * Default values for composite hierarchy level
+ */
+export const DEFAULT_COMPOSITE_LEVEL: Partial<CompositeHierarchyLevel> = {
+  keys: [],
+  separator: " · ",
+  sortBy: undefined, // Inherits from parent config
+};
+
+/**
+ * Get the label of a level's missing group
+ * Defaults to "(no <label or key>)", e.g. "(no status)", and "(unmatched)" for regex levels
+ */
+export function getMissingGroupLabel(level: HierarchyLevel): string {
+  if (level.missingLabel && level.missingLabel.trim() !== "") {
+    return level.missingLabel;
+  }
+
+  if (level.type === "regex") {
+    return "(unmatched)";
+  }
+
+  const name = (level.label && level.label.trim() !== "") ? level.label : (level.key || level.type);
+  return `(no ${name})`;
+}
+
+/**
+ * Get the label of a level's "Other" group
+ * Defaults to "Other (<k> values)", where k is the number of folded groups
+ */
+export function getOtherGroupLabel(level: HierarchyLevel, foldedCount: number): string {
+  const name = (level.otherLabel && level.otherLabel.trim() !== "") ? level.otherLabel : "Other";
+  return `${name} (${foldedCount} ${foldedCount === 1 ? "value" : "values"})`;
+}
+
+/**
+ * Get all levels of a hierarchy, including the levels of branches
+ * Top-level levels come first, so their index is their position in the list;
+ * branch levels follow depth-first. Node levelIndex values refer to this list.
+ */
+export function getAllLevels(levels: HierarchyLevel[]): HierarchyLevel[] {
+  const all: HierarchyLevel[] = [...levels];
+
+  for (const level of levels) {
+    for (const branch of level.branches ?? []) {
+      all.push(...getAllLevels(branch.levels));
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Validates a branch of a hierarchy level
+ *
+ * @param branch - The branch to validate
+ * @returns Error messages (empty if valid)
  */
-export const DEFAULT_PROPERTY_LEVEL: Partial<PropertyHierarchyLevel> = {
-  separateListValues: true,
-  showPropertyName: false,
-  sortBy: undefined, // Inherits from parent config
-};
+function validateLevelBranch(branch: any): string[] {
+  const errors: string[] = [];
+
+  if (typeof branch !== "object" || branch === null) {
+    return ["Branch must be an object"];
+  }
+
+  if (branch.value !== undefined && typeof branch.value !== "string") {
+    errors.push("Branch 'value' must be a string");
+  }
+  if (
+    branch.filters !== undefined &&
+    (typeof branch.filters !== "object" || branch.filters === null || !Array.isArray(branch.filters.filters))
+  ) {
+    errors.push("Branch 'filters' must be a filter configuration");
+  }
+
+  if (!Array.isArray(branch.levels)) {
+    errors.push("Branch must have a 'levels' array (empty to end the branch)");
+    return errors;
+  }
+
+  branch.levels.forEach((level: any, index: number) => {
+    validateHierarchyLevel(level).errors.forEach((error) => {
+      errors.push(`Level ${index + 1}: ${error}`);
+    });
+
+    if (level?.type === "parent-link" && index !== branch.levels.length - 1) {
+      errors.push(`Level ${index + 1}: Parent-link level must be the last level`);
+    }
+  });
+
+  return errors;
+}
 
 /**
  * Validates a HierarchyLevel object
@@ -171,9 +820,9 @@ export function validateHierarchyLevel(
   // Validate type
   if (!level.type) {
     errors.push("Hierarchy level must have a 'type' field");
-  } else if (level.type !== "tag" && level.type !== "property") {
+  } else if (!["tag", "property", "folder", "date", "parent-link", "smart-group", "computed", "regex", "task", "composite"].includes(level.type)) {
     errors.push(
-      `Invalid hierarchy level type: '${level.type}'. Must be 'tag' or 'property'`
+      `Invalid hierarchy level type: '${level.type}'. Must be 'tag', 'property', 'folder', 'date', 'parent-link', 'smart-group', 'computed', 'regex', 'task' or 'composite'`
     );
   }
 
@@ -183,7 +832,81 @@ export function validateHierarchyLevel(
   } else if (typeof level.key !== "string") {
     errors.push("Hierarchy level 'key' must be a string");
   }
-  // Note: Empty string is valid for tag keys (matches all base tags)
+  // Note: Empty string is valid for tag and folder keys (matches all base tags/folders)
+
+  // Validate missing group
+  if (level.showMissing !== undefined && typeof level.showMissing !== "boolean") {
+    errors.push("Hierarchy level 'showMissing' must be a boolean");
+  } else if (level.showMissing && level.type === "parent-link") {
+    errors.push("Parent-link levels don't support a missing group (every note has a place)");
+  }
+  if (level.missingLabel !== undefined && typeof level.missingLabel !== "string") {
+    errors.push("Hierarchy level 'missingLabel' must be a string");
+  }
+
+  // Validate long-tail folding
+  if (level.maxGroups !== undefined && (typeof level.maxGroups !== "number" || !Number.isInteger(level.maxGroups) || level.maxGroups < 1)) {
+    errors.push("Hierarchy level 'maxGroups' must be a whole number of at least 1");
+  }
+  if (level.minGroupCount !== undefined && (typeof level.minGroupCount !== "number" || !Number.isInteger(level.minGroupCount) || level.minGroupCount < 1)) {
+    errors.push("Hierarchy level 'minGroupCount' must be a whole number of at least 1");
+  }
+  if ((level.maxGroups !== undefined || level.minGroupCount !== undefined) && level.type === "parent-link") {
+    errors.push("Parent-link levels don't support folding groups into 'Other'");
+  }
+  if (level.otherLabel !== undefined && typeof level.otherLabel !== "string") {
+    errors.push("Hierarchy level 'otherLabel' must be a string");
+  }
+
+  // Validate label template
+  if (level.labelTemplate !== undefined) {
+    if (typeof level.labelTemplate !== "string") {
+      errors.push("Hierarchy level 'labelTemplate' must be a string");
+    } else if (level.type === "parent-link") {
+      errors.push("Parent-link levels don't support label templates (their groups are notes)");
+    } else {
+      for (const templateError of validateTemplate(level.labelTemplate)) {
+        errors.push(`Label template: ${templateError}`);
+      }
+    }
+  }
+
+  // Validate include/exclude lists
+  for (const listKey of ["includeValues", "excludeValues"]) {
+    const list = level[listKey];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.some((entry: any) => typeof entry !== "string")) {
+      errors.push(`Hierarchy level '${listKey}' must be an array of strings`);
+    } else if (level.type === "parent-link") {
+      errors.push(`Parent-link levels don't support '${listKey}'`);
+    } else {
+      for (const entry of list) {
+        const patternError = validateValuePattern(entry);
+        if (patternError) {
+          errors.push(`Hierarchy level '${listKey}': ${patternError}`);
+        }
+      }
+    }
+  }
+
+  // Validate branches (their levels are validated like top-level levels)
+  if (level.branches !== undefined) {
+    if (!Array.isArray(level.branches)) {
+      errors.push("Hierarchy level 'branches' must be an array");
+    } else if (level.type === "parent-link") {
+      errors.push("Parent-link levels don't support branches (nothing can be nested below them)");
+    } else if (level.virtual) {
+      errors.push("Virtual tag and folder levels don't support branches");
+    } else {
+      level.branches.forEach((branch: any, index: number) => {
+        validateLevelBranch(branch).forEach((error) => {
+          errors.push(`Branch ${index + 1}: ${error}`);
+        });
+      });
+    }
+  }
 
   // Type-specific validation
   if (level.type === "tag") {
@@ -220,6 +943,296 @@ export function validateHierarchyLevel(
     if (typeof level.key === "string" && level.key.trim() === "") {
       errors.push("Property level 'key' cannot be empty");
     }
+
+    // Validate nested path syntax (e.g., "meta.review.state", "items[].name")
+    if (typeof level.key === "string" && level.key.trim() !== "") {
+      const pathError = validatePropertyPath(level.key);
+      if (pathError) {
+        errors.push(pathError);
+      }
+    }
+
+    // Validate property source
+    const validSources: PropertySource[] = ["frontmatter", "inline", "both"];
+    if (level.propertySource !== undefined && !validSources.includes(level.propertySource)) {
+      errors.push(
+        `Invalid property source: '${level.propertySource}'. Must be one of: ${validSources.join(", ")}`
+      );
+    }
+
+    // Validate roll-up property
+    if (level.via !== undefined && (typeof level.via !== "string" || level.via.trim() === "")) {
+      errors.push("Property level 'via' must be a non-empty property name");
+    }
+
+    // Validate link resolution
+    if (level.resolveLinks !== undefined && typeof level.resolveLinks !== "boolean") {
+      errors.push("Property level 'resolveLinks' must be a boolean");
+    }
+
+    if (level.showLinkAlias !== undefined && typeof level.showLinkAlias !== "boolean") {
+      errors.push("Property level 'showLinkAlias' must be a boolean");
+    }
+
+    // Validate numeric bucketing
+    if (level.bucketing !== undefined) {
+      const bucketing = level.bucketing;
+      const validModes: NumericBucketMode[] = ["width", "breakpoints", "quantiles"];
+
+      if (typeof bucketing !== "object" || bucketing === null) {
+        errors.push("Property level 'bucketing' must be an object");
+      } else if (!validModes.includes(bucketing.mode)) {
+        errors.push(
+          `Invalid bucketing mode: '${bucketing.mode}'. Must be one of: ${validModes.join(", ")}`
+        );
+      } else if (bucketing.mode === "width") {
+        if (typeof bucketing.width !== "number" || !(bucketing.width > 0)) {
+          errors.push("Bucketing 'width' must be a positive number");
+        }
+        if (bucketing.origin !== undefined && typeof bucketing.origin !== "number") {
+          errors.push("Bucketing 'origin' must be a number");
+        }
+      } else if (bucketing.mode === "breakpoints") {
+        const breakpoints = bucketing.breakpoints;
+        if (!Array.isArray(breakpoints) || breakpoints.length === 0) {
+          errors.push("Bucketing 'breakpoints' must be a non-empty array");
+        } else if (breakpoints.some((b) => typeof b !== "number" || !isFinite(b))) {
+          errors.push("Bucketing 'breakpoints' must contain only numbers");
+        } else if (breakpoints.some((b, i) => i > 0 && b <= breakpoints[i - 1])) {
+          errors.push("Bucketing 'breakpoints' must be in ascending order without repeats");
+        }
+      } else if (bucketing.mode === "quantiles") {
+        if (typeof bucketing.quantiles !== "number" || !Number.isInteger(bucketing.quantiles) || bucketing.quantiles < 2) {
+          errors.push("Bucketing 'quantiles' must be an integer >= 2");
+        }
+      }
+    }
+
+    // Validate value mapping
+    if (level.valueMapping !== undefined) {
+      const mapping = level.valueMapping;
+
+      if (typeof mapping !== "object" || mapping === null) {
+        errors.push("Property level 'valueMapping' must be an object");
+      } else {
+        if (typeof mapping.values !== "object" || mapping.values === null || Array.isArray(mapping.values)) {
+          errors.push("Value mapping 'values' must be an object of raw value → canonical value");
+        } else if (Object.values(mapping.values).some((v) => typeof v !== "string" || v.trim() === "")) {
+          errors.push("Value mapping targets must be non-empty strings");
+        }
+        if (mapping.ignoreCase !== undefined && typeof mapping.ignoreCase !== "boolean") {
+          errors.push("Value mapping 'ignoreCase' must be a boolean");
+        }
+        if (mapping.trim !== undefined && typeof mapping.trim !== "boolean") {
+          errors.push("Value mapping 'trim' must be a boolean");
+        }
+        if (mapping.fallback !== undefined && (typeof mapping.fallback !== "string" || mapping.fallback.trim() === "")) {
+          errors.push("Value mapping 'fallback' must be a non-empty string");
+        }
+      }
+    }
+  } else if (level.type === "folder") {
+    // Validate depth
+    if (level.depth !== undefined) {
+      if (typeof level.depth !== "number") {
+        errors.push("Folder level 'depth' must be a number");
+      } else if (!Number.isInteger(level.depth) || (level.depth < 1 && level.depth !== -1)) {
+        errors.push("Folder level 'depth' must be an integer >= 1 or -1 for unlimited depth");
+      }
+    }
+
+    // Validate virtual
+    if (level.virtual !== undefined && typeof level.virtual !== "boolean") {
+      errors.push("Folder level 'virtual' must be a boolean");
+    }
+
+    // Validate showFullPath
+    if (level.showFullPath !== undefined && typeof level.showFullPath !== "boolean") {
+      errors.push("Folder level 'showFullPath' must be a boolean");
+    }
+
+    // Folder key must be a vault-relative path
+    if (typeof level.key === "string" && level.key.startsWith("/")) {
+      errors.push("Folder level 'key' must be a vault-relative path (no leading '/')");
+    }
+  } else if (level.type === "date") {
+    const validGranularities: DateGranularity[] = ["year", "quarter", "month", "week", "day"];
+
+    // Validate source
+    const validSources: DateSource[] = ["property", "ctime", "mtime"];
+    if (level.source !== undefined && !validSources.includes(level.source)) {
+      errors.push(
+        `Invalid date source: '${level.source}'. Must be one of: ${validSources.join(", ")}`
+      );
+    }
+
+    // Property dates need a property name
+    if ((level.source ?? "property") === "property" && typeof level.key === "string" && level.key.trim() === "") {
+      errors.push("Date level 'key' cannot be empty when reading dates from a property");
+    }
+
+    // Validate property source
+    const validPropertySources: PropertySource[] = ["frontmatter", "inline", "both"];
+    if (level.propertySource !== undefined && !validPropertySources.includes(level.propertySource)) {
+      errors.push(
+        `Invalid property source: '${level.propertySource}'. Must be one of: ${validPropertySources.join(", ")}`
+      );
+    }
+
+    // Validate granularity
+    if (!Array.isArray(level.granularity) || level.granularity.length === 0) {
+      errors.push("Date level 'granularity' must be a non-empty array");
+    } else {
+      let previousIndex = -1;
+      for (const granularity of level.granularity) {
+        const index = validGranularities.indexOf(granularity);
+        if (index === -1) {
+          errors.push(
+            `Invalid date granularity: '${granularity}'. Must be one of: ${validGranularities.join(", ")}`
+          );
+        } else if (index <= previousIndex) {
+          errors.push("Date level 'granularity' must be ordered from coarsest to finest without repeats");
+        }
+        previousIndex = Math.max(previousIndex, index);
+      }
+    }
+
+    // Validate formats
+    if (level.formats !== undefined) {
+      if (typeof level.formats !== "object" || level.formats === null) {
+        errors.push("Date level 'formats' must be an object");
+      } else {
+        for (const granularity of Object.keys(level.formats)) {
+          if (validGranularities.indexOf(granularity as DateGranularity) === -1) {
+            errors.push(`Date level 'formats' has unknown granularity: '${granularity}'`);
+          } else if (typeof level.formats[granularity] !== "string") {
+            errors.push(`Date level format for '${granularity}' must be a string`);
+          }
+        }
+      }
+    }
+  } else if (level.type === "parent-link") {
+    // Parent property cannot be empty
+    if (typeof level.key === "string" && level.key.trim() === "") {
+      errors.push("Parent-link level 'key' cannot be empty");
+    }
+  } else if (level.type === "smart-group") {
+    // Validate groups
+    if (!Array.isArray(level.groups) || level.groups.length === 0) {
+      errors.push("Smart-group level must have a non-empty 'groups' array");
+    } else {
+      const names = new Set<string>();
+      level.groups.forEach((group: any, index: number) => {
+        if (typeof group !== "object" || group === null) {
+          errors.push(`Smart group ${index + 1} must be an object`);
+          return;
+        }
+        if (typeof group.name !== "string" || group.name.trim() === "") {
+          errors.push(`Smart group ${index + 1} must have a non-empty 'name'`);
+        } else if (names.has(group.name)) {
+          errors.push(`Duplicate smart group name: '${group.name}'`);
+        } else {
+          names.add(group.name);
+        }
+        if (typeof group.filters !== "object" || group.filters === null || !Array.isArray(group.filters.filters)) {
+          errors.push(`Smart group '${group.name ?? index + 1}' must have a 'filters' configuration`);
+        }
+      });
+    }
+
+    // Validate match mode
+    const validMatchModes: SmartGroupMatchMode[] = ["first", "all"];
+    if (level.matchMode !== undefined && !validMatchModes.includes(level.matchMode)) {
+      errors.push(
+        `Invalid smart-group match mode: '${level.matchMode}'. Must be one of: ${validMatchModes.join(", ")}`
+      );
+    }
+  } else if (level.type === "computed") {
+    // Validate template syntax
+    if (typeof level.template !== "string" || level.template.trim() === "") {
+      errors.push("Computed level must have a non-empty 'template'");
+    } else {
+      for (const templateError of validateTemplate(level.template)) {
+        errors.push(`Computed level template: ${templateError}`);
+      }
+    }
+
+    // Validate property source
+    const validSources: PropertySource[] = ["frontmatter", "inline", "both"];
+    if (level.propertySource !== undefined && !validSources.includes(level.propertySource)) {
+      errors.push(
+        `Invalid property source: '${level.propertySource}'. Must be one of: ${validSources.join(", ")}`
+      );
+    }
+  } else if (level.type === "regex") {
+    // Validate pattern and capture group
+    if (typeof level.pattern !== "string" || level.pattern === "") {
+      errors.push("Regex level must have a non-empty 'pattern'");
+    } else if (level.group !== undefined && typeof level.group !== "string") {
+      errors.push("Regex level 'group' must be a string");
+    } else {
+      const patternError = validateCapturePattern(level.pattern, level.group || undefined);
+      if (patternError) {
+        errors.push(patternError);
+      }
+    }
+
+    // Validate source
+    const validSources: RegexSource[] = ["basename", "path"];
+    if (level.source !== undefined && !validSources.includes(level.source)) {
+      errors.push(
+        `Invalid regex source: '${level.source}'. Must be one of: ${validSources.join(", ")}`
+      );
+    }
+
+    if (level.ignoreCase !== undefined && typeof level.ignoreCase !== "boolean") {
+      errors.push("Regex level 'ignoreCase' must be a boolean");
+    }
+  } else if (level.type === "task") {
+    // Validate grouping
+    const validGroupings: TaskGrouping[] = ["state", "status"];
+    if (level.groupBy !== undefined && !validGroupings.includes(level.groupBy)) {
+      errors.push(
+        `Invalid task grouping: '${level.groupBy}'. Must be one of: ${validGroupings.join(", ")}`
+      );
+    }
+
+    if (level.openStatuses !== undefined && typeof level.openStatuses !== "string") {
+      errors.push("Task level 'openStatuses' must be a string of status characters");
+    }
+
+    if (level.labels !== undefined) {
+      if (typeof level.labels !== "object" || level.labels === null || Array.isArray(level.labels)) {
+        errors.push("Task level 'labels' must be an object of state or status → name");
+      } else if (Object.values(level.labels).some((v) => typeof v !== "string" || v.trim() === "")) {
+        errors.push("Task level labels must be non-empty strings");
+      }
+    }
+  } else if (level.type === "composite") {
+    // Validate keys
+    if (!Array.isArray(level.keys) || level.keys.length < 2) {
+      errors.push("Composite level must have at least two 'keys'");
+    } else {
+      level.keys.forEach((part: any, index: number) => {
+        if (typeof part !== "object" || part === null || typeof part.key !== "string" || part.key.trim() === "") {
+          errors.push(`Composite key ${index + 1} must have a non-empty 'key'`);
+        } else if (part.separator !== undefined && typeof part.separator !== "string") {
+          errors.push(`Composite key ${index + 1} 'separator' must be a string`);
+        }
+      });
+    }
+
+    if (level.separator !== undefined && typeof level.separator !== "string") {
+      errors.push("Composite level 'separator' must be a string");
+    }
+
+    // Validate property source
+    const validSources: PropertySource[] = ["frontmatter", "inline", "both"];
+    if (level.propertySource !== undefined && !validSources.includes(level.propertySource)) {
+      errors.push(
+        `Invalid property source: '${level.propertySource}'. Must be one of: ${validSources.join(", ")}`
+      );
+    }
   }
 
   // Validate optional label
@@ -234,17 +1247,44 @@ export function validateHierarchyLevel(
     const validSortModes: SortMode[] = [
       "alpha-asc",
       "alpha-desc",
+      "natural-asc",
+      "natural-desc",
+      "numeric-asc",
+      "numeric-desc",
+      "date-asc",
+      "date-desc",
       "count-desc",
       "count-asc",
+      "custom",
       "none",
     ];
-    if (!validSortModes.includes(level.sortBy)) {
+    if (!validSortModes.includes(level.sortBy) && !parseAggregateSortMode(level.sortBy)) {
       errors.push(
         `Invalid sort mode: '${level.sortBy}'. Must be one of: ${validSortModes.join(", ")}`
       );
     }
   }
 
+  // Validate optional value type
+  if (level.valueType !== undefined) {
+    const validValueTypes: LevelValueType[] = ["text", "number", "date"];
+    if (!validValueTypes.includes(level.valueType)) {
+      errors.push(
+        `Invalid value type: '${level.valueType}'. Must be one of: ${validValueTypes.join(", ")}`
+      );
+    }
+  }
+
+  // Validate optional custom order
+  if (level.customOrder !== undefined) {
+    if (!Array.isArray(level.customOrder) || level.customOrder.some((value: any) => typeof value !== "string")) {
+      errors.push("Hierarchy level 'customOrder' must be an array of strings");
+    }
+  }
+  if (level.customOrderUnknown !== undefined && level.customOrderUnknown !== "first" && level.customOrderUnknown !== "last") {
+    errors.push(`Invalid custom order placement: '${level.customOrderUnknown}'. Must be one of: first, last`);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -293,6 +1333,11 @@ export function validateHierarchyConfig(
           errors.push(`Level ${index + 1}: ${error}`);
         });
       }
+
+      // Parent-link nodes are notes, so nothing can be nested below them
+      if (level?.type === "parent-link" && index !== config.levels.length - 1) {
+        errors.push(`Level ${index + 1}: Parent-link level must be the last level`);
+      }
     });
   }
 
@@ -320,37 +1365,168 @@ export function validateHierarchyConfig(
     const validSortModes: SortMode[] = [
       "alpha-asc",
       "alpha-desc",
+      "natural-asc",
+      "natural-desc",
+      "numeric-asc",
+      "numeric-desc",
+      "date-asc",
+      "date-desc",
       "count-desc",
       "count-asc",
+      "custom",
       "none",
     ];
-    if (!validSortModes.includes(config.defaultNodeSortMode)) {
+    if (!validSortModes.includes(config.defaultNodeSortMode) && !parseAggregateSortMode(config.defaultNodeSortMode)) {
       errors.push(
         `Invalid default node sort mode: '${config.defaultNodeSortMode}'. Must be one of: ${validSortModes.join(", ")}`
       );
     }
   }
 
-  // Validate optional defaultFileSortMode
-  if (config.defaultFileSortMode !== undefined) {
-    const validFileSortModes: FileSortMode[] = [
-      "alpha-asc",
-      "alpha-desc",
-      "created-desc",
-      "created-asc",
-      "modified-desc",
-      "modified-asc",
-      "size-desc",
-      "size-asc",
-      "none",
+  // Validate optional countMode
+  if (config.countMode !== undefined && config.countMode !== "occurrences" && config.countMode !== "unique") {
+    errors.push(`Invalid count mode: '${config.countMode}'. Must be one of: occurrences, unique`);
+  }
+
+  // Validate optional progress indicator
+  if (config.progress !== undefined) {
+    const progress = config.progress;
+    if (typeof progress !== "object" || progress === null) {
+      errors.push("Hierarchy config 'progress' must be an object");
+    } else if ((progress.filters === undefined) === (progress.property === undefined)) {
+      errors.push("Progress must have either 'filters' or a checkbox 'property'");
+    } else if (progress.filters !== undefined) {
+      if (typeof progress.filters !== "object" || progress.filters === null || !Array.isArray(progress.filters.filters)) {
+        errors.push("Progress 'filters' must be a filter configuration");
+      }
+    } else if (typeof progress.property !== "string" || progress.property.trim() === "") {
+      errors.push("Progress 'property' must be a non-empty string");
+    } else {
+      const pathError = validatePropertyPath(progress.property);
+      if (pathError) {
+        errors.push(`Progress: ${pathError}`);
+      }
+    }
+  }
+
+  // Validate optional aggregates
+  if (config.aggregates !== undefined) {
+    if (!Array.isArray(config.aggregates)) {
+      errors.push("Hierarchy config 'aggregates' must be an array");
+    } else {
+      const validFunctions: AggregateFunction[] = ["sum", "avg", "min", "max"];
+      const validStats: AggregateStat[] = ["mtime", "ctime", "size"];
+      config.aggregates.forEach((aggregate: any, index: number) => {
+        const prefix = `Aggregate ${index + 1}`;
+        if (typeof aggregate !== "object" || aggregate === null) {
+          errors.push(`${prefix} must be an object`);
+          return;
+        }
+        if (!validFunctions.includes(aggregate.function)) {
+          errors.push(`${prefix}: invalid function '${aggregate.function}'. Must be one of: ${validFunctions.join(", ")}`);
+        }
+        if ((aggregate.property === undefined) === (aggregate.stat === undefined)) {
+          errors.push(`${prefix} must have either a 'property' or a 'stat'`);
+        } else if (aggregate.property !== undefined) {
+          if (typeof aggregate.property !== "string" || aggregate.property.trim() === "") {
+            errors.push(`${prefix}: 'property' must be a non-empty string`);
+          } else {
+            const pathError = validatePropertyPath(aggregate.property);
+            if (pathError) {
+              errors.push(`${prefix}: ${pathError}`);
+            }
+          }
+        } else if (!validStats.includes(aggregate.stat)) {
+          errors.push(`${prefix}: invalid stat '${aggregate.stat}'. Must be one of: ${validStats.join(", ")}`);
+        }
+        if (aggregate.label !== undefined && typeof aggregate.label !== "string") {
+          errors.push(`${prefix}: 'label' must be a string`);
+        }
+      });
+    }
+  }
+
+  // Validate that aggregate sort modes name an existing aggregate (once levels and aggregates are valid)
+  if (errors.length === 0) {
+    const aggregateCount = config.aggregates?.length ?? 0;
+    const nodeSortModes: Array<SortMode | undefined> = [
+      config.defaultNodeSortMode,
+      ...getAllLevels(config.levels).map((level) => level.sortBy),
     ];
-    if (!validFileSortModes.includes(config.defaultFileSortMode)) {
+    for (const mode of nodeSortModes) {
+      const aggregateSort = mode ? parseAggregateSortMode(mode) : null;
+      if (aggregateSort && aggregateSort.index >= aggregateCount) {
+        errors.push(`Sort mode '${mode}' refers to aggregate ${aggregateSort.index + 1}, but the view has ${aggregateCount}`);
+      }
+    }
+  }
+
+  // Validate optional defaultFileSortMode and fileSortTiebreaker
+  const validFileSortModes: FileSortMode[] = [
+    "alpha-asc",
+    "alpha-desc",
+    "created-desc",
+    "created-asc",
+    "modified-desc",
+    "modified-asc",
+    "size-desc",
+    "size-asc",
+    "none",
+  ];
+  const fileSortModes: Array<[string, any]> = [
+    ["default file sort mode", config.defaultFileSortMode],
+    ["file sort tiebreaker", config.fileSortTiebreaker],
+  ];
+  for (const [name, mode] of fileSortModes) {
+    if (mode === undefined) {
+      continue;
+    }
+    const propertySort = typeof mode === "string" ? parsePropertyFileSortMode(mode as FileSortMode) : null;
+    if (propertySort) {
+      const pathError = validatePropertyPath(propertySort.key);
+      if (propertySort.key.trim() === "") {
+        errors.push(`Invalid ${name}: '${mode}' needs a property key (e.g., 'property-asc:due')`);
+      } else if (pathError) {
+        errors.push(`Invalid ${name} property: ${pathError}`);
+      }
+    } else if (!validFileSortModes.includes(mode)) {
       errors.push(
-        `Invalid default file sort mode: '${config.defaultFileSortMode}'. Must be one of: ${validFileSortModes.join(", ")}`
+        `Invalid ${name}: '${mode}'. Must be one of: ${validFileSortModes.join(", ")}, property-asc:<key>, property-desc:<key>`
       );
     }
   }
 
+  // Validate optional fileSortMissing
+  if (config.fileSortMissing !== undefined && config.fileSortMissing !== "first" && config.fileSortMissing !== "last") {
+    errors.push(`Invalid file sort missing placement: '${config.fileSortMissing}'. Must be one of: first, last`);
+  }
+
+  // Validate optional sort collation
+  if (config.sortCollation !== undefined) {
+    const collation = config.sortCollation;
+    if (typeof collation !== "object" || collation === null) {
+      errors.push("Hierarchy config 'sortCollation' must be an object");
+    } else {
+      if (collation.locale !== undefined) {
+        if (typeof collation.locale !== "string") {
+          errors.push("Sort collation 'locale' must be a string");
+        } else {
+          try {
+            new Intl.Collator(collation.locale);
+          } catch {
+            errors.push(`Invalid sort collation locale: '${collation.locale}'`);
+          }
+        }
+      }
+      if (collation.accentSensitive !== undefined && typeof collation.accentSensitive !== "boolean") {
+        errors.push("Sort collation 'accentSensitive' must be a boolean");
+      }
+      if (collation.caseSensitive !== undefined && typeof collation.caseSensitive !== "boolean") {
+        errors.push("Sort collation 'caseSensitive' must be a boolean");
+      }
+    }
+  }
+
   // Validate that tag levels don't overlap
   if (Array.isArray(config.levels)) {
     // Build array of tag levels with their original indices
@@ -425,6 +1601,134 @@ export function createPropertyLevel(
   } as PropertyHierarchyLevel;
 }
 
+/**
+ * Creates a folder hierarchy level with default values
+ *
+ * @param level - Partial folder hierarchy level
+ * @returns Complete folder hierarchy level with defaults applied
+ */
+export function createFolderLevel(
+  level: Partial<FolderHierarchyLevel> & Pick<FolderHierarchyLevel, "key">
+): FolderHierarchyLevel {
+  return {
+    type: "folder",
+    ...DEFAULT_FOLDER_LEVEL,
+    ...level,
+  } as FolderHierarchyLevel;
+}
+
+/**
+ * Creates a date hierarchy level with default values
+ *
+ * @param level - Partial date hierarchy level
+ * @returns Complete date hierarchy level with defaults applied
+ */
+export function createDateLevel(
+  level: Partial<DateHierarchyLevel> & Pick<DateHierarchyLevel, "key">
+): DateHierarchyLevel {
+  return {
+    type: "date",
+    ...DEFAULT_DATE_LEVEL,
+    ...level,
+  } as DateHierarchyLevel;
+}
+
+/**
+ * Creates a parent-link hierarchy level with default values
+ *
+ * @param level - Partial parent-link hierarchy level
+ * @returns Complete parent-link hierarchy level with defaults applied
+ */
+export function createParentLinkLevel(
+  level: Partial<ParentLinkHierarchyLevel> & Pick<ParentLinkHierarchyLevel, "key">
+): ParentLinkHierarchyLevel {
+  return {
+    type: "parent-link",
+    ...DEFAULT_PARENT_LINK_LEVEL,
+    ...level,
+  } as ParentLinkHierarchyLevel;
+}
+
+/**
+ * Creates a smart-group hierarchy level with default values
+ *
+ * @param level - Partial smart-group hierarchy level
+ * @returns Complete smart-group hierarchy level with defaults applied
+ */
+export function createSmartGroupLevel(
+  level: Partial<SmartGroupHierarchyLevel> & Pick<SmartGroupHierarchyLevel, "key">
+): SmartGroupHierarchyLevel {
+  return {
+    type: "smart-group",
+    ...DEFAULT_SMART_GROUP_LEVEL,
+    ...level,
+  } as SmartGroupHierarchyLevel;
+}
+
+/**
+ * Creates a computed hierarchy level with default values
+ *
+ * @param level - Partial computed hierarchy level
+ * @returns Complete computed hierarchy level with defaults applied
+ */
+export function createComputedLevel(
+  level: Partial<ComputedHierarchyLevel> & Pick<ComputedHierarchyLevel, "key">
+): ComputedHierarchyLevel {
+  return {
+    type: "computed",
+    ...DEFAULT_COMPUTED_LEVEL,
+    ...level,
+  } as ComputedHierarchyLevel;
+}
+
+/**
+ * Creates a regex capture hierarchy level with default values
+ *
+ * @param level - Partial regex hierarchy level
+ * @returns Complete regex hierarchy level with defaults applied
+ */
+export function createRegexLevel(
+  level: Partial<RegexHierarchyLevel> & Pick<RegexHierarchyLevel, "key">
+): RegexHierarchyLevel {
+  return {
+    type: "regex",
+    ...DEFAULT_REGEX_LEVEL,
+    ...level,
+  } as RegexHierarchyLevel;
+}
+
+/**
+ * Creates a task hierarchy level with default values
+ *
+ * @param level - Partial task hierarchy level
+ * @returns Complete task hierarchy level with defaults applied
+ */
+export function createTaskLevel(
+  level: Partial<TaskHierarchyLevel> & Pick<TaskHierarchyLevel, "key">
+): TaskHierarchyLevel {
+  return {
+    type: "task",
+    ...DEFAULT_TASK_LEVEL,
+    ...level,
+  } as TaskHierarchyLevel;
+}
+
+/**
+ * Creates a composite hierarchy level with default values
+ *
+ * @param level - Partial composite hierarchy level
+ * @returns Complete composite hierarchy level with defaults applied
+ */
+export function createCompositeLevel(
+  level: Partial<CompositeHierarchyLevel> & Pick<CompositeHierarchyLevel, "key">
+): CompositeHierarchyLevel {
+  return {
+    type: "composite",
+    ...DEFAULT_COMPOSITE_LEVEL,
+    ...level,
+  } as CompositeHierarchyLevel;
+}
+
 /**
  * Creates a hierarchy level with default values (factory function)
  *
@@ -436,6 +1740,22 @@ export function createHierarchyLevel(
 ): HierarchyLevel {
   if (level.type === "tag") {
     return createTagLevel(level as Partial<TagHierarchyLevel> & Pick<TagHierarchyLevel, "key">);
+  } else if (level.type === "folder") {
+    return createFolderLevel(level as Partial<FolderHierarchyLevel> & Pick<FolderHierarchyLevel, "key">);
+  } else if (level.type === "date") {
+    return createDateLevel(level as Partial<DateHierarchyLevel> & Pick<DateHierarchyLevel, "key">);
+  } else if (level.type === "parent-link") {
+    return createParentLinkLevel(level as Partial<ParentLinkHierarchyLevel> & Pick<ParentLinkHierarchyLevel, "key">);
+  } else if (level.type === "smart-group") {
+    return createSmartGroupLevel(level as Partial<SmartGroupHierarchyLevel> & Pick<SmartGroupHierarchyLevel, "key">);
+  } else if (level.type === "computed") {
+    return createComputedLevel(level as Partial<ComputedHierarchyLevel> & Pick<ComputedHierarchyLevel, "key">);
+  } else if (level.type === "regex") {
+    return createRegexLevel(level as Partial<RegexHierarchyLevel> & Pick<RegexHierarchyLevel, "key">);
+  } else if (level.type === "task") {
+    return createTaskLevel(level as Partial<TaskHierarchyLevel> & Pick<TaskHierarchyLevel, "key">);
+  } else if (level.type === "composite") {
+    return createCompositeLevel(level as Partial<CompositeHierarchyLevel> & Pick<CompositeHierarchyLevel, "key">);
   } else {
     return createPropertyLevel(level as Partial<PropertyHierarchyLevel> & Pick<PropertyHierarchyLevel, "key">);
   }
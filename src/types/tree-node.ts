@@ -1,4 +1,7 @@
-import { TFile } from "obsidian";
+import { HeadingCache, TFile } from "obsidian";
+import { DateGranularity, HierarchyLevel, NodeCountMode, getMissingGroupLabel, getOtherGroupLabel } from "./hierarchy-config";
+import { PropertySource } from "./filters";
+import { isNestedPropertyPath } from "../utils/property-paths";
 
 /**
  * Represents a node in the tag tree hierarchy
@@ -11,7 +14,7 @@ export interface TreeNode {
   name: string;
 
   /** Node type */
-  type: "tag" | "property-group" | "file";
+  type: "tag" | "property-group" | "folder" | "date" | "note" | "smart-group" | "file" | "heading";
 
   /** Child nodes */
   children: TreeNode[];
@@ -25,20 +28,114 @@ export interface TreeNode {
   /** Files at this exact node */
   files: TFile[];
 
-  /** Total files (including descendants) */
+  /** Total files (including descendants), once per group below the node they appear in */
   fileCount: number;
 
+  /** Distinct files (including descendants); set when counts are calculated */
+  uniqueFileCount?: number;
+
+  /** Distinct files under the node that are done, for the view's progress indicator */
+  progress?: {
+    done: number;
+    total: number;
+  };
+
+  /** Values of the view's aggregates over the distinct files under the node (null where no file has a value) */
+  aggregates?: Array<number | null>;
+
   /** Node metadata */
   metadata?: {
     /** Full tag path for tag nodes */
     tagPath?: string;
 
+    /** Full folder path for folder nodes */
+    folderPath?: string;
+
     /** Property name for property nodes */
     propertyKey?: string;
 
     /** Property value for property nodes */
     propertyValue?: any;
 
+    /** Path of the note a resolved link property node points to */
+    linkTarget?: string;
+
+    /** For roll-up property nodes: the link property followed to read the value */
+    rollupVia?: string;
+
+    /** For computed nodes: the template the group key was built from (propertyKey holds the level name) */
+    template?: string;
+
+    /** For regex nodes: the pattern the group key was captured with (propertyKey holds the level name) */
+    capturePattern?: string;
+
+    /** For task nodes: the task state ("open", "done", "none") or status character of the group */
+    taskGroup?: string;
+
+    /** For composite nodes: the value of each key, in label order (propertyKey holds the level name) */
+    compositeValues?: Array<{ key: string; value: string }>;
+
+    /** For property nodes read from inline fields ("inline" or "both"); unset for frontmatter */
+    propertySource?: PropertySource;
+
+    /** True for the group of property values whose links couldn't be resolved */
+    unresolvedLinks?: boolean;
+
+    /** Numeric range for bucketed property nodes (propertyValue holds the range label) */
+    numericRange?: {
+      /** Lower bound (inclusive) and upper bound (exclusive), undefined if open-ended */
+      min?: number;
+      max?: number;
+      /** Distinct values in the view that fall into this range */
+      values: number[];
+    };
+
+    /** For value-mapped property nodes: the distinct raw values in the view mapped to this group */
+    rawValues?: string[];
+
+    /** Calendar bucket for date nodes */
+    dateBucket?: {
+      /** Sortable bucket key (e.g., "2024-03") */
+      key: string;
+      granularity: DateGranularity;
+      /** Bucket start (inclusive) and end (exclusive) timestamps */
+      start: number;
+      end: number;
+      /** Source property name (undefined for file timestamps) */
+      property?: string;
+    };
+
+    /** For smart-group nodes: the group's name and position in the level's group list */
+    smartGroup?: {
+      name: string;
+      index: number;
+    };
+
+    /** For "Other" groups: the number of small groups folded into this node (its children) */
+    otherGroup?: {
+      foldedCount: number;
+    };
+
+    /** For missing groups: the level whose value the group's files lack */
+    missingValue?: {
+      levelType: HierarchyLevel["type"];
+      key: string;
+      /** Whether Obsidian search can express the missing value (e.g., -[status]) */
+      searchable: boolean;
+    };
+
+    /** For heading nodes: the heading's level (1-6) and line in the file */
+    heading?: {
+      level: number;
+      line: number;
+    };
+
+    /** For note nodes: the note already appears above this node in its parent chain */
+    cycle?: boolean;
+
+    /** Value to order by instead of the name in alphabetical sort modes */
+    sortValue?: number;
+
     /** Index of the hierarchy level this node belongs to */
     levelIndex?: number;
 
@@ -46,7 +143,7 @@ export interface TreeNode {
     flattenedPath?: Array<{
       segment: string;
       levelIndex: number;
-      levelType: "tag" | "property";
+      levelType: HierarchyLevel["type"];
     }>;
   };
 
@@ -120,10 +217,12 @@ export function createPropertyGroupNode(
     showPropertyName?: boolean;
     parentId?: string;
     levelIndex?: number;
+    /** Text to show instead of the raw value (e.g., a resolved link's note name) */
+    displayValue?: string;
   }
 ): TreeNode {
   let name: string;
-  const valueName = String(propertyValue);
+  const valueName = options?.displayValue ?? String(propertyValue);
 
   // Determine if we should prepend property name
   if (options?.showPropertyName) {
@@ -157,6 +256,263 @@ export function createPropertyGroupNode(
   };
 }
 
+/**
+ * Factory function to create a folder node
+ */
+export function createFolderNode(
+  folderPath: string,
+  files: TFile[],
+  depth: number,
+  options?: {
+    label?: string;
+    showFullPath?: boolean;
+    parentId?: string;
+    levelIndex?: number;
+  }
+): TreeNode {
+  const segments = folderPath.split("/");
+  let name: string;
+
+  // Determine the folder portion to display
+  const folderName = options?.showFullPath
+    ? folderPath
+    : segments[segments.length - 1];
+
+  // Prepend label if provided and not empty
+  if (options?.label && options.label.trim() !== "") {
+    name = `${options.label}: ${folderName}`;
+  } else {
+    name = folderName;
+  }
+
+  // Create unique ID by including parent context
+  const nodeId = `folder:${folderPath}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name,
+    type: "folder",
+    children: [],
+    depth,
+    files,
+    fileCount: files.length,
+    metadata: {
+      folderPath,
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
+/**
+ * Factory function to create a date bucket node
+ */
+export function createDateNode(
+  bucket: {
+    key: string;
+    granularity: DateGranularity;
+    start: number;
+    end: number;
+    property?: string;
+  },
+  bucketLabel: string,
+  files: TFile[],
+  depth: number,
+  options?: {
+    label?: string;
+    parentId?: string;
+    levelIndex?: number;
+  }
+): TreeNode {
+  // Prepend label if provided and not empty
+  const name = options?.label && options.label.trim() !== ""
+    ? `${options.label}: ${bucketLabel}`
+    : bucketLabel;
+
+  // Create unique ID by including parent context
+  const nodeId = `date:${bucket.property ?? ""}:${bucket.key}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name,
+    type: "date",
+    children: [],
+    depth,
+    files,
+    fileCount: files.length,
+    metadata: {
+      dateBucket: bucket,
+      // Buckets sort chronologically rather than by label
+      sortValue: bucket.start,
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
+/**
+ * Factory function to create a smart-group node
+ * Smart groups are named groups defined by a filter expression (e.g., "Overdue")
+ */
+export function createSmartGroupNode(
+  name: string,
+  index: number,
+  depth: number,
+  options?: {
+    label?: string;
+    parentId?: string;
+    levelIndex?: number;
+  }
+): TreeNode {
+  // Prepend label if provided and not empty
+  const displayName = options?.label && options.label.trim() !== ""
+    ? `${options.label}: ${name}`
+    : name;
+
+  // Create unique ID by including parent context
+  const nodeId = `smart:${name}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name: displayName,
+    type: "smart-group",
+    children: [],
+    depth,
+    files: [],
+    fileCount: 0,
+    metadata: {
+      smartGroup: { name, index },
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
+/**
+ * Factory function to create a missing group node
+ * Collects files that have no value for a level (e.g., "(no status)")
+ */
+export function createMissingValueNode(
+  level: HierarchyLevel,
+  depth: number,
+  options?: {
+    parentId?: string;
+    levelIndex?: number;
+  }
+): TreeNode {
+  // Missing groups take the node type of their level so they are styled and counted alike
+  const type: TreeNode["type"] =
+    level.type === "property" || level.type === "computed" || level.type === "regex" || level.type === "task" ||
+    level.type === "composite"
+      ? "property-group" :
+    level.type === "folder" ? "folder" :
+    level.type === "date" ? "date" :
+    level.type === "smart-group" ? "smart-group" : "tag";
+
+  // Search can only test frontmatter keys, tags and folders that are named
+  let searchable: boolean;
+  if (level.type === "property") {
+    searchable = !level.via && (level.propertySource ?? "frontmatter") === "frontmatter" && !isNestedPropertyPath(level.key);
+  } else if (level.type === "date") {
+    searchable = (level.source ?? "property") === "property" &&
+      (level.propertySource ?? "frontmatter") === "frontmatter" && !isNestedPropertyPath(level.key);
+  } else if (
+    level.type === "smart-group" || level.type === "computed" || level.type === "regex" || level.type === "task" ||
+    level.type === "composite"
+  ) {
+    searchable = false;
+  } else {
+    searchable = level.key.trim() !== "";
+  }
+
+  // Create unique ID by including parent context
+  const nodeId = `missing:${options?.levelIndex ?? 0}:${level.key}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name: getMissingGroupLabel(level),
+    type,
+    children: [],
+    depth,
+    files: [],
+    fileCount: 0,
+    metadata: {
+      missingValue: {
+        levelType: level.type,
+        key: level.key,
+        searchable,
+      },
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
+/**
+ * Factory function to create an "Other" node holding the folded small groups of a level
+ * The node takes the type of the groups it holds, so it is displayed like them
+ */
+export function createOtherGroupNode(
+  level: HierarchyLevel,
+  foldedGroups: TreeNode[],
+  depth: number,
+  options?: {
+    parentId?: string;
+    levelIndex?: number;
+  }
+): TreeNode {
+  const nodeId = `other:${options?.levelIndex ?? 0}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name: getOtherGroupLabel(level, foldedGroups.length),
+    type: foldedGroups[0]?.type ?? "property-group",
+    children: foldedGroups,
+    depth,
+    files: [],
+    fileCount: 0,
+    metadata: {
+      otherGroup: {
+        foldedCount: foldedGroups.length,
+      },
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
+/**
+ * Factory function to create a note node (parent-link hierarchies)
+ * Note nodes represent a note that can contain its child notes
+ */
+export function createNoteNode(
+  file: TFile,
+  depth: number,
+  options?: {
+    parentId?: string;
+    levelIndex?: number;
+    cycle?: boolean;
+  }
+): TreeNode {
+  // Create unique ID by including parent context (a note can appear under several parents)
+  const nodeId = `note:${file.path}`;
+  const id = options?.parentId ? `${options.parentId}/${nodeId}` : nodeId;
+
+  return {
+    id,
+    name: file.basename,
+    type: "note",
+    children: [],
+    depth,
+    files: [file],
+    fileCount: 1,
+    metadata: {
+      cycle: options?.cycle || undefined,
+      levelIndex: options?.levelIndex,
+    },
+  };
+}
+
 /**
  * Factory function to create a file node
  */
@@ -179,3 +535,91 @@ export function createFileNode(
     fileCount: 1,
   };
 }
+
+/**
+ * Factory function to create a heading node (a section of a file)
+ */
+export function createHeadingNode(
+  file: TFile,
+  heading: HeadingCache,
+  depth: number,
+  parentId: string
+): TreeNode {
+  const line = heading.position.start.line;
+
+  return {
+    id: `${parentId}/heading:${line}`,
+    name: heading.heading,
+    type: "heading",
+    children: [],
+    depth,
+    files: [file],
+    fileCount: 0,
+    metadata: {
+      heading: {
+        level: heading.level,
+        line,
+      },
+    },
+  };
+}
+
+/**
+ * Build the heading outline of a file node
+ *
+ * Each heading nests under the closest preceding heading of a lower level;
+ * headings without one sit directly under the file node.
+ *
+ * @param fileNode - File node to attach the outline to
+ * @param headings - Headings of the file, in document order (from cache.headings)
+ * @returns Top-level heading nodes
+ */
+export function createHeadingOutline(
+  fileNode: TreeNode,
+  headings: HeadingCache[]
+): TreeNode[] {
+  const file = fileNode.files[0];
+  const topLevel: TreeNode[] = [];
+  const stack: TreeNode[] = [];
+
+  for (const heading of headings) {
+    while (stack.length > 0 && stack[stack.length - 1].metadata!.heading!.level >= heading.level) {
+      stack.pop();
+    }
+
+    const parent = stack.length > 0 ? stack[stack.length - 1] : fileNode;
+    const node = createHeadingNode(file, heading, parent.depth + 1, parent.id);
+    node.parent = parent;
+
+    if (parent === fileNode) {
+      topLevel.push(node);
+    } else {
+      parent.children.push(node);
+    }
+    stack.push(node);
+  }
+
+  return topLevel;
+}
+
+/**
+ * Get the file count a node shows and is sorted by
+ *
+ * @param node - Node with calculated counts
+ * @param mode - Count each file once per group it appears in ("occurrences") or once ("unique")
+ */
+export function getNodeCount(node: TreeNode, mode: NodeCountMode = "occurrences"): number {
+  return mode === "unique" ? node.uniqueFileCount ?? node.fileCount : node.fileCount;
+}
+
+/**
+ * Get a node's share of done files as a whole percentage
+ *
+ * @returns Percentage (0-100), or null if the node has no progress or no files
+ */
+export function getProgressPercent(node: TreeNode): number | null {
+  if (!node.progress || node.progress.total === 0) {
+    return null;
+  }
+  return Math.round((node.progress.done / node.progress.total) * 100);
+}
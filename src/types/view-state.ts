@@ -30,20 +30,44 @@ export interface ViewState {
 
   /** Runtime display mode override (overrides config default) */
   displayModeOverride?: import("./hierarchy-config").HierarchyDisplayMode;
+
+  /** Group names toggled off in the toolbar, per level (levelIndex → names) */
+  hiddenGroupValues?: Record<number, string[]>;
 }
 
 /**
  * Sort modes for tree nodes (tag/property groups)
+ * Aggregate modes name the index of one of the view's aggregates after a colon (e.g., "aggregate-desc:0").
  */
 export type SortMode =
   | "alpha-asc"
   | "alpha-desc"
+  | "natural-asc"
+  | "natural-desc"
+  | "numeric-asc"
+  | "numeric-desc"
+  | "date-asc"
+  | "date-desc"
   | "count-desc"
   | "count-asc"
-  | "none";
+  | "custom"
+  | "none"
+  | `aggregate-asc:${number}`
+  | `aggregate-desc:${number}`;
+
+/**
+ * Read the aggregate and direction of an aggregate sort mode
+ *
+ * @returns Index of the view's aggregate and direction, or null if the mode doesn't sort by an aggregate
+ */
+export function parseAggregateSortMode(mode: SortMode): { index: number; direction: "asc" | "desc" } | null {
+  const match = mode.match(/^aggregate-(asc|desc):(\d+)$/);
+  return match ? { index: parseInt(match[2], 10), direction: match[1] as "asc" | "desc" } : null;
+}
 
 /**
  * Sort modes for file nodes
+ * Property modes name the property after a colon (e.g., "property-asc:due").
  */
 export type FileSortMode =
   | "alpha-asc"
@@ -54,7 +78,19 @@ export type FileSortMode =
   | "modified-asc"
   | "size-desc"
   | "size-asc"
-  | "none";
+  | "none"
+  | `property-asc:${string}`
+  | `property-desc:${string}`;
+
+/**
+ * Read the property and direction of a property file sort mode
+ *
+ * @returns Property key and direction, or null if the mode doesn't sort by a property
+ */
+export function parsePropertyFileSortMode(mode: FileSortMode): { key: string; direction: "asc" | "desc" } | null {
+  const match = mode.match(/^property-(asc|desc):(.*)$/);
+  return match ? { key: match[2], direction: match[1] as "asc" | "desc" } : null;
+}
 
 /**
  * Default view state
@@ -0,0 +1,110 @@
+import { AggregateFunction, AggregateStat, GroupAggregate } from "../types/hierarchy-config";
+
+/**
+ * Utility functions for aggregate metrics on group nodes
+ *
+ * An aggregate reduces one number per file to one number per group, e.g.
+ * the sum of "estimate" or the latest modified time of the group's files.
+ * In view settings, aggregates are written one per line:
+ *
+ *   sum estimate
+ *   avg wordcount as Average words
+ *   max file.mtime as Last edit
+ */
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ["sum", "avg", "min", "max"];
+const AGGREGATE_STATS: AggregateStat[] = ["mtime", "ctime", "size"];
+
+/**
+ * Reduce values with an aggregate function
+ *
+ * @returns Aggregate value, or null if there are no values
+ */
+export function computeAggregate(values: number[], fn: AggregateFunction): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  switch (fn) {
+    case "sum":
+      return values.reduce((total, value) => total + value, 0);
+    case "avg":
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case "min":
+      return Math.min(...values);
+    case "max":
+      return Math.max(...values);
+  }
+}
+
+/**
+ * Get the label shown before an aggregate's value (e.g., "sum estimate", "max modified")
+ */
+export function getAggregateLabel(aggregate: GroupAggregate): string {
+  if (aggregate.label) {
+    return aggregate.label;
+  }
+
+  const source = aggregate.stat === "mtime" ? "modified"
+    : aggregate.stat === "ctime" ? "created"
+    : aggregate.stat === "size" ? "size"
+    : aggregate.property ?? "";
+  return `${aggregate.function} ${source}`;
+}
+
+/**
+ * Format an aggregate value for display
+ * File times are shown as dates, sizes in KB/MB, other values with up to two decimals.
+ */
+export function formatAggregateValue(value: number, aggregate: GroupAggregate): string {
+  if (aggregate.stat === "mtime" || aggregate.stat === "ctime") {
+    const date = new Date(value);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  if (aggregate.stat === "size") {
+    if (value >= 1024 * 1024) {
+      return `${(value / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    if (value >= 1024) {
+      return `${(value / 1024).toFixed(1)} KB`;
+    }
+    return `${Math.round(value)} B`;
+  }
+
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Parse an aggregate written as "<function> <property or file.mtime|file.ctime|file.size> [as <label>]"
+ *
+ * @returns Aggregate, or null if the line isn't one
+ */
+export function parseAggregateLine(line: string): GroupAggregate | null {
+  const match = line.trim().match(/^(\w+)\s+(\S+)(?:\s+as\s+(.+))?$/i);
+  if (!match || !AGGREGATE_FUNCTIONS.includes(match[1].toLowerCase() as AggregateFunction)) {
+    return null;
+  }
+
+  const aggregate: GroupAggregate = { function: match[1].toLowerCase() as AggregateFunction };
+  const stat = match[2].startsWith("file.") ? match[2].substring(5) : null;
+  if (stat !== null && AGGREGATE_STATS.includes(stat as AggregateStat)) {
+    aggregate.stat = stat as AggregateStat;
+  } else {
+    aggregate.property = match[2];
+  }
+  if (match[3]) {
+    aggregate.label = match[3].trim();
+  }
+
+  return aggregate;
+}
+
+/**
+ * Format an aggregate as a line (inverse of parseAggregateLine)
+ */
+export function formatAggregateLine(aggregate: GroupAggregate): string {
+  const source = aggregate.stat ? `file.${aggregate.stat}` : aggregate.property ?? "";
+  return `${aggregate.function} ${source}${aggregate.label ? ` as ${aggregate.label}` : ""}`;
+}
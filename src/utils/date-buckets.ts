@@ -0,0 +1,237 @@
+import { DateGranularity } from "../types/hierarchy-config";
+
+/**
+ * Utility functions for grouping dates into calendar buckets
+ *
+ * Buckets are computed in local time so that a note dated "2024-03-01"
+ * lands in March regardless of the user's time zone.
+ */
+
+/**
+ * All granularities ordered from coarsest to finest
+ */
+export const DATE_GRANULARITIES: DateGranularity[] = ["year", "quarter", "month", "week", "day"];
+
+/**
+ * Default label format for each granularity
+ * Uses moment-style tokens (see formatDateLabel)
+ */
+export const DEFAULT_DATE_FORMATS: Record<DateGranularity, string> = {
+  year: "YYYY",
+  quarter: "YYYY [Q]Q",
+  month: "YYYY-MM",
+  week: "GGGG-[W]WW",
+  day: "YYYY-MM-DD",
+};
+
+/**
+ * A calendar bucket containing a date
+ */
+export interface DateBucket {
+  /** Sortable key (e.g., "2024", "2024-Q1", "2024-03", "2024-W09", "2024-03-15") */
+  key: string;
+
+  /** Start of the bucket (inclusive, local time) */
+  start: number;
+
+  /** End of the bucket (exclusive, local time) */
+  end: number;
+}
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Left-pad a number with zeros
+ */
+function pad(value: number, length: number = 2): string {
+  let str = String(value);
+  while (str.length < length) {
+    str = "0" + str;
+  }
+  return str;
+}
+
+/**
+ * Get the ISO 8601 week number and week-numbering year of a date
+ * Weeks start on Monday and week 1 contains the first Thursday of the year
+ */
+export function getISOWeek(timestamp: number): { week: number; year: number } {
+  const date = new Date(timestamp);
+  const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayOfWeek = (thursday.getDay() + 6) % 7; // Monday = 0
+  thursday.setDate(thursday.getDate() - dayOfWeek + 3);
+
+  const year = thursday.getFullYear();
+  const firstThursday = new Date(year, 0, 4);
+  const firstDayOfWeek = (firstThursday.getDay() + 6) % 7;
+  firstThursday.setDate(firstThursday.getDate() - firstDayOfWeek + 3);
+
+  // Round to absorb DST shifts between the two dates
+  const week = 1 + Math.round((thursday.getTime() - firstThursday.getTime()) / (7 * 24 * 60 * 60 * 1000));
+  return { week, year };
+}
+
+/**
+ * Get the bucket containing a timestamp at the given granularity
+ */
+export function getDateBucket(timestamp: number, granularity: DateGranularity): DateBucket {
+  const date = new Date(timestamp);
+  const year = date.getFullYear();
+  const month = date.getMonth();
+
+  switch (granularity) {
+    case "year":
+      return {
+        key: String(year),
+        start: new Date(year, 0, 1).getTime(),
+        end: new Date(year + 1, 0, 1).getTime(),
+      };
+
+    case "quarter": {
+      const quarter = Math.floor(month / 3);
+      return {
+        key: `${year}-Q${quarter + 1}`,
+        start: new Date(year, quarter * 3, 1).getTime(),
+        end: new Date(year, quarter * 3 + 3, 1).getTime(),
+      };
+    }
+
+    case "month":
+      return {
+        key: `${year}-${pad(month + 1)}`,
+        start: new Date(year, month, 1).getTime(),
+        end: new Date(year, month + 1, 1).getTime(),
+      };
+
+    case "week": {
+      const { week, year: weekYear } = getISOWeek(timestamp);
+      const dayOfWeek = (date.getDay() + 6) % 7; // Monday = 0
+      const monday = new Date(year, month, date.getDate() - dayOfWeek);
+      return {
+        key: `${weekYear}-W${pad(week)}`,
+        start: monday.getTime(),
+        end: new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 7).getTime(),
+      };
+    }
+
+    case "day":
+    default:
+      return {
+        key: `${year}-${pad(month + 1)}-${pad(date.getDate())}`,
+        start: new Date(year, month, date.getDate()).getTime(),
+        end: new Date(year, month, date.getDate() + 1).getTime(),
+      };
+  }
+}
+
+/**
+ * Format a timestamp using moment-style tokens
+ *
+ * Supported tokens:
+ * - YYYY, YY: year
+ * - GGGG: ISO week-numbering year
+ * - Q: quarter (1-4)
+ * - MMMM, MMM, MM, M: month name, short name, padded, number
+ * - WW, W: ISO week (padded, number)
+ * - DD, D: day of month (padded, number)
+ * - dddd, ddd: weekday name, short name
+ * - [text]: literal text
+ */
+export function formatDateLabel(timestamp: number, format: string): string {
+  const date = new Date(timestamp);
+  const isoWeek = getISOWeek(timestamp);
+
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|GGGG|MMMM|dddd|MMM|ddd|YY|MM|WW|DD|Q|M|W|D/g,
+    (token: string, literal?: string) => {
+      if (literal !== undefined) {
+        return literal;
+      }
+
+      switch (token) {
+        case "YYYY":
+          return String(date.getFullYear());
+        case "YY":
+          return pad(date.getFullYear() % 100);
+        case "GGGG":
+          return String(isoWeek.year);
+        case "Q":
+          return String(Math.floor(date.getMonth() / 3) + 1);
+        case "MMMM":
+          return MONTH_NAMES[date.getMonth()];
+        case "MMM":
+          return MONTH_NAMES[date.getMonth()].substring(0, 3);
+        case "MM":
+          return pad(date.getMonth() + 1);
+        case "M":
+          return String(date.getMonth() + 1);
+        case "WW":
+          return pad(isoWeek.week);
+        case "W":
+          return String(isoWeek.week);
+        case "DD":
+          return pad(date.getDate());
+        case "D":
+          return String(date.getDate());
+        case "dddd":
+          return DAY_NAMES[date.getDay()];
+        case "ddd":
+          return DAY_NAMES[date.getDay()].substring(0, 3);
+        default:
+          return token;
+      }
+    }
+  );
+}
+
+/**
+ * Parse a property value into a timestamp
+ *
+ * Supports:
+ * - Numbers (treated as timestamps)
+ * - Date objects
+ * - ISO dates ("2024-03-15") interpreted in local time
+ * - ISO date-times ("2024-03-15T10:30") and other strings accepted by Date
+ *
+ * @returns Timestamp, or null if the value is not a date
+ */
+export function parseDateValue(value: any): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  if (typeof value === "number") {
+    return isFinite(value) ? value : null;
+  }
+
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return isNaN(time) ? null : time;
+  }
+
+  const str = String(value).trim();
+
+  // Plain dates are parsed as local midnight (Date would treat them as UTC)
+  const dateOnly = str.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const date = new Date(
+      parseInt(dateOnly[1], 10),
+      parseInt(dateOnly[2], 10) - 1,
+      parseInt(dateOnly[3], 10)
+    );
+    return date.getTime();
+  }
+
+  // Require something date-like to avoid treating plain numbers/words as dates
+  if (!/^\d{4}-\d{2}/.test(str)) {
+    return null;
+  }
+
+  const parsed = new Date(str);
+  return isNaN(parsed.getTime()) ? null : parsed.getTime();
+}
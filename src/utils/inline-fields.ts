@@ -0,0 +1,106 @@
+/**
+ * Utility functions for Dataview-style inline fields in note bodies
+ *
+ * Supported syntax:
+ * - Line fields: "status:: active" (also inside list items and blockquotes)
+ * - Bracket fields (optional): "[status:: active]" and "(status:: active)" anywhere in a line
+ *
+ * Frontmatter and fenced code blocks are skipped.
+ */
+
+/**
+ * Options for parsing inline fields
+ */
+export interface InlineFieldOptions {
+  /** Whether to also parse [key:: value] and (key:: value) fields */
+  brackets: boolean;
+}
+
+// "key:: value" on its own line, optionally after a list marker, task checkbox or quote
+const LINE_FIELD_PATTERN =
+  /^\s*(?:>\s*)*(?:(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?)?(?:\*\*|__)?([A-Za-z0-9_][\w \-/]*?)(?:\*\*|__)?::\s*(.*?)\s*$/;
+
+// "[key:: value]" or "(key:: value)" inside a line
+const BRACKET_FIELD_PATTERN = /[\[(]([A-Za-z0-9_][\w \-/]*?)::\s*([^\]\)]*?)\s*[\])]/g;
+
+/**
+ * Add a field value, turning repeated keys into lists
+ */
+function addFieldValue(fields: Record<string, any>, key: string, value: string): void {
+  const trimmedKey = key.trim();
+  if (trimmedKey === "" || value === "") {
+    return;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(fields, trimmedKey)) {
+    fields[trimmedKey] = value;
+  } else if (Array.isArray(fields[trimmedKey])) {
+    fields[trimmedKey].push(value);
+  } else {
+    fields[trimmedKey] = [fields[trimmedKey], value];
+  }
+}
+
+/**
+ * Parse inline fields from note content
+ *
+ * @param content - Full note content (including frontmatter, which is skipped)
+ * @param options - Parsing options
+ * @returns Map of field name to value (a list when the field appears several times)
+ */
+export function parseInlineFields(
+  content: string,
+  options: InlineFieldOptions = { brackets: false }
+): Record<string, any> {
+  // No prototype, so keys like "constructor" or "__proto__" are plain fields
+  const fields: Record<string, any> = Object.create(null);
+  const lines = content.split(/\r?\n/);
+
+  let index = 0;
+
+  // Skip frontmatter
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end !== -1) {
+      index = end + 1;
+    }
+  }
+
+  let inCodeBlock = false;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    // Skip fenced code blocks
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      continue;
+    }
+
+    if (options.brackets) {
+      let bracketMatch: RegExpExecArray | null;
+      let foundBracketField = false;
+      BRACKET_FIELD_PATTERN.lastIndex = 0;
+
+      while ((bracketMatch = BRACKET_FIELD_PATTERN.exec(line)) !== null) {
+        addFieldValue(fields, bracketMatch[1], bracketMatch[2]);
+        foundBracketField = true;
+      }
+
+      // A line with bracket fields isn't also read as a line field
+      if (foundBracketField) {
+        continue;
+      }
+    }
+
+    const lineMatch = line.match(LINE_FIELD_PATTERN);
+    if (lineMatch) {
+      addFieldValue(fields, lineMatch[1], lineMatch[2]);
+    }
+  }
+
+  return fields;
+}
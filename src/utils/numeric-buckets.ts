@@ -0,0 +1,153 @@
+import { NumericBucketing } from "../types/hierarchy-config";
+
+/**
+ * Utility functions for grouping numeric property values into ranges
+ *
+ * Ranges are half-open: a bucket "1-5" contains values >= 1 and < 5.
+ */
+
+/**
+ * A numeric range containing a value
+ */
+export interface NumericBucket {
+  /** Display label (e.g., "<0", "0-10", "5+") */
+  label: string;
+
+  /** Lower bound (inclusive), undefined if open-ended */
+  min?: number;
+
+  /** Upper bound (exclusive), undefined if open-ended */
+  max?: number;
+}
+
+/**
+ * Format a bucket boundary without floating point noise
+ */
+export function formatBucketBoundary(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+/**
+ * Parse a property value into a number
+ *
+ * Supports numbers and numeric strings ("3", "-1.5").
+ *
+ * @returns Number, or null if the value is not numeric
+ */
+export function parseNumericValue(value: any): number | null {
+  if (typeof value === "number") {
+    return isFinite(value) ? value : null;
+  }
+
+  if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+    return parseFloat(value);
+  }
+
+  return null;
+}
+
+/**
+ * Compute quantile breakpoints for a set of values
+ *
+ * The first breakpoint is the smallest value, so every value lands in a bucket.
+ * Duplicate breakpoints are removed, which can yield fewer buckets than requested
+ * when many values are equal.
+ *
+ * @param values - Numeric values to split
+ * @param count - Number of quantile buckets (e.g., 4 = quartiles)
+ * @returns Ascending breakpoints (empty if there are no values)
+ */
+export function computeQuantileBreakpoints(values: number[], count: number): number[] {
+  if (values.length === 0) {
+    return [];
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const breakpoints: number[] = [sorted[0]];
+
+  for (let i = 1; i < count; i++) {
+    const boundary = sorted[Math.floor((i * sorted.length) / count)];
+    if (boundary > breakpoints[breakpoints.length - 1]) {
+      breakpoints.push(boundary);
+    }
+  }
+
+  return breakpoints;
+}
+
+/**
+ * Get the bucket containing a value for ascending breakpoints
+ * Breakpoints [0, 1, 5] produce the buckets "<0", "0-1", "1-5" and "5+"
+ */
+export function getBreakpointBucket(value: number, breakpoints: number[]): NumericBucket | null {
+  if (breakpoints.length === 0) {
+    return null;
+  }
+
+  if (value < breakpoints[0]) {
+    return {
+      label: `<${formatBucketBoundary(breakpoints[0])}`,
+      max: breakpoints[0],
+    };
+  }
+
+  for (let i = 0; i < breakpoints.length - 1; i++) {
+    if (value < breakpoints[i + 1]) {
+      return {
+        label: `${formatBucketBoundary(breakpoints[i])}-${formatBucketBoundary(breakpoints[i + 1])}`,
+        min: breakpoints[i],
+        max: breakpoints[i + 1],
+      };
+    }
+  }
+
+  const last = breakpoints[breakpoints.length - 1];
+  return {
+    label: `${formatBucketBoundary(last)}+`,
+    min: last,
+  };
+}
+
+/**
+ * Get the fixed-width bin containing a value
+ * Bins start at the origin (default 0), e.g. width 10 gives "0-10", "10-20", ...
+ */
+export function getWidthBucket(value: number, width: number, origin: number = 0): NumericBucket | null {
+  if (!(width > 0)) {
+    return null;
+  }
+
+  const index = Math.floor((value - origin) / width);
+  const min = origin + index * width;
+  const max = min + width;
+
+  return {
+    label: `${formatBucketBoundary(min)}-${formatBucketBoundary(max)}`,
+    min,
+    max,
+  };
+}
+
+/**
+ * Get the bucket containing a value for a bucketing configuration
+ *
+ * @param value - Numeric value
+ * @param bucketing - Bucketing configuration
+ * @param quantileBreakpoints - Breakpoints computed by computeQuantileBreakpoints (quantiles mode only)
+ * @returns Bucket, or null if the configuration can't place the value
+ */
+export function getNumericBucket(
+  value: number,
+  bucketing: NumericBucketing,
+  quantileBreakpoints: number[] = []
+): NumericBucket | null {
+  if (bucketing.mode === "width") {
+    return getWidthBucket(value, bucketing.width ?? 0, bucketing.origin ?? 0);
+  } else if (bucketing.mode === "breakpoints") {
+    return getBreakpointBucket(value, bucketing.breakpoints || []);
+  } else if (bucketing.mode === "quantiles") {
+    return getBreakpointBucket(value, quantileBreakpoints);
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for wikilinks stored in frontmatter properties
+ *
+ * Obsidian stores links in properties as plain strings (e.g., "[[Alpha|A]]"),
+ * so they have to be parsed before they can be resolved with the metadata cache.
+ */
+
+/**
+ * A parsed wikilink
+ */
+export interface ParsedWikilink {
+  /** Link path without subpath or display text (e.g., "Projects/Alpha") */
+  linkpath: string;
+
+  /** Heading or block reference (e.g., "#Goals"), if any */
+  subpath?: string;
+
+  /** Display text after the pipe (e.g., "A" in "[[Alpha|A]]"), if any */
+  displayText?: string;
+}
+
+/**
+ * Parse a property value as a wikilink
+ *
+ * Supports "[[Alpha]]", "[[Projects/Alpha|A]]", "[[Alpha#Goals]]" and "[[Alpha^block]]".
+ * Embeds ("![[Alpha]]") are treated like links.
+ *
+ * @returns Parsed link, or null if the value is not a single wikilink
+ */
+export function parseWikilink(value: any): ParsedWikilink | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value.trim().match(/^!?\[\[([^\[\]]+)\]\]$/);
+  if (!match) {
+    return null;
+  }
+
+  let target = match[1];
+  let displayText: string | undefined;
+
+  const pipeIndex = target.indexOf("|");
+  if (pipeIndex !== -1) {
+    displayText = target.substring(pipeIndex + 1).trim() || undefined;
+    target = target.substring(0, pipeIndex);
+  }
+
+  let subpath: string | undefined;
+  const subpathIndex = target.search(/[#^]/);
+  if (subpathIndex !== -1) {
+    subpath = target.substring(subpathIndex);
+    target = target.substring(0, subpathIndex);
+  }
+
+  const linkpath = target.trim();
+  if (linkpath === "") {
+    return null;
+  }
+
+  return { linkpath, subpath, displayText };
+}
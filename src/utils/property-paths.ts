@@ -0,0 +1,165 @@
+/**
+ * Utility functions for nested property paths
+ *
+ * Frontmatter can hold objects and lists of objects:
+ *
+ *   meta:
+ *     owner: alice
+ *     review: { state: done }
+ *   items:
+ *     - name: Alpha
+ *     - name: Beta
+ *
+ * Dot paths address nested values ("meta.review.state"), and "[]" maps
+ * over a list of objects ("items[].name" → ["Alpha", "Beta"]).
+ */
+
+/**
+ * A segment of a property path
+ */
+export interface PropertyPathSegment {
+  /** Object key to read */
+  key: string;
+
+  /** Whether the value is a list to map over ("items[]") */
+  each: boolean;
+}
+
+// A key without dots or brackets, optionally followed by "[]"
+const SEGMENT_PATTERN = /^([^.\[\]]+)(\[\])?$/;
+
+/**
+ * Check whether a property key uses path syntax ("." or "[]")
+ */
+export function isNestedPropertyPath(path: string): boolean {
+  return /[.\[\]]/.test(path);
+}
+
+/**
+ * Parse a property path into segments
+ *
+ * @returns Segments, or null if the path is malformed (e.g., "meta..state", "items[0]")
+ */
+export function parsePropertyPath(path: string): PropertyPathSegment[] | null {
+  const segments: PropertyPathSegment[] = [];
+
+  for (const part of path.split(".")) {
+    const match = part.trim().match(SEGMENT_PATTERN);
+    if (!match) {
+      return null;
+    }
+    segments.push({ key: match[1].trim(), each: match[2] !== undefined });
+  }
+
+  return segments;
+}
+
+/**
+ * Validate property path syntax
+ *
+ * @returns Error message, or null if the path is valid
+ */
+export function validatePropertyPath(path: string): string | null {
+  if (!isNestedPropertyPath(path)) {
+    return null;
+  }
+
+  if (!parsePropertyPath(path)) {
+    return `Invalid property path: '${path}'. Use dot-separated keys (e.g., 'meta.review.state') and '[]' for lists of objects (e.g., 'items[].name')`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a value is a plain object (not a list, not null)
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a property by key or path
+ *
+ * A key that exists as-is wins over path lookup, so properties with dots
+ * in their name keep working. Paths through "[]" yield a list of the
+ * values found (or the single value if there is only one).
+ *
+ * @param properties - Property map of a file
+ * @param path - Property key or path (e.g., "meta.review.state", "items[].name")
+ * @returns Value, or undefined if the path doesn't resolve
+ */
+export function getPropertyByPath(properties: Record<string, any>, path: string): any {
+  if (path in properties || !isNestedPropertyPath(path)) {
+    return properties[path];
+  }
+
+  const segments = parsePropertyPath(path);
+  if (!segments) {
+    return undefined;
+  }
+
+  let current: any[] = [properties];
+  let mapped = false;
+
+  for (const segment of segments) {
+    const next: any[] = [];
+
+    for (const value of current) {
+      if (!isPlainObject(value) || value[segment.key] === undefined || value[segment.key] === null) {
+        continue;
+      }
+
+      const child = value[segment.key];
+      if (segment.each) {
+        if (Array.isArray(child)) {
+          next.push(...child);
+        }
+      } else {
+        next.push(child);
+      }
+    }
+
+    mapped = mapped || segment.each;
+    current = next;
+  }
+
+  if (current.length === 0) {
+    return undefined;
+  }
+
+  if (!mapped) {
+    return current[0];
+  }
+
+  // Flatten list values found inside mapped objects (e.g., "items[].tags")
+  const values = current.flatMap((value) => (Array.isArray(value) ? value : [value]));
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Expand a property into the path/value pairs to index
+ *
+ * Objects are expanded into their leaf paths ("meta.review.state") and lists
+ * of objects are mapped ("items[].name"), so nested values don't end up
+ * indexed as "[object Object]". Other values are returned as-is.
+ *
+ * @param key - Top-level property key
+ * @param value - Property value
+ * @returns Pairs of property path and value
+ */
+export function flattenPropertyValue(key: string, value: any): Array<[string, any]> {
+  if (isPlainObject(value)) {
+    return Object.entries(value).flatMap(([childKey, childValue]) =>
+      flattenPropertyValue(`${key}.${childKey}`, childValue)
+    );
+  }
+
+  if (Array.isArray(value) && value.some(isPlainObject)) {
+    return value.flatMap((item) =>
+      isPlainObject(item) ? flattenPropertyValue(`${key}[]`, item) : []
+    );
+  }
+
+  return [[key, value]];
+}
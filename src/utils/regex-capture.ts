@@ -0,0 +1,85 @@
+/**
+ * Utility functions for grouping by a regex capture from a file name or path
+ *
+ * Example: "(?<date>\d{4}-\d{2}-\d{2}) Meeting - (?<client>.+)" applied to
+ * "2024-03-12 Meeting - ClientX" captures client = "ClientX".
+ */
+
+/**
+ * Compile a capture pattern
+ *
+ * @param pattern - Regular expression source (without slashes)
+ * @param ignoreCase - Whether matching ignores case
+ * @returns Compiled expression, or null if the pattern is invalid
+ */
+export function compileCapturePattern(pattern: string, ignoreCase: boolean = false): RegExp | null {
+  try {
+    return new RegExp(pattern, ignoreCase ? "i" : "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the names of the named capture groups in a pattern
+ */
+export function getCaptureGroupNames(pattern: string): string[] {
+  const names: string[] = [];
+  const namePattern = /\(\?<([A-Za-z_$][\w$]*)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = namePattern.exec(pattern)) !== null) {
+    names.push(match[1]);
+  }
+
+  return names;
+}
+
+/**
+ * Validate a capture pattern and the group to read
+ *
+ * @param pattern - Regular expression source
+ * @param group - Named capture group (optional)
+ * @returns Error message, or null if valid
+ */
+export function validateCapturePattern(pattern: string, group?: string): string | null {
+  if (!compileCapturePattern(pattern)) {
+    return `Invalid regular expression: '${pattern}'`;
+  }
+
+  if (group && !getCaptureGroupNames(pattern).includes(group)) {
+    return `Pattern has no capture group named '${group}' (use (?<${group}>...))`;
+  }
+
+  return null;
+}
+
+/**
+ * Read a capture from text
+ *
+ * Without a group name, the first named group is used, then the first
+ * numbered group, then the whole match.
+ *
+ * @param text - Text to match (e.g., a file's basename)
+ * @param regex - Compiled pattern
+ * @param group - Named capture group (optional)
+ * @returns Trimmed capture, or null if the pattern doesn't match or the capture is empty
+ */
+export function getRegexCapture(text: string, regex: RegExp, group?: string): string | null {
+  const match = regex.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  let value: string | undefined;
+  if (group) {
+    value = match.groups?.[group];
+  } else if (match.groups && Object.keys(match.groups).length > 0) {
+    value = Object.values(match.groups)[0];
+  } else {
+    value = match.length > 1 ? match[1] : match[0];
+  }
+
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
@@ -1,5 +1,6 @@
 import { TreeNode } from "../types/tree-node";
 import { HierarchyConfig, HierarchyLevel, PropertyHierarchyLevel } from "../types/hierarchy-config";
+import { isNestedPropertyPath } from "./property-paths";
 
 /**
  * Builds an Obsidian search query from a tree node
@@ -12,6 +13,8 @@ import { HierarchyConfig, HierarchyLevel, PropertyHierarchyLevel } from "../type
  * Examples:
  * - Tag node: "tag:#project/backend/api"
  * - Property node: "[status:active]"
+ * - Folder node: "path:\"Projects/Alpha/\""
+ * - Date node: "[due:2024-03]"
  * - Combined: "tag:#project/backend [status:active] [priority:high]"
  */
 export class SearchQueryBuilder {
@@ -31,6 +34,12 @@ export class SearchQueryBuilder {
     // Traverse from node to root, collecting filters
     let currentNode: TreeNode | undefined = node;
     while (currentNode) {
+      // Below an "Other" group, the folded group's own filter is narrower than the group's
+      if (currentNode !== node && currentNode.metadata?.otherGroup) {
+        currentNode = currentNode.parent;
+        continue;
+      }
+
       const filter = this.buildNodeFilter(currentNode);
       if (filter) {
         // Add to the beginning to maintain hierarchy order (root -> leaf)
@@ -47,15 +56,74 @@ export class SearchQueryBuilder {
    * Build a filter for a single node
    */
   private buildNodeFilter(node: TreeNode): string | null {
-    if (node.type === "tag") {
+    if (node.metadata?.otherGroup) {
+      return this.buildOtherFilter(node);
+    } else if (node.metadata?.missingValue) {
+      return this.buildMissingFilter(node);
+    } else if (node.type === "tag") {
       return this.buildTagFilter(node);
     } else if (node.type === "property-group") {
       return this.buildPropertyFilter(node);
+    } else if (node.type === "folder") {
+      return this.buildFolderFilter(node);
+    } else if (node.type === "date") {
+      return this.buildDateFilter(node);
     }
     // File nodes don't contribute to search query
     return null;
   }
 
+  /**
+   * Build a filter for an "Other" group: any of the folded groups
+   * Format: ([author:Ann] OR [author:Bob])
+   *
+   * If one of the folded groups has no search equivalent, neither has the group.
+   */
+  private buildOtherFilter(node: TreeNode): string | null {
+    const groupFilters: string[] = [];
+
+    for (const group of node.children) {
+      if (group.type === "file") {
+        continue;
+      }
+
+      const filter = this.buildNodeFilter(group);
+      if (!filter) {
+        return null;
+      }
+      groupFilters.push(filter);
+    }
+
+    if (groupFilters.length === 0) {
+      return null;
+    }
+    return groupFilters.length === 1 ? groupFilters[0] : `(${groupFilters.join(" OR ")})`;
+  }
+
+  /**
+   * Build a filter for a missing group (files without a value)
+   * Format: -[propertyKey], -tag:#path, -path:"folder/"
+   *
+   * Levels without a key (all tags/folders), roll-ups and inline fields
+   * have no search equivalent.
+   */
+  private buildMissingFilter(node: TreeNode): string | null {
+    const missing = node.metadata?.missingValue;
+    if (!missing || !missing.searchable) {
+      return null;
+    }
+
+    if (missing.levelType === "property" || missing.levelType === "date") {
+      return `-[${missing.key}]`;
+    } else if (missing.levelType === "tag") {
+      return `-tag:#${missing.key}`;
+    } else if (missing.levelType === "folder") {
+      return `-path:"${missing.key.replace(/^\/+|\/+$/g, "")}/"`;
+    }
+
+    return null;
+  }
+
   /**
    * Build a tag filter
    * Format: tag:#path/to/tag
@@ -70,6 +138,45 @@ export class SearchQueryBuilder {
     return `tag:#${tagPath}`;
   }
 
+  /**
+   * Build a folder filter
+   * Format: path:"path/to/folder/"
+   *
+   * The trailing slash keeps sibling folders with a common prefix
+   * (e.g., "Projects/Alpha" vs "Projects/AlphaBeta") out of the results.
+   */
+  private buildFolderFilter(node: TreeNode): string | null {
+    const folderPath = node.metadata?.folderPath;
+    if (!folderPath) {
+      return null;
+    }
+
+    // Use Obsidian's path search syntax
+    return `path:"${folderPath}/"`;
+  }
+
+  /**
+   * Build a date filter
+   * Format: [propertyKey:bucketKey]
+   *
+   * Only year, month and day buckets of date properties can be searched:
+   * their keys ("2024", "2024-03", "2024-03-15") are prefixes of ISO dates.
+   * Quarter/week buckets, file timestamps, inline fields and nested
+   * properties have no search equivalent.
+   */
+  private buildDateFilter(node: TreeNode): string | null {
+    const bucket = node.metadata?.dateBucket;
+    if (!bucket || !bucket.property || isNestedPropertyPath(bucket.property)) {
+      return null;
+    }
+
+    if (bucket.granularity !== "year" && bucket.granularity !== "month" && bucket.granularity !== "day") {
+      return null;
+    }
+
+    return `[${bucket.property}:${bucket.key}]`;
+  }
+
   /**
    * Build a property filter
    * Format: [propertyKey:propertyValue]
@@ -77,8 +184,31 @@ export class SearchQueryBuilder {
    * Handles list properties based on the separateListValues setting:
    * - If separateListValues is true: each value is treated separately
    * - If separateListValues is false: the entire list is treated as one value
+   *
+   * Numeric bucket nodes match any of the values in their range:
+   * ([propertyKey:1] OR [propertyKey:2])
+   *
+   * Value-mapped nodes match any of the raw values mapped to them:
+   * ([status:Done] OR [status:completed])
+   *
+   * Resolved link nodes match by the target's name, which covers aliased
+   * and path-qualified links: [propertyKey:Alpha]
+   *
+   * Composite nodes match each of their keys: [client:ClientX] [project:Alpha]
+   *
+   * Roll-up nodes add no filter: the value lives on the linked notes,
+   * which Obsidian search can't follow. Neither do computed, regex and
+   * task nodes, whose key doesn't exist as a property.
    */
   private buildPropertyFilter(node: TreeNode): string | null {
+    const compositeValues = node.metadata?.compositeValues;
+    if (compositeValues) {
+      if (node.metadata?.propertySource || compositeValues.some(({ key }) => isNestedPropertyPath(key))) {
+        return null;
+      }
+      return compositeValues.map(({ key, value }) => `[${key}:${value}]`).join(" ");
+    }
+
     const propertyKey = node.metadata?.propertyKey;
     const propertyValue = node.metadata?.propertyValue;
 
@@ -86,6 +216,42 @@ export class SearchQueryBuilder {
       return null;
     }
 
+    if (node.metadata?.rollupVia || node.metadata?.propertySource || node.metadata?.template ||
+        node.metadata?.capturePattern || node.metadata?.taskGroup !== undefined) {
+      return null;
+    }
+
+    // Obsidian search can't address nested values
+    if (isNestedPropertyPath(propertyKey)) {
+      return null;
+    }
+
+    // Link groups: search by target name; unresolved links have no common value
+    if (node.metadata?.linkTarget) {
+      const targetName = node.metadata.linkTarget.split("/").pop()!.replace(/\.md$/, "");
+      return `[${propertyKey}:${targetName}]`;
+    }
+    if (node.metadata?.unresolvedLinks) {
+      return null;
+    }
+
+    // Mapped groups: the files hold the raw values, not the canonical one
+    const rawValues = node.metadata?.rawValues;
+    if (rawValues && rawValues.length > 0) {
+      const valueFilters = rawValues.map((value) => `[${propertyKey}:${value}]`);
+      return valueFilters.length === 1 ? valueFilters[0] : `(${valueFilters.join(" OR ")})`;
+    }
+
+    // Obsidian search has no range syntax, so list the values seen in the bucket
+    const numericRange = node.metadata?.numericRange;
+    if (numericRange) {
+      if (numericRange.values.length === 0) {
+        return null;
+      }
+      const valueFilters = numericRange.values.map((value) => `[${propertyKey}:${value}]`);
+      return valueFilters.length === 1 ? valueFilters[0] : `(${valueFilters.join(" OR ")})`;
+    }
+
     // Find the corresponding hierarchy level to check separateListValues setting
     const hierarchyLevel = this.findPropertyLevel(node);
     const separateListValues = hierarchyLevel?.separateListValues ?? true;
@@ -0,0 +1,87 @@
+/**
+ * Utility functions for task counts by status character
+ *
+ * Tasks are list items with a status marker: "- [ ] open", "- [x] done",
+ * and custom markers such as "- [/] in progress" or "- [-] cancelled".
+ * Counts are kept per file as status character → number of tasks.
+ */
+
+/**
+ * Status characters counted as open by default (" " = to do, "/" = in progress)
+ * Every other character counts as done.
+ */
+export const DEFAULT_OPEN_TASK_STATUSES = " /";
+
+/**
+ * Overall task state of a file
+ * - open: at least one open task
+ * - done: has tasks, none of them open
+ * - none: no tasks
+ */
+export type TaskState = "open" | "done" | "none";
+
+/**
+ * Default group names of task states
+ */
+export const TASK_STATE_LABELS: Record<TaskState, string> = {
+  open: "Open tasks",
+  done: "All done",
+  none: "No tasks",
+};
+
+/**
+ * Which tasks to count: all, open, done, or a single status character
+ */
+export type TaskStatusSelector = "all" | "open" | "done" | string;
+
+/**
+ * Count the tasks matching a selector
+ *
+ * @param counts - Task counts by status character
+ * @param selector - "all", "open", "done", or a status character (e.g., "/")
+ * @param openStatuses - Characters counted as open
+ * @returns Number of matching tasks
+ */
+export function countTasks(
+  counts: Record<string, number>,
+  selector: TaskStatusSelector,
+  openStatuses: string = DEFAULT_OPEN_TASK_STATUSES
+): number {
+  let total = 0;
+
+  for (const [status, count] of Object.entries(counts)) {
+    const matches =
+      selector === "all" ||
+      (selector === "open" && openStatuses.includes(status)) ||
+      (selector === "done" && !openStatuses.includes(status)) ||
+      selector === status;
+    if (matches) {
+      total += count;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Get the overall task state of a file
+ *
+ * @param counts - Task counts by status character
+ * @param openStatuses - Characters counted as open
+ */
+export function getTaskState(
+  counts: Record<string, number>,
+  openStatuses: string = DEFAULT_OPEN_TASK_STATUSES
+): TaskState {
+  if (countTasks(counts, "all") === 0) {
+    return "none";
+  }
+  return countTasks(counts, "open", openStatuses) > 0 ? "open" : "done";
+}
+
+/**
+ * Format a status character as its marker (e.g., "/" → "[/]")
+ */
+export function formatTaskStatus(status: string): string {
+  return `[${status}]`;
+}
@@ -0,0 +1,458 @@
+import { formatDateLabel, parseDateValue } from "./date-buckets";
+
+/**
+ * Template language for computed group keys (and other labels built from file data)
+ *
+ * A template is text with ${...} placeholders:
+ *
+ *   ${client} / ${year(due)}
+ *   ${priority ?? "P3"}
+ *   ${lower(first(tags))} (${file.folder})
+ *
+ * Inside a placeholder:
+ * - Property references: "status", "meta.review.state", "items[].name"
+ * - prop("key") for keys that aren't plain names (spaces, reserved names)
+ * - File fields: file.name, file.basename, file.path, file.folder, file.ext,
+ *   file.ctime, file.mtime, file.size
+ * - tags: the file's tags (without "#")
+ * - String ("text", 'text') and number literals
+ * - a ?? b: a, or b if a has no value
+ * - Function calls (see TEMPLATE_FUNCTIONS)
+ *
+ * Templates are parsed into a small AST and interpreted; nothing is passed
+ * to eval or Function. Write "\$" for a literal "$".
+ */
+
+export type TemplateExpression =
+  | { type: "literal"; value: string | number }
+  | { type: "reference"; path: string }
+  | { type: "call"; name: string; args: TemplateExpression[] }
+  | { type: "coalesce"; left: TemplateExpression; right: TemplateExpression };
+
+export type TemplatePart =
+  | { type: "text"; value: string }
+  | { type: "expression"; expression: TemplateExpression };
+
+export interface TemplateParseResult {
+  parts: TemplatePart[] | null;
+  errors: string[];
+}
+
+/**
+ * Data a template is evaluated against
+ */
+export interface TemplateContext {
+  /** Read a property by key or path (undefined if missing) */
+  getProperty(path: string): any;
+
+  /** Read a file field (name, basename, path, folder, ext, ctime, mtime, size) */
+  getFileField(field: string): any;
+
+  /** The file's tags without "#" */
+  getTags(): string[];
+}
+
+/**
+ * File fields available as file.<field>
+ */
+export const TEMPLATE_FILE_FIELDS = ["name", "basename", "path", "folder", "ext", "ctime", "mtime", "size"];
+
+type TemplateFunction = {
+  /** Allowed argument counts */
+  minArgs: number;
+  maxArgs: number;
+  /** Apply to argument values (undefined = no value) */
+  apply: (args: any[], context: TemplateContext) => any;
+};
+
+/**
+ * Apply a scalar function to a value, or to each item of a list
+ */
+function mapValue(value: any, fn: (item: any) => any): any {
+  if (Array.isArray(value)) {
+    return value.map(fn).filter((item) => hasValue(item));
+  }
+  return hasValue(value) ? fn(value) : undefined;
+}
+
+/**
+ * Build a function formatting a date value with a date-bucket format
+ */
+function dateFunction(format: string): TemplateFunction {
+  return {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) =>
+      mapValue(value, (item) => {
+        const timestamp = parseDateValue(item);
+        return timestamp !== null ? formatDateLabel(timestamp, format) : undefined;
+      }),
+  };
+}
+
+/**
+ * Functions available in templates
+ */
+const TEMPLATE_FUNCTIONS: Record<string, TemplateFunction> = {
+  year: dateFunction("YYYY"),
+  quarter: dateFunction("[Q]Q"),
+  month: dateFunction("MM"),
+  week: dateFunction("GGGG-[W]WW"),
+  day: dateFunction("DD"),
+  date: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([value, format]) =>
+      mapValue(value, (item) => {
+        const timestamp = parseDateValue(item);
+        return timestamp !== null ? formatDateLabel(timestamp, hasValue(format) ? String(format) : "YYYY-MM-DD") : undefined;
+      }),
+  },
+  lower: { minArgs: 1, maxArgs: 1, apply: ([value]) => mapValue(value, (item) => String(item).toLowerCase()) },
+  upper: { minArgs: 1, maxArgs: 1, apply: ([value]) => mapValue(value, (item) => String(item).toUpperCase()) },
+  trim: { minArgs: 1, maxArgs: 1, apply: ([value]) => mapValue(value, (item) => String(item).trim()) },
+  first: { minArgs: 1, maxArgs: 1, apply: ([value]) => (Array.isArray(value) ? value[0] : value) },
+  last: { minArgs: 1, maxArgs: 1, apply: ([value]) => (Array.isArray(value) ? value[value.length - 1] : value) },
+  count: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => (Array.isArray(value) ? value.length : hasValue(value) ? 1 : 0),
+  },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([value, separator]) =>
+      Array.isArray(value) ? value.map(valueToString).join(hasValue(separator) ? String(separator) : ", ") : value,
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    apply: ([value, search, replacement]) =>
+      mapValue(value, (item) => String(item).split(String(search ?? "")).join(String(replacement ?? ""))),
+  },
+  prop: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([key], context) => (hasValue(key) ? context.getProperty(String(key)) : undefined),
+  },
+};
+
+/**
+ * Check whether a value counts as present (not undefined, null, "" or an empty list)
+ */
+function hasValue(value: any): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === "string") {
+    return value.trim() !== "";
+  }
+  if (Array.isArray(value)) {
+    return value.some((item) => hasValue(item));
+  }
+  return true;
+}
+
+/**
+ * Convert a value to its text in a template
+ */
+function valueToString(value: any): string {
+  if (Array.isArray(value)) {
+    return value.filter((item) => hasValue(item)).map(valueToString).join(", ");
+  }
+  return String(value);
+}
+
+/**
+ * Parser for a single ${...} expression
+ *
+ * expression ::= primary ("??" primary)*
+ * primary    ::= STRING | NUMBER | NAME "(" [expression ("," expression)*] ")" | NAME | "(" expression ")"
+ */
+class TemplateExpressionParser {
+  private input: string;
+  private position: number = 0;
+  private offset: number;
+
+  constructor(input: string, offset: number) {
+    this.input = input;
+    this.offset = offset;
+  }
+
+  parse(): TemplateExpression {
+    const expression = this.parseCoalesce();
+    this.skipWhitespace();
+    if (this.position < this.input.length) {
+      throw this.error(`Unexpected '${this.input[this.position]}'`);
+    }
+    return expression;
+  }
+
+  private parseCoalesce(): TemplateExpression {
+    let left = this.parsePrimary();
+
+    while (this.consume("??")) {
+      const right = this.parsePrimary();
+      left = { type: "coalesce", left, right };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): TemplateExpression {
+    this.skipWhitespace();
+    const char = this.input[this.position];
+
+    if (char === undefined) {
+      throw this.error("Expected a value");
+    }
+
+    if (char === '"' || char === "'") {
+      return { type: "literal", value: this.parseString(char) };
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = this.input.slice(this.position).match(/^\d+(\.\d+)?/)!;
+      this.position += match[0].length;
+      return { type: "literal", value: Number(match[0]) };
+    }
+
+    if (char === "(") {
+      this.position++;
+      const expression = this.parseCoalesce();
+      if (!this.consume(")")) {
+        throw this.error("Expected ')'");
+      }
+      return expression;
+    }
+
+    // Names and property paths ("status", "meta.review.state", "items[].name", "due-date")
+    const match = this.input.slice(this.position).match(/^[A-Za-z_][\w-]*(\[\])?(\.[A-Za-z_][\w-]*(\[\])?)*/);
+    if (!match) {
+      throw this.error(`Unexpected '${char}'`);
+    }
+    const name = match[0];
+    const start = this.position;
+    this.position += name.length;
+
+    // Function call
+    if (this.consume("(")) {
+      // Own properties only, so "constructor" or "toString" aren't functions
+      const fn = Object.prototype.hasOwnProperty.call(TEMPLATE_FUNCTIONS, name) ? TEMPLATE_FUNCTIONS[name] : undefined;
+      if (!fn) {
+        throw this.error(`Unknown function '${name}'. Available: ${Object.keys(TEMPLATE_FUNCTIONS).join(", ")}`, start);
+      }
+
+      const args: TemplateExpression[] = [];
+      if (!this.consume(")")) {
+        do {
+          args.push(this.parseCoalesce());
+        } while (this.consume(","));
+        if (!this.consume(")")) {
+          throw this.error("Expected ',' or ')'");
+        }
+      }
+
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+        throw this.error(`Function '${name}' expects ${expected} argument(s), got ${args.length}`, start);
+      }
+
+      return { type: "call", name, args };
+    }
+
+    if (name.startsWith("file.") && !TEMPLATE_FILE_FIELDS.includes(name.substring(5))) {
+      throw this.error(`Unknown file field '${name}'. Available: ${TEMPLATE_FILE_FIELDS.map((f) => `file.${f}`).join(", ")}`, start);
+    }
+
+    return { type: "reference", path: name };
+  }
+
+  private parseString(quote: string): string {
+    this.position++; // Opening quote
+    let value = "";
+
+    while (this.position < this.input.length && this.input[this.position] !== quote) {
+      if (this.input[this.position] === "\\" && this.position + 1 < this.input.length) {
+        this.position++;
+      }
+      value += this.input[this.position];
+      this.position++;
+    }
+
+    if (this.position >= this.input.length) {
+      throw this.error("Unterminated string");
+    }
+    this.position++; // Closing quote
+
+    return value;
+  }
+
+  private consume(token: string): boolean {
+    this.skipWhitespace();
+    if (this.input.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.input.length && /\s/.test(this.input[this.position])) {
+      this.position++;
+    }
+  }
+
+  private error(message: string, position: number = this.position): Error {
+    return new Error(`${message} at position ${this.offset + position}`);
+  }
+}
+
+/**
+ * Find the closing brace of a placeholder, skipping braces inside strings
+ *
+ * @returns Index of the "}", or -1 if the placeholder isn't closed
+ */
+function findPlaceholderEnd(template: string, start: number): number {
+  let quote: string | null = null;
+
+  for (let i = start; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "}") {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parse a template into text and expression parts
+ *
+ * @param template - Template text (e.g., "${client} / ${year(due)}")
+ * @returns Parsed parts, or null parts with error messages
+ */
+export function parseTemplate(template: string): TemplateParseResult {
+  const parts: TemplatePart[] = [];
+  const errors: string[] = [];
+  let text = "";
+  let index = 0;
+
+  while (index < template.length) {
+    // Escaped dollar sign
+    if (template.startsWith("\\$", index)) {
+      text += "$";
+      index += 2;
+      continue;
+    }
+
+    if (!template.startsWith("${", index)) {
+      text += template[index];
+      index++;
+      continue;
+    }
+
+    const end = findPlaceholderEnd(template, index + 2);
+    if (end === -1) {
+      errors.push(`Unclosed '\${' at position ${index}`);
+      break;
+    }
+
+    if (text !== "") {
+      parts.push({ type: "text", value: text });
+      text = "";
+    }
+
+    try {
+      const expression = new TemplateExpressionParser(template.substring(index + 2, end), index + 2).parse();
+      parts.push({ type: "expression", expression });
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    index = end + 1;
+  }
+
+  if (text !== "") {
+    parts.push({ type: "text", value: text });
+  }
+
+  if (errors.length === 0 && !parts.some((part) => part.type === "expression")) {
+    errors.push("Template must contain at least one ${...} placeholder");
+  }
+
+  return { parts: errors.length === 0 ? parts : null, errors };
+}
+
+/**
+ * Validate a template
+ *
+ * @returns Error messages (empty if the template is valid)
+ */
+export function validateTemplate(template: string): string[] {
+  return parseTemplate(template).errors;
+}
+
+/**
+ * Evaluate a single expression
+ */
+function evaluateExpression(expression: TemplateExpression, context: TemplateContext): any {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "reference":
+      if (expression.path === "tags") {
+        return context.getTags();
+      }
+      if (expression.path.startsWith("file.")) {
+        return context.getFileField(expression.path.substring(5));
+      }
+      return context.getProperty(expression.path);
+    case "coalesce": {
+      const left = evaluateExpression(expression.left, context);
+      return hasValue(left) ? left : evaluateExpression(expression.right, context);
+    }
+    case "call": {
+      const args = expression.args.map((arg) => evaluateExpression(arg, context));
+      return TEMPLATE_FUNCTIONS[expression.name].apply(args, context);
+    }
+  }
+}
+
+/**
+ * Evaluate parsed template parts against a file's data
+ *
+ * Lists are joined with ", ". If any placeholder has no value, the whole
+ * template has none, so "${client} / ${year(due)}" never yields "Acme / ";
+ * use ?? to supply a default instead.
+ *
+ * @param parts - Parts from parseTemplate
+ * @param context - Data to read values from
+ * @returns Rendered text, or null if a placeholder has no value
+ */
+export function evaluateTemplate(parts: TemplatePart[], context: TemplateContext): string | null {
+  let result = "";
+
+  for (const part of parts) {
+    if (part.type === "text") {
+      result += part.value;
+      continue;
+    }
+
+    const value = evaluateExpression(part.expression, context);
+    if (!hasValue(value)) {
+      return null;
+    }
+    result += valueToString(value);
+  }
+
+  return result.trim() === "" ? null : result;
+}
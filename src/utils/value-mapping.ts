@@ -0,0 +1,51 @@
+import { ValueMapping } from "../types/hierarchy-config";
+
+/**
+ * Utility functions for canonicalizing property values with a value mapping
+ *
+ * Mapping { "completed": "done", "✅": "done" } with ignoreCase turns
+ * "done", "Done", "completed" and "✅" into "done". Values that are already
+ * a canonical target count as mapped, so a fallback doesn't swallow them.
+ */
+
+/**
+ * Normalize a value for comparison according to the mapping options
+ */
+function normalizeMappingKey(value: string, mapping: ValueMapping): string {
+  let key = mapping.trim ? value.trim() : value;
+  if (mapping.ignoreCase) {
+    key = key.toLowerCase();
+  }
+  return key;
+}
+
+/**
+ * Canonicalize a raw property value
+ *
+ * @param value - Raw value (non-strings are compared by their string form)
+ * @param mapping - Value mapping of the level
+ * @returns Canonical value, or the (trimmed) raw value if unmapped and no fallback is set
+ */
+export function mapPropertyValue(value: any, mapping: ValueMapping): string {
+  const raw = String(value);
+  const key = normalizeMappingKey(raw, mapping);
+
+  for (const [from, to] of Object.entries(mapping.values || {})) {
+    if (normalizeMappingKey(from, mapping) === key) {
+      return to;
+    }
+  }
+
+  // Canonical targets map to themselves
+  for (const to of Object.values(mapping.values || {})) {
+    if (normalizeMappingKey(to, mapping) === key) {
+      return to;
+    }
+  }
+
+  if (mapping.fallback !== undefined) {
+    return mapping.fallback;
+  }
+
+  return mapping.trim ? raw.trim() : raw;
+}
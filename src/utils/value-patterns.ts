@@ -0,0 +1,64 @@
+/**
+ * Utility functions for matching group values against include/exclude lists
+ *
+ * An entry is either a literal ("archived", compared ignoring case) or a
+ * regular expression in slashes with optional flags ("/^arch/i").
+ */
+
+/** Compiled regular expressions, keyed by entry (null if the entry is a literal or invalid) */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile an entry written as a regular expression
+ *
+ * @param pattern - List entry (e.g., "/^alpha|beta$/i")
+ * @returns Compiled expression, or null if the entry is a literal or the expression is invalid
+ */
+export function parseValuePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    let regex: RegExp | null = null;
+    if (match) {
+      try {
+        regex = new RegExp(match[1], match[2]);
+      } catch {
+        regex = null;
+      }
+    }
+    compiledPatterns.set(pattern, regex);
+  }
+
+  return compiledPatterns.get(pattern)!;
+}
+
+/**
+ * Validate a list entry
+ *
+ * @returns Error message, or null if the entry is a literal or a valid regular expression
+ */
+export function validateValuePattern(pattern: string): string | null {
+  if (/^\/(.+)\/([a-z]*)$/.test(pattern) && !parseValuePattern(pattern)) {
+    return `Invalid regular expression: '${pattern}'`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether any of a group's values matches any entry of a list
+ *
+ * @param values - Values identifying the group (e.g., its tag path and its name)
+ * @param patterns - List entries
+ */
+export function matchesValuePatterns(values: string[], patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const regex = parseValuePattern(pattern);
+    if (regex) {
+      return values.some((value) => {
+        regex.lastIndex = 0;
+        return regex.test(value);
+      });
+    }
+    return values.some((value) => value.toLowerCase() === pattern.toLowerCase());
+  });
+}
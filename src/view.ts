@@ -5,10 +5,10 @@ import { TreeComponent } from "./components/tree-component";
 import { TreeToolbar } from "./components/tree-toolbar";
 import { ViewEditorModal } from "./components/view-editor-modal";
 import { ViewState, SortMode, FileSortMode, DEFAULT_VIEW_STATE } from "./types/view-state";
-import { HierarchyConfig } from "./types/hierarchy-config";
+import { HierarchyConfig, getAllLevels } from "./types/hierarchy-config";
 import { SearchQueryBuilder } from "./utils/search-query-builder";
 import { ObsidianSearch } from "./utils/obsidian-search";
-import { TreeNode } from "./types/tree-node";
+import { TreeNode, getNodeCount } from "./types/tree-node";
 import type MetaGrouperPlugin from "./main";
 
 export const VIEW_TYPE_METAGROUPER = "metagrouper-view";
@@ -86,7 +86,10 @@ export class MetaGrouperView extends ItemView {
 
     try {
       // Initialize indexer
-      this.indexer = new VaultIndexer(this.app);
+      this.indexer = new VaultIndexer(this.app, {
+        inlineFields: this.plugin.settings.indexInlineFields,
+        inlineFieldBrackets: this.plugin.settings.inlineFieldBrackets,
+      });
       await this.indexer.initialize();
 
       // Build tree builder
@@ -161,6 +164,12 @@ export class MetaGrouperView extends ItemView {
           onOpenViewSettings: () => {
             this.handleOpenViewSettings();
           },
+          onGroupValueToggle: (levelIndex: number, name: string) => {
+            this.handleGroupValueToggle(levelIndex, name);
+          },
+          onShowAllGroups: () => {
+            this.handleShowAllGroups();
+          },
         },
         this.treeComponent.getFileSortMode(),
         this.treeComponent.getFileVisibility(),
@@ -203,6 +212,9 @@ export class MetaGrouperView extends ItemView {
       this.saveStateTimer = null;
     }
 
+    // Stop the indexer's incremental updates
+    this.indexer?.destroy();
+
     // Cleanup is handled by Obsidian's event system
   }
 
@@ -267,8 +279,9 @@ export class MetaGrouperView extends ItemView {
       return;
     }
 
-    // Check if level exists
-    if (levelIndex >= viewConfig.levels.length) {
+    // Check if level exists (branch levels follow the top-level levels)
+    const allLevels = getAllLevels(viewConfig.levels);
+    if (levelIndex >= allLevels.length) {
       console.warn(
         `[MetaGrouper] Cannot change sort mode: level ${levelIndex} does not exist in view config`
       );
@@ -276,7 +289,13 @@ export class MetaGrouperView extends ItemView {
     }
 
     // Update the hierarchy level's sortBy property
-    viewConfig.levels[levelIndex].sortBy = mode;
+    allLevels[levelIndex].sortBy = mode;
+
+    // Drop a saved override of the level, so the new sort mode applies
+    const viewState = this.plugin.settings.viewStates[this.currentViewName];
+    if (viewState?.levelSortOverrides) {
+      delete viewState.levelSortOverrides[levelIndex];
+    }
 
     // Save settings
     this.plugin.saveSettings();
@@ -439,6 +458,63 @@ export class MetaGrouperView extends ItemView {
     }
   }
 
+  /**
+   * Handle a group being shown or hidden from the toolbar
+   */
+  private handleGroupValueToggle(levelIndex: number, name: string): void {
+    if (!this.treeBuilder || !this.treeComponent) {
+      return;
+    }
+
+    // Update view state
+    let viewState = this.plugin.settings.viewStates[this.currentViewName];
+    if (!viewState) {
+      this.plugin.settings.viewStates[this.currentViewName] = { ...DEFAULT_VIEW_STATE };
+      viewState = this.plugin.settings.viewStates[this.currentViewName];
+    }
+
+    const hiddenGroupValues = { ...(viewState.hiddenGroupValues ?? {}) };
+    const hidden = hiddenGroupValues[levelIndex] ?? [];
+    hiddenGroupValues[levelIndex] = hidden.includes(name)
+      ? hidden.filter((value) => value !== name)
+      : [...hidden, name];
+    if (hiddenGroupValues[levelIndex].length === 0) {
+      delete hiddenGroupValues[levelIndex];
+    }
+    viewState.hiddenGroupValues = hiddenGroupValues;
+
+    // Rebuild tree without the hidden groups
+    const container = this.containerEl.querySelector(
+      ".metagrouper-content"
+    ) as HTMLElement;
+    if (container) {
+      this.buildAndRenderTree(container);
+    }
+
+    this.saveViewState();
+  }
+
+  /**
+   * Handle showing all hidden groups again from the toolbar
+   */
+  private handleShowAllGroups(): void {
+    const viewState = this.plugin.settings.viewStates[this.currentViewName];
+    if (!viewState || !this.treeBuilder || !this.treeComponent) {
+      return;
+    }
+
+    viewState.hiddenGroupValues = undefined;
+
+    const container = this.containerEl.querySelector(
+      ".metagrouper-content"
+    ) as HTMLElement;
+    if (container) {
+      this.buildAndRenderTree(container);
+    }
+
+    this.saveViewState();
+  }
+
   /**
    * Handle settings button click from toolbar
    */
@@ -593,7 +669,7 @@ export class MetaGrouperView extends ItemView {
         "#b3f0ff",  // Soft cyan
       ];
 
-      viewConfig.levels.forEach((level, index) => {
+      getAllLevels(viewConfig.levels).forEach((level, index) => {
         // Use custom color if set, otherwise use default palette color
         const color = level.color || DEFAULT_LEVEL_COLORS[index % DEFAULT_LEVEL_COLORS.length];
         container.style.setProperty(`--level-${index}-color`, color);
@@ -606,7 +682,7 @@ export class MetaGrouperView extends ItemView {
       }
     } else {
       // Clear CSS variables if colors are disabled
-      viewConfig.levels.forEach((level, index) => {
+      getAllLevels(viewConfig.levels).forEach((level, index) => {
         container.style.removeProperty(`--level-${index}-color`);
       });
       container.style.removeProperty('--file-color');
@@ -626,35 +702,19 @@ export class MetaGrouperView extends ItemView {
 
     // Update toolbar with unique file count and current view config
     if (this.toolbar) {
-      const uniqueFileCount = this.countUniqueFiles(tree);
-      this.toolbar.setFileCount(uniqueFileCount);
+      this.toolbar.setFileCount(getNodeCount(tree, "unique"));
       this.toolbar.setCurrentViewConfig(viewConfig);
+      this.toolbar.setGroupValues(this.treeBuilder.getLevelGroupValues(), viewState?.hiddenGroupValues ?? {});
+      this.toolbar.setFileSortProperties(this.indexer.getAllPropertyKeys());
     }
 
     // Render tree
+    this.treeComponent.setShowHeadings(viewConfig.showHeadings ?? false);
+    this.treeComponent.setAggregates(viewConfig.aggregates ?? []);
+    this.treeComponent.setCountMode(viewConfig.countMode ?? "occurrences");
     this.treeComponent.render(tree, container);
   }
 
-  /**
-   * Count unique files in the tree (same file can appear multiple times)
-   */
-  private countUniqueFiles(tree: TreeNode): number {
-    const uniqueFiles = new Set<string>();
-
-    const traverse = (node: TreeNode) => {
-      if (node.type === "file" && node.files && node.files.length > 0) {
-        // File nodes have a single file in their files array
-        uniqueFiles.add(node.files[0].path);
-      }
-      if (node.children) {
-        node.children.forEach(child => traverse(child));
-      }
-    };
-
-    traverse(tree);
-    return uniqueFiles.size;
-  }
-
   /**
    * Refresh the tree when the index is updated
    */
@@ -739,6 +799,10 @@ export class MetaGrouperView extends ItemView {
       scrollPosition: treeContent?.scrollTop ?? 0,
       // Preserve displayModeOverride if it exists
       displayModeOverride: existingState?.displayModeOverride,
+      // Preserve groups toggled off in the toolbar
+      hiddenGroupValues: existingState?.hiddenGroupValues,
+      // Preserve per-level sort overrides
+      levelSortOverrides: existingState?.levelSortOverrides,
     };
 
     this.plugin.settings.viewStates[this.currentViewName] = state;
@@ -2,14 +2,24 @@
  * Mock implementation of Obsidian API for testing
  */
 
+export interface EventRef {
+  name: string;
+  callback: (...args: any[]) => void;
+}
+
 export class Events {
   private handlers: Map<string, Array<(...args: any[]) => void>> = new Map();
 
-  on(name: string, callback: (...args: any[]) => void): void {
+  on(name: string, callback: (...args: any[]) => void): EventRef {
     if (!this.handlers.has(name)) {
       this.handlers.set(name, []);
     }
     this.handlers.get(name)!.push(callback);
+    return { name, callback };
+  }
+
+  offref(ref: EventRef): void {
+    this.off(ref.name, ref.callback);
   }
 
   off(name: string, callback: (...args: any[]) => void): void {
@@ -35,12 +45,14 @@ export class TFile {
   basename: string;
   extension: string;
   name: string;
+  stat: { ctime: number; mtime: number; size: number };
 
   constructor(path: string) {
     this.path = path;
     this.name = path.split("/").pop() || "";
     this.basename = this.name.replace(/\.md$/, "");
     this.extension = "md";
+    this.stat = { ctime: 0, mtime: 0, size: 0 };
   }
 }
 
@@ -62,6 +74,10 @@ export class MetadataCache extends Events {
   private cache: Map<TFile, CachedMetadata> = new Map();
   initialized: boolean = true;
 
+  constructor(private vault?: Vault) {
+    super();
+  }
+
   getFileCache(file: TFile): CachedMetadata | null {
     return this.cache.get(file) || null;
   }
@@ -73,10 +89,24 @@ export class MetadataCache extends Events {
   clearCache(): void {
     this.cache.clear();
   }
+
+  /**
+   * Resolve a link path to a file: exact path first, then by basename
+   */
+  getFirstLinkpathDest(linkpath: string, sourcePath: string): TFile | null {
+    const files = this.vault?.getMarkdownFiles() ?? [];
+    const path = linkpath.endsWith(".md") ? linkpath : `${linkpath}.md`;
+    return (
+      files.find((f) => f.path === path) ||
+      files.find((f) => f.path.endsWith(`/${path}`)) ||
+      null
+    );
+  }
 }
 
 export class Vault extends Events {
   private files: TFile[] = [];
+  private contents: Map<string, string> = new Map();
 
   getMarkdownFiles(): TFile[] {
     return this.files;
@@ -97,8 +127,21 @@ export class Vault extends Events {
     }
   }
 
+  getAbstractFileByPath(path: string): TFile | null {
+    return this.files.find((f) => f.path === path) || null;
+  }
+
+  setContent(file: TFile, content: string): void {
+    this.contents.set(file.path, content);
+  }
+
+  async cachedRead(file: TFile): Promise<string> {
+    return this.contents.get(file.path) ?? "";
+  }
+
   clear(): void {
     this.files = [];
+    this.contents.clear();
   }
 }
 
@@ -111,7 +154,7 @@ export class App {
 
   constructor() {
     this.vault = new Vault();
-    this.metadataCache = new MetadataCache();
+    this.metadataCache = new MetadataCache(this.vault);
     this.workspace = new Workspace();
   }
 }
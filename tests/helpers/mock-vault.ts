@@ -4,6 +4,10 @@ export interface MockFileConfig {
   path: string;
   tags?: string[];
   properties?: Record<string, any>;
+  stat?: { ctime?: number; mtime?: number; size?: number };
+  content?: string;
+  /** Status characters of the file's tasks (e.g., [" ", "x"] for "- [ ]" and "- [x]") */
+  tasks?: string[];
 }
 
 /**
@@ -18,7 +22,8 @@ export function createMockFile(path: string): TFile {
  */
 export function createMockMetadata(
   tags: string[] = [],
-  properties: Record<string, any> = {}
+  properties: Record<string, any> = {},
+  tasks: string[] = []
 ): CachedMetadata {
   const metadata: CachedMetadata = {};
 
@@ -35,6 +40,18 @@ export function createMockMetadata(
     );
   }
 
+  // Add task list items if provided
+  if (tasks.length > 0) {
+    metadata.listItems = tasks.map((task, index) => ({
+      task,
+      parent: -100,
+      position: {
+        start: { line: 100 + index, col: 0, offset: 0 },
+        end: { line: 100 + index, col: 6, offset: 6 },
+      },
+    }));
+  }
+
   // Add frontmatter properties if provided
   if (Object.keys(properties).length > 0) {
     metadata.frontmatter = { ...properties };
@@ -54,11 +71,17 @@ export function createMockVault(
 
   const tfiles = files.map((config) => {
     const file = createMockFile(config.path);
-    const metadata = createMockMetadata(config.tags || [], config.properties || {});
+    const metadata = createMockMetadata(config.tags || [], config.properties || {}, config.tasks || []);
+    if (config.stat) {
+      file.stat = { ...file.stat, ...config.stat };
+    }
 
     // Set up the app's vault and metadata cache
     app.vault.addFile(file);
     app.metadataCache.setFileCache(file, metadata);
+    if (config.content !== undefined) {
+      (app.vault as any).setContent(file, config.content);
+    }
 
     fileMetadataMap.set(file, metadata);
 
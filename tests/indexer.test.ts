@@ -193,6 +193,21 @@ describe("VaultIndexer", () => {
       expect(filesWithPosition.size).toBe(0);
     });
 
+    it("should list all property keys, including nested paths", async () => {
+      const files: MockFileConfig[] = [
+        { path: "note1.md", properties: { tags: ["test"], due: "2024-03-01" } },
+        { path: "note2.md", properties: { meta: { owner: "alice" } } },
+      ];
+
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const keys = indexer.getAllPropertyKeys();
+      expect(keys).toContain("due");
+      expect(keys).toContain("meta.owner");
+      expect(keys).not.toContain("tags");
+    });
+
     it("should handle files with no properties", async () => {
       const files: MockFileConfig[] = [
         { path: "note1.md" },
@@ -351,6 +366,238 @@ describe("VaultIndexer", () => {
 
       expect(listener).toHaveBeenCalled();
     });
+
+    it("should stop updating after destroy", async () => {
+      const file = app.vault.getMarkdownFiles()[0];
+
+      indexer.destroy();
+      (app.metadataCache as any).setFileCache(file, { frontmatter: { status: "done" } });
+      app.metadataCache.trigger("changed", file);
+      app.vault.trigger("delete", file);
+
+      await new Promise((resolve) => setTimeout(resolve, 350));
+
+      expect(indexer.getFilesWithProperty("status", "active").size).toBe(1);
+      expect(indexer.getFilesWithTag("project").size).toBe(1);
+    });
+
+    it("should keep a changed file's old entries until its body is read", async () => {
+      const inlineIndexer = new VaultIndexer(app, { inlineFields: true });
+      const file = app.vault.getMarkdownFiles()[0];
+      (app.vault as any).setContent(file, "owner:: Alice");
+      await inlineIndexer.initialize();
+
+      // Hold the body read of the update
+      let finishRead!: (content: string) => void;
+      vi.spyOn(app.vault, "cachedRead").mockImplementationOnce(
+        () => new Promise<string>((resolve) => (finishRead = resolve))
+      );
+      (app.metadataCache as any).setFileCache(file, { frontmatter: { status: "done" } });
+      app.metadataCache.trigger("changed", file);
+      await new Promise((resolve) => setTimeout(resolve, 350));
+
+      expect(inlineIndexer.getFilesWithProperty("status", "active").size).toBe(1);
+      expect(inlineIndexer.getFileInlineFields(file)).toEqual({ owner: "Alice" });
+
+      finishRead("owner:: Bob");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(inlineIndexer.getFilesWithProperty("status", "done").size).toBe(1);
+      expect(inlineIndexer.getFileInlineFields(file)).toEqual({ owner: "Bob" });
+      inlineIndexer.destroy();
+    });
+  });
+
+  describe("Linked Properties", () => {
+    beforeEach(async () => {
+      clearMockVault(app);
+
+      const files: MockFileConfig[] = [
+        { path: "Projects/Alpha.md", properties: { area: "Work" } },
+        { path: "Projects/Beta.md", properties: { area: ["Home", "Work"] } },
+        { path: "task1.md", properties: { project: "[[Alpha]]" } },
+        { path: "task2.md", properties: { project: ["[[Alpha|A]]", "[[Beta]]", "[[Missing]]"] } },
+      ];
+
+      createMockVault(app, files);
+      await indexer.initialize();
+    });
+
+    const getFile = (path: string) =>
+      app.vault.getMarkdownFiles().find((f) => f.path === path)!;
+
+    it("should resolve linked files through a property", () => {
+      const linked = indexer.getLinkedFiles(getFile("task2.md"), "project");
+      expect(linked.map((f) => f.path)).toEqual(["Projects/Alpha.md", "Projects/Beta.md"]);
+    });
+
+    it("should roll up a property from linked notes", () => {
+      expect(indexer.getLinkedPropertyValue(getFile("task1.md"), "project", "area")).toBe("Work");
+      expect(indexer.getLinkedPropertyValue(getFile("task2.md"), "project", "area")).toEqual(["Work", "Home"]);
+      expect(indexer.getLinkedPropertyValue(getFile("task1.md"), "project", "status")).toBeUndefined();
+    });
+
+    it("should pick up frontmatter changes in linked notes", async () => {
+      const task = getFile("task1.md");
+      expect(indexer.getLinkedPropertyValue(task, "project", "area")).toBe("Work");
+
+      const alpha = getFile("Projects/Alpha.md");
+      app.metadataCache.setFileCache(alpha, { frontmatter: { area: "Home" } });
+      app.metadataCache.trigger("changed", alpha);
+
+      // Wait for debounced update (VaultIndexer uses 300ms debounce)
+      await new Promise((resolve) => setTimeout(resolve, 350));
+
+      expect(indexer.getLinkedPropertyValue(task, "project", "area")).toBe("Home");
+    });
+
+    it("should invalidate links when the linked note is deleted", () => {
+      const task = getFile("task1.md");
+      expect(indexer.getLinkedFiles(task, "project")).toHaveLength(1);
+
+      const alpha = getFile("Projects/Alpha.md");
+      app.vault.removeFile(alpha);
+      app.vault.trigger("delete", alpha);
+
+      expect(indexer.getLinkedFiles(task, "project")).toHaveLength(0);
+    });
+  });
+
+  describe("Nested Properties", () => {
+    beforeEach(async () => {
+      clearMockVault(app);
+
+      createMockVault(app, [
+        { path: "a.md", properties: { meta: { owner: "alice", review: { state: "done" } } } },
+        { path: "b.md", properties: { items: [{ name: "Alpha" }, { name: "Beta" }] } },
+      ]);
+      await indexer.initialize();
+    });
+
+    const getFile = (path: string) =>
+      app.vault.getMarkdownFiles().find((f) => f.path === path)!;
+
+    it("should index nested values by path", () => {
+      expect(indexer.getFilesWithProperty("meta.review.state", "done").size).toBe(1);
+      expect(indexer.getFilesWithProperty("items[].name", "Beta").size).toBe(1);
+      expect(indexer.getFilesWithProperty("meta", "[object Object]").size).toBe(0);
+    });
+
+    it("should read values by path", () => {
+      expect(indexer.getFilePropertyValue(getFile("a.md"), "meta.owner")).toBe("alice");
+      expect(indexer.getFilePropertyValue(getFile("a.md"), "meta.missing.state")).toBeUndefined();
+      expect(indexer.getFilePropertyValue(getFile("b.md"), "items[].name")).toEqual(["Alpha", "Beta"]);
+    });
+
+    it("should remove nested values on delete", () => {
+      const file = getFile("a.md");
+      app.vault.removeFile(file);
+      app.vault.trigger("delete", file);
+
+      expect(indexer.getFilesWithProperty("meta.review.state").size).toBe(0);
+    });
+  });
+
+  describe("Inline Fields", () => {
+    const getFile = (path: string) =>
+      app.vault.getMarkdownFiles().find((f) => f.path === path)!;
+
+    beforeEach(() => {
+      clearMockVault(app);
+      indexer = new VaultIndexer(app, { inlineFields: true });
+
+      createMockVault(app, [
+        {
+          path: "note.md",
+          properties: { status: "draft" },
+          content: [
+            "---",
+            "status: draft",
+            "---",
+            "status:: active",
+            "- **owner**:: Alice",
+            "Text with [rating:: 5] and (mood:: happy)",
+            "```",
+            "ignored:: yes",
+            "```",
+            "owner:: Bob",
+          ].join("\n"),
+        },
+      ]);
+    });
+
+    it("should index line fields separately from frontmatter", async () => {
+      await indexer.initialize();
+      const file = getFile("note.md");
+
+      expect(indexer.getFileProperties(file)).toEqual({ status: "draft" });
+      expect(indexer.getFileInlineFields(file)).toEqual({
+        status: "active",
+        owner: ["Alice", "Bob"],
+      });
+    });
+
+    it("should index bracketed fields when enabled", async () => {
+      const bracketIndexer = new VaultIndexer(app, { inlineFields: true, inlineFieldBrackets: true });
+      await bracketIndexer.initialize();
+
+      const fields = bracketIndexer.getFileInlineFields(getFile("note.md"));
+      expect(fields.rating).toBe("5");
+      expect(fields.mood).toBe("happy");
+      expect(fields.ignored).toBeUndefined();
+    });
+
+    it("should skip inline fields when disabled", async () => {
+      const frontmatterIndexer = new VaultIndexer(app, { inlineFields: false });
+      await frontmatterIndexer.initialize();
+
+      expect(frontmatterIndexer.getFileInlineFields(getFile("note.md"))).toEqual({});
+    });
+
+    it("should combine sources", async () => {
+      await indexer.initialize();
+      const props = indexer.getFilePropertiesFromSource(getFile("note.md"), "both");
+
+      expect(props.status).toEqual(["draft", "active"]);
+      expect(props.owner).toEqual(["Alice", "Bob"]);
+    });
+
+    it("should treat keys named like object members as plain fields", async () => {
+      clearMockVault(app);
+      createMockVault(app, [
+        {
+          path: "members.md",
+          content: ["constructor:: a", "toString:: b", "[__proto__:: c] [__proto__:: d]"].join("\n"),
+        },
+      ]);
+      const bracketIndexer = new VaultIndexer(app, { inlineFields: true, inlineFieldBrackets: true });
+      await bracketIndexer.initialize();
+      const file = getFile("members.md");
+
+      const fields = bracketIndexer.getFileInlineFields(file);
+      expect(fields.constructor).toBe("a");
+      expect(fields.toString).toBe("b");
+      expect(Object.getOwnPropertyDescriptor(fields, "__proto__")?.value).toEqual(["c", "d"]);
+      expect(bracketIndexer.getFilePropertyValue(file, "constructor", "both")).toBe("a");
+      expect(bracketIndexer.getFilePropertyValue(file, "toString", "inline")).toBe("b");
+    });
+  });
+
+  describe("Task Counts", () => {
+    it("should count tasks by status character", async () => {
+      createMockVault(app, [
+        { path: "tasks.md", tasks: [" ", " ", "x", "/"] },
+        { path: "plain.md" },
+      ]);
+      await indexer.initialize();
+
+      const files = app.vault.getMarkdownFiles();
+      const tasks = files.find((f) => f.path === "tasks.md")!;
+      const plain = files.find((f) => f.path === "plain.md")!;
+
+      expect(indexer.getFileTaskCounts(tasks)).toEqual({ " ": 2, x: 1, "/": 1 });
+      expect(indexer.getFileTaskCounts(plain)).toEqual({});
+    });
   });
 
   describe("Refresh", () => {
@@ -252,4 +252,274 @@ describe("SearchQueryBuilder", () => {
     const query = builder.buildQuery(tagNode);
     expect(query).toBe("tag:#project/backend");
   });
+
+  it("should build path query for folder node with ancestors", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const parentNode: TreeNode = {
+      id: "prop:status:active",
+      name: "active",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 4,
+      metadata: {
+        propertyKey: "status",
+        propertyValue: "active",
+      },
+    };
+
+    const folderNode: TreeNode = {
+      id: "prop:status:active/folder:Projects/Alpha",
+      name: "Alpha",
+      type: "folder",
+      children: [],
+      depth: 1,
+      files: [],
+      fileCount: 2,
+      parent: parentNode,
+      metadata: {
+        folderPath: "Projects/Alpha",
+      },
+    };
+
+    const query = builder.buildQuery(folderNode);
+    expect(query).toBe('[status:active] path:"Projects/Alpha/"');
+  });
+
+  it("should build property query for date bucket nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const monthNode: TreeNode = {
+      id: "date:created:2024-03",
+      name: "2024-03",
+      type: "date",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 2,
+      metadata: {
+        dateBucket: {
+          key: "2024-03",
+          granularity: "month",
+          start: new Date(2024, 2, 1).getTime(),
+          end: new Date(2024, 3, 1).getTime(),
+          property: "created",
+        },
+      },
+    };
+
+    expect(builder.buildQuery(monthNode)).toBe("[created:2024-03]");
+
+    // Weeks can't be expressed as a property prefix
+    const weekNode: TreeNode = {
+      ...monthNode,
+      id: "date:created:2024-W09",
+      metadata: {
+        dateBucket: { ...monthNode.metadata!.dateBucket!, key: "2024-W09", granularity: "week" },
+      },
+    };
+    expect(builder.buildQuery(weekNode)).toBe("");
+  });
+
+  it("should build OR query for numeric bucket nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:status:1-5",
+      name: "1-5",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 3,
+      metadata: {
+        propertyKey: "status",
+        propertyValue: "1-5",
+        numericRange: { min: 1, max: 5, values: [1, 2.5, 4] },
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("([status:1] OR [status:2.5] OR [status:4])");
+  });
+
+  it("should build query by target name for resolved link nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:status:[[Projects/Alpha.md]]",
+      name: "Alpha",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 2,
+      metadata: {
+        propertyKey: "status",
+        propertyValue: "[[Projects/Alpha.md]]",
+        linkTarget: "Projects/Alpha.md",
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("[status:Alpha]");
+  });
+
+  it("should build OR query over raw values for mapped nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:status:done",
+      name: "done",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 3,
+      metadata: {
+        propertyKey: "status",
+        propertyValue: "done",
+        rawValues: ["Done", "completed"],
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("([status:Done] OR [status:completed])");
+  });
+
+  it("should build negated query for missing groups", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "missing:0:status",
+      name: "(no status)",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 2,
+      metadata: {
+        missingValue: { levelType: "property", key: "status", searchable: true },
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("-[status]");
+
+    node.metadata!.missingValue = { levelType: "tag", key: "project", searchable: true };
+    expect(builder.buildQuery(node)).toBe("-tag:#project");
+  });
+
+  it("should skip inline field nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:status:active",
+      name: "active",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 1,
+      metadata: {
+        propertyKey: "status",
+        propertyValue: "active",
+        propertySource: "inline",
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("");
+  });
+
+  it("should skip computed nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:Client:Acme / 2024",
+      name: "Acme / 2024",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 1,
+      metadata: {
+        propertyKey: "Client",
+        propertyValue: "Acme / 2024",
+        template: "${client} / ${year(due)}",
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("");
+  });
+
+  it("should build an AND of the key values for composite nodes", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const node: TreeNode = {
+      id: "prop:Client · Project:ClientX · Alpha",
+      name: "ClientX · Alpha",
+      type: "property-group",
+      children: [],
+      depth: 0,
+      files: [],
+      fileCount: 1,
+      metadata: {
+        propertyKey: "Client · Project",
+        propertyValue: "ClientX · Alpha",
+        compositeValues: [
+          { key: "client", value: "ClientX" },
+          { key: "project", value: "Alpha" },
+        ],
+      },
+    };
+
+    expect(builder.buildQuery(node)).toBe("[client:ClientX] [project:Alpha]");
+
+    // Inline fields can't be searched
+    node.metadata!.propertySource = "inline";
+    expect(builder.buildQuery(node)).toBe("");
+  });
+
+  it("should build an OR of the folded values for Other groups", () => {
+    const config = createTestConfig();
+    const builder = new SearchQueryBuilder(config);
+
+    const createValueNode = (value: string): TreeNode => ({
+      id: `prop:status:${value}`,
+      name: value,
+      type: "property-group",
+      children: [],
+      depth: 2,
+      files: [],
+      fileCount: 1,
+      metadata: { propertyKey: "status", propertyValue: value },
+    });
+
+    const other: TreeNode = {
+      id: "other:0",
+      name: "Other (2 values)",
+      type: "property-group",
+      children: [createValueNode("blocked"), createValueNode("waiting")],
+      depth: 1,
+      files: [],
+      fileCount: 2,
+      metadata: { otherGroup: { foldedCount: 2 }, levelIndex: 0 },
+    };
+    other.children.forEach((child) => (child.parent = other));
+
+    expect(builder.buildQuery(other)).toBe("([status:blocked] OR [status:waiting])");
+    // Folded groups search for their own value only
+    expect(builder.buildQuery(other.children[1])).toBe("[status:waiting]");
+
+    // One unsearchable folded group makes the whole group unsearchable
+    other.children[0].metadata!.propertySource = "inline";
+    expect(builder.buildQuery(other)).toBe("");
+  });
 });
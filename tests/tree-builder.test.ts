@@ -2,6 +2,10 @@ import { describe, it, expect, beforeEach } from "vitest";
 import { App } from "obsidian";
 import { VaultIndexer } from "../src/indexer/vault-indexer";
 import { TreeBuilder } from "../src/tree/tree-builder";
+import { HierarchyConfig, LevelValueType, NodeCountMode, getAllLevels, validateHierarchyConfig, validateHierarchyLevel } from "../src/types/hierarchy-config";
+import { FileSortMode, SortMode } from "../src/types/view-state";
+import { getNodeCount, getProgressPercent } from "../src/types/tree-node";
+import { formatAggregateLine, parseAggregateLine } from "../src/utils/aggregates";
 import {
   createMockVault,
   clearMockVault,
@@ -357,6 +361,165 @@ describe("TreeBuilder", () => {
     });
   });
 
+  describe("Value-Aware Sorting", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { weight: "1.5", due: "2024-03-05", name: "Zebra" } },
+      { path: "b.md", properties: { weight: "1.10", due: "2023-12-01", name: "Öl" } },
+      { path: "c.md", properties: { weight: "20 kg", due: "someday", name: "Apa" } },
+      { path: "d.md", properties: { weight: "n/a", due: "2024-01", name: "apa" } },
+    ];
+
+    const buildSorted = (key: string, mode?: SortMode, extra: Partial<HierarchyConfig> = {}, valueType?: LevelValueType) =>
+      builder.buildFromHierarchy({
+        name: "Sorted",
+        levels: [{ type: "property", key, separateListValues: true, showPropertyName: false, sortBy: mode, valueType }],
+        showPartialMatches: false,
+        ...extra,
+      }).children.map((n) => n.name);
+
+    it("should sort by leading numbers with other values last", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      expect(buildSorted("weight", "numeric-asc")).toEqual(["1.10", "1.5", "20 kg", "n/a"]);
+      expect(buildSorted("weight", "numeric-desc")).toEqual(["20 kg", "1.5", "1.10", "n/a"]);
+    });
+
+    it("should sort by date with other values last", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      expect(buildSorted("due", "date-asc")).toEqual(["2023-12-01", "2024-01", "2024-03-05", "someday"]);
+      expect(buildSorted("due", "date-desc")).toEqual(["2024-03-05", "2024-01", "2023-12-01", "someday"]);
+    });
+
+    it("should detect numbers in natural sorting and honor the level's value type", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      // Digit runs compare as numbers, so "1.10" is 1 and 10 in text order
+      expect(buildSorted("weight", "alpha-asc").slice(0, 2)).toEqual(["1.5", "1.10"]);
+      expect(buildSorted("weight", "alpha-asc", {}, "number").slice(0, 2)).toEqual(["1.10", "1.5"]);
+      expect(buildSorted("due", "natural-asc")).toEqual(["2023-12-01", "2024-01", "2024-03-05", "someday"]);
+    });
+
+    it("should sort numbers naturally when every value is a number", async () => {
+      createMockVault(app, [
+        { path: "a.md", properties: { weight: "1.5" } },
+        { path: "b.md", properties: { weight: "1.10" } },
+        { path: "c.md", properties: { weight: "-2" } },
+      ]);
+      await indexer.initialize();
+
+      expect(buildSorted("weight", "natural-asc")).toEqual(["-2", "1.10", "1.5"]);
+      expect(buildSorted("weight", "natural-desc")).toEqual(["1.5", "1.10", "-2"]);
+    });
+
+    it("should compare names with the view's collation", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      // "Apa" and "apa" are equal when case is ignored
+      const withoutLower = (names: string[]) => names.filter((name) => name !== "apa");
+      expect(withoutLower(buildSorted("name", undefined))).toEqual(["Apa", "Öl", "Zebra"]);
+      expect(withoutLower(buildSorted("name", undefined, { sortCollation: { locale: "sv" } }))).toEqual(["Apa", "Zebra", "Öl"]);
+      expect(buildSorted("name", undefined, { sortCollation: { caseSensitive: true } })).toEqual(["apa", "Apa", "Öl", "Zebra"]);
+    });
+
+    it("should sort groups in a custom order with unknown values last or first", async () => {
+      createMockVault(app, [
+        { path: "a.md", properties: { status: "done" } },
+        { path: "b.md", properties: { status: "Doing" } },
+        { path: "c.md", properties: { status: "backlog" } },
+        { path: "d.md", properties: { status: "blocked" } },
+        { path: "e.md", properties: { status: "archived" } },
+      ]);
+      await indexer.initialize();
+
+      const buildCustom = (customOrderUnknown?: "first" | "last") =>
+        builder.buildFromHierarchy({
+          name: "Workflow",
+          levels: [{
+            type: "property",
+            key: "status",
+            separateListValues: true,
+            showPropertyName: true,
+            sortBy: "custom",
+            customOrder: ["backlog", "todo", "doing", "review", "done"],
+            customOrderUnknown,
+          }],
+          showPartialMatches: false,
+        }).children.map((n) => n.metadata?.propertyValue);
+
+      expect(buildCustom()).toEqual(["backlog", "Doing", "done", "archived", "blocked"]);
+      expect(buildCustom("first")).toEqual(["archived", "blocked", "backlog", "Doing", "done"]);
+
+      // A view state override takes precedence over the level's sort mode
+      const overridden = builder.buildFromHierarchy({
+        name: "Workflow",
+        levels: [{
+          type: "property",
+          key: "status",
+          separateListValues: true,
+          showPropertyName: true,
+          sortBy: "alpha-desc",
+          customOrder: ["backlog", "todo", "doing", "review", "done"],
+        }],
+        showPartialMatches: false,
+      }, { expandedNodes: [], showFiles: true, levelSortOverrides: { 0: "custom" } });
+      expect(overridden.children.map((n) => n.metadata?.propertyValue)).toEqual(["backlog", "Doing", "done", "archived", "blocked"]);
+    });
+
+    it("should sort alphabetically in custom mode without a custom order", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      expect(buildSorted("name", "custom").filter((name) => name !== "apa")).toEqual(["Apa", "Öl", "Zebra"]);
+    });
+
+    it("should sort files by a property with a tiebreaker and missing values last or first", async () => {
+      createMockVault(app, [
+        { path: "b.md", properties: { kind: "task", due: "2024-03-05", priority: 2 } },
+        { path: "a.md", properties: { kind: "task", due: "2024-03-05", priority: 10 } },
+        { path: "c.md", properties: { kind: "task", due: "2023-12-01", priority: "1" } },
+        { path: "d.md", properties: { kind: "task", priority: 5 } },
+      ]);
+      await indexer.initialize();
+
+      const buildFiles = (mode: FileSortMode, extra: Partial<HierarchyConfig> = {}) =>
+        builder.buildFromHierarchy({
+          name: "Files",
+          levels: [{ type: "property", key: "kind", separateListValues: true, showPropertyName: false }],
+          showPartialMatches: false,
+          ...extra,
+        }, { expandedNodes: [], showFiles: true, fileSortMode: mode })
+          .children.flatMap((group) => group.children.map((n) => n.name));
+
+      expect(buildFiles("property-asc:due")).toEqual(["c", "a", "b", "d"]);
+      expect(buildFiles("property-desc:due")).toEqual(["a", "b", "c", "d"]);
+      expect(buildFiles("property-desc:due", { fileSortMissing: "first", fileSortTiebreaker: "alpha-desc" }))
+        .toEqual(["d", "b", "a", "c"]);
+      expect(buildFiles("property-asc:priority")).toEqual(["c", "b", "d", "a"]);
+    });
+
+    it("should validate value types and collation", () => {
+      const level = { type: "property", key: "weight", separateListValues: true, showPropertyName: false };
+      expect(validateHierarchyLevel({ ...level, valueType: "number" }).valid).toBe(true);
+      expect(validateHierarchyLevel({ ...level, valueType: "money" }).errors[0]).toContain("Invalid value type");
+      expect(validateHierarchyLevel({ ...level, sortBy: "custom", customOrder: ["todo", "done"], customOrderUnknown: "first" }).valid).toBe(true);
+      expect(validateHierarchyLevel({ ...level, customOrder: "todo, done" }).errors[0]).toContain("array of strings");
+      expect(validateHierarchyLevel({ ...level, customOrderUnknown: "middle" }).valid).toBe(false);
+
+      const config = { name: "Sorted", levels: [level], showPartialMatches: false };
+      expect(validateHierarchyConfig({ ...config, sortCollation: { locale: "sv", caseSensitive: true } }).valid).toBe(true);
+      expect(validateHierarchyConfig({ ...config, sortCollation: { locale: "not a locale!" } }).errors[0]).toContain("locale");
+      expect(validateHierarchyConfig({ ...config, sortCollation: { accentSensitive: "yes" } }).valid).toBe(false);
+      expect(validateHierarchyConfig({ ...config, defaultFileSortMode: "property-desc:meta.due", fileSortMissing: "first" }).valid).toBe(true);
+      expect(validateHierarchyConfig({ ...config, defaultFileSortMode: "property-asc:" }).errors[0]).toContain("needs a property key");
+      expect(validateHierarchyConfig({ ...config, fileSortTiebreaker: "random" }).valid).toBe(false);
+    });
+  });
+
   describe("Root Tag Filtering", () => {
     it("should filter by root tag", async () => {
       const files: MockFileConfig[] = [
@@ -526,4 +689,1693 @@ describe("TreeBuilder", () => {
       expect(fileNode.id).toBe("root/tag:project/tag:project/alpha/file:note1.md");
     });
   });
+
+  describe("Folder Hierarchy Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "Projects/Alpha/spec.md", properties: { status: "active" } },
+      { path: "Projects/Alpha/Design/mockup.md", properties: { status: "draft" } },
+      { path: "Projects/Beta/plan.md", properties: { status: "active" } },
+      { path: "Archive/old.md", properties: { status: "done" } },
+      { path: "inbox.md", properties: { status: "active" } },
+    ];
+
+    it("should build nested folder structure with unlimited depth", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Folders",
+        levels: [
+          { type: "folder", key: "", depth: -1, virtual: false, showFullPath: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Root-level files have no folder and don't match the level
+      expect(tree.children.map((n) => n.name)).toEqual(["Archive", "Projects"]);
+
+      const projects = tree.children[1];
+      expect(projects.type).toBe("folder");
+      expect(projects.metadata?.folderPath).toBe("Projects");
+      expect(projects.fileCount).toBe(3);
+
+      const alpha = projects.children.find((n) => n.name === "Alpha")!;
+      expect(alpha.metadata?.folderPath).toBe("Projects/Alpha");
+      expect(alpha.children.map((n) => n.name)).toEqual(["spec", "Design"]);
+    });
+
+    it("should limit folder depth and group under a folder key", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [
+          { type: "folder", key: "Projects/", depth: 1, virtual: false, showFullPath: true },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Projects/Alpha", "Projects/Beta"]);
+      // Files in deeper folders are grouped at the configured depth
+      expect(tree.children[0].fileCount).toBe(2);
+    });
+
+    it("should combine folder levels with property levels", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Status by Folder",
+        levels: [
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false },
+          { type: "folder", key: "Projects", depth: 1, virtual: false, showFullPath: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      const active = tree.children.find((n) => n.name === "active")!;
+      expect(active.children.map((n) => n.name)).toEqual(["Alpha", "Beta"]);
+      expect(active.children[0].type).toBe("folder");
+    });
+
+    it("should include folder segments in flattened paths", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Flat",
+        levels: [
+          { type: "folder", key: "Projects", depth: 1, virtual: false, showFullPath: false },
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual([
+        "Alpha; active",
+        "Alpha; draft",
+        "Beta; active",
+      ]);
+      expect(tree.children[0].metadata?.flattenedPath?.[0].levelType).toBe("folder");
+    });
+  });
+
+  describe("Date Hierarchy Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "jan.md", properties: { created: "2024-01-15" } },
+      { path: "feb.md", properties: { created: "2024-02-03" } },
+      { path: "dec.md", properties: { created: "2023-12-31" } },
+      { path: "oct.md", properties: { created: "2024-10-01" } },
+      { path: "undated.md", properties: { created: "someday" } },
+    ];
+
+    it("should nest year and month buckets", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "By Date",
+        levels: [
+          { type: "date", key: "created", source: "property", granularity: ["year", "month"] },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Non-date values don't match the level
+      expect(tree.children.map((n) => n.name)).toEqual(["2023", "2024"]);
+
+      const year2024 = tree.children[1];
+      expect(year2024.type).toBe("date");
+      expect(year2024.metadata?.dateBucket?.key).toBe("2024");
+      expect(year2024.fileCount).toBe(3);
+      expect(year2024.children.map((n) => n.name)).toEqual(["2024-01", "2024-02", "2024-10"]);
+      expect(year2024.children[0].metadata?.dateBucket?.granularity).toBe("month");
+      expect(year2024.children[0].children.map((n) => n.name)).toEqual(["jan"]);
+    });
+
+    it("should sort buckets chronologically and apply label formats", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "By Month",
+        levels: [
+          {
+            type: "date",
+            key: "created",
+            source: "property",
+            granularity: ["month"],
+            formats: { month: "MMMM YYYY" },
+          },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Alphabetical order would put "February" before "January"
+      expect(tree.children.map((n) => n.name)).toEqual([
+        "December 2023",
+        "January 2024",
+        "February 2024",
+        "October 2024",
+      ]);
+    });
+
+    it("should group by file timestamps", async () => {
+      createMockVault(app, [
+        { path: "a.md", stat: { mtime: new Date(2024, 2, 5).getTime() } },
+        { path: "b.md", stat: { mtime: new Date(2024, 6, 20).getTime() } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Modified",
+        levels: [
+          { type: "date", key: "", source: "mtime", granularity: ["quarter"] },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["2024 Q1", "2024 Q3"]);
+    });
+
+    it("should include date segments in flattened paths", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Flat",
+        levels: [
+          { type: "date", key: "created", source: "property", granularity: ["year", "month"] },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toContain("2024 / 2024-01");
+      expect(tree.children[0].metadata?.flattenedPath?.[0].levelType).toBe("date");
+    });
+  });
+
+  describe("Numeric Bucketing", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { estimate: 0.5 } },
+      { path: "b.md", properties: { estimate: 2 } },
+      { path: "c.md", properties: { estimate: "3" } },
+      { path: "d.md", properties: { estimate: 8 } },
+      { path: "e.md", properties: { estimate: 12 } },
+      { path: "f.md", properties: { estimate: "unknown" } },
+    ];
+
+    it("should group values into fixed-width bins", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Estimates",
+        levels: [
+          {
+            type: "property",
+            key: "estimate",
+            separateListValues: true,
+            showPropertyName: false,
+            bucketing: { mode: "width", width: 5 },
+          },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Non-numeric values don't match bucketed levels
+      expect(tree.children.map((n) => n.name)).toEqual(["0-5", "5-10", "10-15"]);
+      expect(tree.children[0].fileCount).toBe(3);
+      expect(tree.children[0].metadata?.numericRange).toEqual({ min: 0, max: 5, values: [0.5, 2, 3] });
+    });
+
+    it("should group values by explicit breakpoints", async () => {
+      createMockVault(app, [...files, { path: "g.md", properties: { estimate: -1 } }]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Estimates",
+        levels: [
+          {
+            type: "property",
+            key: "estimate",
+            separateListValues: true,
+            showPropertyName: false,
+            bucketing: { mode: "breakpoints", breakpoints: [0, 1, 5] },
+          },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["<0", "0-1", "1-5", "5+"]);
+      expect(tree.children[3].fileCount).toBe(2);
+    });
+
+    it("should split values into quantiles", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Estimates",
+        levels: [
+          {
+            type: "property",
+            key: "estimate",
+            separateListValues: true,
+            showPropertyName: false,
+            bucketing: { mode: "quantiles", quantiles: 2 },
+          },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Median of [0.5, 2, 3, 8, 12] is 3
+      expect(tree.children.map((n) => n.name)).toEqual(["0.5-3", "3+"]);
+      expect(tree.children.map((n) => n.fileCount)).toEqual([2, 3]);
+    });
+
+    it("should split values into quantiles of the files taking a branch", async () => {
+      createMockVault(app, files.map((file) => ({
+        ...file,
+        properties: { ...file.properties, team: ["a.md", "b.md", "c.md"].includes(file.path) ? "core" : "ops" },
+      })));
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Estimates",
+        levels: [
+          {
+            type: "property",
+            key: "team",
+            separateListValues: true,
+            showPropertyName: false,
+            branches: [
+              {
+                value: "core",
+                levels: [
+                  {
+                    type: "property",
+                    key: "estimate",
+                    separateListValues: true,
+                    showPropertyName: false,
+                    bucketing: { mode: "quantiles", quantiles: 2 },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Median of the core team's [0.5, 2, 3] is 2 (the whole vault's would be 3)
+      const core = tree.children.find((n) => n.name === "core")!;
+      expect(core.children.map((n) => n.name)).toEqual(["0.5-2", "2+"]);
+      expect(core.children.map((n) => n.fileCount)).toEqual([1, 2]);
+    });
+
+    it("should keep numeric order under alpha and count sort modes", async () => {
+      createMockVault(app, [
+        ...files,
+        { path: "g.md", properties: { estimate: -7 } },
+        { path: "h.md", properties: { estimate: -2 } },
+      ]);
+      await indexer.initialize();
+
+      const config = {
+        name: "Estimates",
+        levels: [
+          {
+            type: "property" as const,
+            key: "estimate",
+            separateListValues: true,
+            showPropertyName: false,
+            bucketing: { mode: "width" as const, width: 5 },
+          },
+        ],
+        showPartialMatches: false,
+      };
+
+      // By name, "-5-0" would sort before "-10--5"
+      const alpha = builder.buildFromHierarchy({
+        ...config,
+        defaultNodeSortMode: "alpha-asc",
+      });
+      expect(alpha.children.map((n) => n.name)).toEqual(["-10--5", "-5-0", "0-5", "5-10", "10-15"]);
+
+      const countAsc = builder.buildFromHierarchy({
+        ...config,
+        defaultNodeSortMode: "count-asc",
+      });
+      // Buckets with a single file tie and keep numeric order
+      expect(countAsc.children.map((n) => n.name)).toEqual(["-10--5", "-5-0", "5-10", "10-15", "0-5"]);
+    });
+  });
+
+  describe("Link Resolution", () => {
+    const files: MockFileConfig[] = [
+      { path: "Projects/Alpha.md", properties: { aliases: ["Project Alpha"] } },
+      { path: "Projects/Beta.md" },
+      { path: "one.md", properties: { project: "[[Alpha]]" } },
+      { path: "two.md", properties: { project: "[[Alpha|A]]" } },
+      { path: "three.md", properties: { project: ["[[Projects/Alpha]]", "[[Beta#Goals]]"] } },
+      { path: "four.md", properties: { project: "[[Missing]]" } },
+      { path: "five.md", properties: { project: "plain text" } },
+    ];
+
+    const linkLevel = {
+      type: "property" as const,
+      key: "project",
+      separateListValues: true,
+      showPropertyName: false,
+      resolveLinks: true,
+    };
+
+    it("should group links by their target note", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [linkLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Alpha", "Beta", "plain text", "unresolved"]);
+
+      const alpha = tree.children[0];
+      expect(alpha.fileCount).toBe(3);
+      expect(alpha.metadata?.linkTarget).toBe("Projects/Alpha.md");
+
+      const unresolved = tree.children[3];
+      expect(unresolved.metadata?.unresolvedLinks).toBe(true);
+      expect(unresolved.children.map((n) => n.name)).toEqual(["four"]);
+    });
+
+    it("should show the target's alias when configured", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [{ ...linkLevel, showLinkAlias: true }],
+        showPartialMatches: false,
+      });
+
+      // Beta has no alias and falls back to its basename
+      expect(tree.children.map((n) => n.name)).toContain("Project Alpha");
+      expect(tree.children.map((n) => n.name)).toContain("Beta");
+    });
+
+    it("should keep raw link values without link resolution", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [{ ...linkLevel, resolveLinks: false }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toContain("[[Alpha|A]]");
+      expect(tree.children.map((n) => n.name)).toContain("[[Alpha]]");
+    });
+  });
+
+  describe("Roll-up Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "Projects/Alpha.md", properties: { area: "Work" } },
+      { path: "Projects/Beta.md", properties: { area: "Home" } },
+      { path: "task1.md", properties: { project: "[[Alpha]]" } },
+      { path: "task2.md", properties: { project: "[[Alpha|A]]" } },
+      { path: "task3.md", properties: { project: "[[Beta]]" } },
+      { path: "task4.md", properties: { project: "[[Missing]]" } },
+    ];
+
+    it("should build Area → Project → Task trees through links", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Areas",
+        levels: [
+          { type: "property", key: "area", via: "project", separateListValues: true, showPropertyName: false },
+          { type: "property", key: "project", resolveLinks: true, separateListValues: true, showPropertyName: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      // Project notes have no "project" link, and task4's link doesn't resolve
+      expect(tree.children.map((n) => n.name)).toEqual(["Home", "Work"]);
+
+      const work = tree.children[1];
+      expect(work.metadata?.rollupVia).toBe("project");
+      expect(work.children.map((n) => n.name)).toEqual(["Alpha"]);
+      expect(work.children[0].children.map((n) => n.name)).toEqual(["task1", "task2"]);
+    });
+  });
+
+  describe("Inline Field Sources", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { status: "draft" }, content: "status:: active" },
+      { path: "b.md", content: "Intro\nstatus:: done" },
+      { path: "c.md", properties: { status: "draft" } },
+    ];
+
+    beforeEach(() => {
+      indexer = new VaultIndexer(app, { inlineFields: true });
+      builder = new TreeBuilder(app, indexer);
+    });
+
+    const buildWithSource = (propertySource?: "frontmatter" | "inline" | "both") =>
+      builder.buildFromHierarchy({
+        name: "Status",
+        levels: [
+          { type: "property", key: "status", propertySource, separateListValues: true, showPropertyName: false },
+        ],
+        showPartialMatches: false,
+      });
+
+    it("should group by frontmatter, inline fields or both", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      expect(buildWithSource().children.map((n) => n.name)).toEqual(["draft"]);
+      expect(buildWithSource("inline").children.map((n) => n.name)).toEqual(["active", "done"]);
+
+      const both = buildWithSource("both");
+      expect(both.children.map((n) => n.name)).toEqual(["active", "done", "draft"]);
+      expect(both.children[2].fileCount).toBe(2);
+    });
+
+    it("should read date levels from inline fields", async () => {
+      createMockVault(app, [
+        { path: "a.md", properties: { due: "2023-05-01" }, content: "due:: 2024-03-15" },
+        { path: "b.md", content: "due:: 2025-01-02" },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Due",
+        levels: [{ type: "date", key: "due", source: "property", propertySource: "inline", granularity: ["year"] }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["2024", "2025"]);
+      // Search can't test inline fields
+      expect(tree.children[0].metadata?.dateBucket?.property).toBeUndefined();
+    });
+  });
+
+  describe("Nested Property Paths", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { meta: { owner: "alice", review: { state: "done" } } } },
+      { path: "b.md", properties: { meta: { owner: "bob", review: { state: "open" } } } },
+      { path: "c.md", properties: { items: [{ name: "Alpha" }, { name: "Beta" }] } },
+      { path: "d.md", properties: { items: [{ name: "Beta" }, { other: 1 }] } },
+    ];
+
+    const buildByKey = (key: string) =>
+      builder.buildFromHierarchy({
+        name: "Nested",
+        levels: [{ type: "property", key, separateListValues: true, showPropertyName: false }],
+        showPartialMatches: false,
+      });
+
+    it("should group by dot paths into nested objects", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = buildByKey("meta.review.state");
+      expect(tree.children.map((n) => n.name)).toEqual(["done", "open"]);
+      expect(tree.children[0].children.map((n) => n.name)).toEqual(["a"]);
+    });
+
+    it("should map over lists of objects", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = buildByKey("items[].name");
+      expect(tree.children.map((n) => n.name)).toEqual(["Alpha", "Beta"]);
+      expect(tree.children[1].fileCount).toBe(2);
+    });
+
+    it("should read date levels through dot paths", async () => {
+      createMockVault(app, [
+        { path: "a.md", properties: { meta: { due: "2024-03-15" } } },
+        { path: "b.md", properties: { meta: { due: "2025-01-02" } } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Due",
+        levels: [{ type: "date", key: "meta.due", source: "property", granularity: ["year"] }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["2024", "2025"]);
+      expect(tree.children[0].children.map((n) => n.name)).toEqual(["a"]);
+    });
+  });
+
+  describe("Value Mapping", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { status: "done" } },
+      { path: "b.md", properties: { status: " Done " } },
+      { path: "c.md", properties: { status: "completed" } },
+      { path: "d.md", properties: { status: "✅" } },
+      { path: "e.md", properties: { status: "open" } },
+      { path: "f.md", properties: { status: "blocked" } },
+    ];
+
+    const statusLevel = {
+      type: "property" as const,
+      key: "status",
+      separateListValues: true,
+      showPropertyName: false,
+      valueMapping: {
+        values: { completed: "done", "✅": "done", todo: "open" },
+        ignoreCase: true,
+        trim: true,
+      },
+    };
+
+    it("should canonicalize values before grouping", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Status",
+        levels: [statusLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["blocked", "done", "open"]);
+      const done = tree.children[1];
+      expect(done.fileCount).toBe(4);
+      expect(done.metadata?.rawValues).toEqual([" Done ", "completed", "done", "✅"]);
+    });
+
+    it("should group unmapped values under the fallback", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Status",
+        levels: [{ ...statusLevel, valueMapping: { ...statusLevel.valueMapping, fallback: "other" } }],
+        showPartialMatches: false,
+      });
+
+      // "open" is a mapping target, so it isn't caught by the fallback
+      expect(tree.children.map((n) => n.name)).toEqual(["done", "open", "other"]);
+    });
+
+    it("should apply the mapping in flattened mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Status",
+        levels: [statusLevel],
+        showPartialMatches: false,
+      });
+
+      const done = tree.children.find((n) => n.metadata?.flattenedPath?.[0].segment === "done");
+      expect(done?.fileCount).toBe(4);
+    });
+  });
+
+  describe("Missing Groups", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", tags: ["project/alpha"], properties: { status: "open" } },
+      { path: "b.md", tags: ["project/beta"] },
+      { path: "c.md", properties: { status: "done" } },
+      { path: "d.md" },
+    ];
+
+    it("should collect files without the property into a missing group", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Status",
+        levels: [
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false, showMissing: true },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["(no status)", "done", "open"]);
+      const missing = tree.children[0];
+      expect(missing.type).toBe("property-group");
+      expect(missing.fileCount).toBe(2);
+      expect(missing.metadata?.levelIndex).toBe(0);
+      expect(missing.metadata?.missingValue).toEqual({ levelType: "property", key: "status", searchable: true });
+    });
+
+    it("should continue to the next level from the missing group", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [
+          { type: "tag", key: "project", depth: 2, virtual: false, showFullPath: false, showMissing: true, missingLabel: "Unfiled" },
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false, showMissing: true },
+        ],
+        showPartialMatches: false,
+      });
+
+      const unfiled = tree.children.find((n) => n.name === "Unfiled")!;
+      expect(unfiled.fileCount).toBe(2);
+      expect(unfiled.children.map((n) => n.name)).toEqual(["(no status)", "done"]);
+
+      // Tag groups get a missing group for the next level too
+      const beta = tree.children.find((n) => n.name === "beta")!;
+      expect(beta.children.map((n) => n.name)).toEqual(["(no status)"]);
+    });
+
+    it("should use the missing group as a flattened segment", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Status",
+        levels: [
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false, showMissing: true },
+        ],
+        showPartialMatches: false,
+      });
+
+      const missing = tree.children.find((n) => n.metadata?.flattenedPath?.[0].segment === "(no status)");
+      expect(missing?.fileCount).toBe(2);
+    });
+  });
+
+  describe("Smart-Group Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { priority: "high", due: "2024-01-01" } },
+      { path: "b.md", properties: { priority: "high" } },
+      { path: "c.md", properties: { priority: "low", due: "2024-02-01" } },
+      { path: "d.md", properties: { priority: "low" } },
+    ];
+
+    const groups = [
+      {
+        name: "Urgent",
+        filters: {
+          version: 2 as const,
+          filters: [
+            { label: "A", filter: { id: "a", type: "property-value" as const, property: "priority", operator: "equals" as const, value: "high", valueType: "string" as const } },
+            { label: "B", filter: { id: "b", type: "property-exists" as const, property: "due" } },
+          ],
+          expression: "A & B",
+        },
+      },
+      {
+        name: "Scheduled",
+        filters: {
+          version: 2 as const,
+          filters: [{ label: "A", filter: { id: "a", type: "property-exists" as const, property: "due" } }],
+          expression: "",
+        },
+      },
+      { name: "Everything else", filters: { version: 2 as const, filters: [], expression: "" } },
+    ];
+
+    it("should put each file in its first matching group, in configured order", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Triage",
+        levels: [{ type: "smart-group", key: "Triage", groups }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Urgent", "Scheduled", "Everything else"]);
+      expect(tree.children.map((n) => n.fileCount)).toEqual([1, 1, 2]);
+      expect(tree.children[0].type).toBe("smart-group");
+      expect(tree.children[0].metadata?.smartGroup).toEqual({ name: "Urgent", index: 0 });
+    });
+
+    it("should put files in every matching group in all-matches mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Triage",
+        levels: [{ type: "smart-group", key: "Triage", groups, matchMode: "all" }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.fileCount)).toEqual([1, 2, 4]);
+    });
+
+    it("should continue to the next level inside each group", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Triage",
+        levels: [
+          { type: "smart-group", key: "Triage", groups: groups.slice(0, 2) },
+          { type: "property", key: "priority", separateListValues: true, showPropertyName: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Urgent", "Scheduled"]);
+      expect(tree.children[1].children.map((n) => n.name)).toEqual(["low"]);
+    });
+  });
+
+  describe("Other Groups", () => {
+    const files: MockFileConfig[] = [
+      { path: "a1.md", properties: { author: "Ann" } },
+      { path: "a2.md", properties: { author: "Ann" } },
+      { path: "a3.md", properties: { author: "Ann" } },
+      { path: "b1.md", properties: { author: "Bob" } },
+      { path: "b2.md", properties: { author: "Bob" } },
+      { path: "c1.md", properties: { author: ["Cid", "Dee"] } },
+      { path: "d1.md", properties: { author: "Dee" } },
+      { path: "e1.md", properties: { author: "Eve" } },
+    ];
+
+    it("should keep the largest groups and fold the rest", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Authors",
+        levels: [{ type: "property", key: "author", separateListValues: true, showPropertyName: false, maxGroups: 2 }],
+        showPartialMatches: false,
+        defaultNodeSortMode: "count-asc",
+      });
+
+      // Other stays last even when sorting by count
+      expect(tree.children.map((n) => n.name)).toEqual(["Bob", "Ann", "Other (3 values)"]);
+
+      const other = tree.children[2];
+      expect(other.metadata?.otherGroup?.foldedCount).toBe(3);
+      expect(other.children.map((n) => n.name)).toEqual(["Cid", "Eve", "Dee"]);
+      expect(other.children[0].parent).toBe(other);
+      expect(other.children[0].depth).toBe(2);
+      // c1 has two folded values: two occurrences, one unique file
+      expect(other.fileCount).toBe(4);
+      expect(other.uniqueFileCount).toBe(3);
+    });
+
+    it("should fold groups below a minimum file count", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Authors",
+        levels: [{
+          type: "property",
+          key: "author",
+          separateListValues: true,
+          showPropertyName: false,
+          minGroupCount: 3,
+          otherLabel: "Occasional",
+        }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["Ann", 3],
+        ["Occasional (4 values)", 6],
+      ]);
+    });
+
+    it("should count Other groups like their siblings in each count mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const buildCounts = (countMode: NodeCountMode) => {
+        const tree = builder.buildFromHierarchy({
+          name: "Authors",
+          levels: [{ type: "property", key: "author", separateListValues: true, showPropertyName: false, maxGroups: 2 }],
+          showPartialMatches: false,
+          countMode,
+        });
+        return {
+          groups: tree.children.map((n) => getNodeCount(n, countMode)),
+          total: getNodeCount(tree, countMode),
+        };
+      };
+
+      // Occurrences add up to the parent's count; unique files don't double-count c1
+      expect(buildCounts("occurrences")).toEqual({ groups: [3, 2, 4], total: 9 });
+      expect(buildCounts("unique")).toEqual({ groups: [3, 2, 3], total: 8 });
+    });
+
+    it("should fold groups under each parent separately", async () => {
+      createMockVault(app, [
+        { path: "a.md", tags: ["x"], properties: { status: "active" } },
+        { path: "b.md", tags: ["x"], properties: { status: "active" } },
+        { path: "c.md", tags: ["x"], properties: { status: "done" } },
+        { path: "d.md", tags: ["y"], properties: { status: "done" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Tags",
+        levels: [
+          { type: "tag", key: "", depth: 1, virtual: false, showFullPath: false },
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false, maxGroups: 1 },
+        ],
+        showPartialMatches: false,
+      });
+
+      const [x, y] = tree.children;
+      expect(x.children.map((n) => n.name)).toEqual(["active", "Other (1 value)"]);
+      expect(x.children[1].id).toBe(`${x.id}/other:1`);
+      expect(y.children.map((n) => n.name)).toEqual(["done"]);
+    });
+
+    it("should validate folding options", () => {
+      expect(validateHierarchyLevel({ type: "property", key: "author", maxGroups: 0 }).valid).toBe(false);
+      expect(validateHierarchyLevel({ type: "property", key: "author", minGroupCount: 2.5 }).valid).toBe(false);
+      expect(validateHierarchyLevel({ type: "parent-link", key: "up", maxGroups: 3 }).valid).toBe(false);
+      expect(validateHierarchyLevel({ type: "property", key: "author", maxGroups: 5, minGroupCount: 2 }).valid).toBe(true);
+    });
+  });
+
+  describe("Value Lists", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", tags: ["project/alpha/api"], properties: { status: "active" } },
+      { path: "b.md", tags: ["project/beta"], properties: { status: "archived" } },
+      { path: "c.md", tags: ["project/gamma"], properties: { status: "Archived" } },
+      { path: "d.md", tags: ["project/alpha"], properties: { status: "draft" } },
+    ];
+
+    const statusLevel = { type: "property" as const, key: "status", separateListValues: true, showPropertyName: false };
+    const projectLevel = { type: "tag" as const, key: "project", depth: -1, virtual: false, showFullPath: false };
+
+    it("should prune groups by include and exclude lists at their level only", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const byStatus = builder.buildFromHierarchy({
+        name: "Status",
+        levels: [{ ...statusLevel, excludeValues: ["archived"] }],
+        showPartialMatches: false,
+      });
+      expect(byStatus.children.map((n) => n.name)).toEqual(["active", "draft"]);
+
+      // Tags are matched by path or name; sub-tags of included tags are kept
+      const byProject = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [{ ...projectLevel, depth: 2, includeValues: ["/alpha|beta$/"] }, statusLevel],
+        showPartialMatches: false,
+      });
+      expect(byProject.children.map((n) => n.name)).toEqual(["alpha", "beta"]);
+      expect(byProject.children[0].children.map((n) => n.name)).toEqual(["api"]);
+    });
+
+    it("should remove groups left empty by pruned sub-groups", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [
+          { ...projectLevel, depth: 1 },
+          { ...statusLevel, includeValues: ["active", "draft"] },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([["alpha", 2]]);
+    });
+
+    it("should hide toolbar-toggled groups and still list them", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const config: HierarchyConfig = {
+        name: "Status",
+        levels: [{ ...statusLevel, excludeValues: ["draft"] }],
+        showPartialMatches: false,
+      };
+      const viewState = { expandedNodes: [], showFiles: true, hiddenGroupValues: { 0: ["active"] } };
+
+      const tree = builder.buildFromHierarchy(config, viewState);
+      expect(tree.children.map((n) => n.name)).toEqual(["Archived", "archived"].sort((a, b) => a.localeCompare(b)));
+      expect(builder.getLevelGroupValues().get(0)).toEqual(["active", "archived", "Archived"].sort((a, b) => a.localeCompare(b)));
+
+      const flat = builder.buildFlattenedTree(config, viewState);
+      expect(flat.children.map((n) => n.name).sort()).toEqual(["Archived", "archived"].sort());
+    });
+
+    it("should list and hide tags of simple tag views", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const config: HierarchyConfig = { name: "Tags", levels: [{ ...projectLevel, key: "" }], showPartialMatches: false };
+      builder.buildFromHierarchy(config);
+      expect(builder.getLevelGroupValues().get(0)).toEqual(["project"]);
+
+      const tree = builder.buildFromHierarchy(config, { expandedNodes: [], showFiles: true, hiddenGroupValues: { 0: ["project"] } });
+      expect(tree.children).toEqual([]);
+    });
+
+    it("should report invalid regular expressions in validation", () => {
+      expect(validateHierarchyLevel({ ...statusLevel, excludeValues: ["/(archived/"] }).errors[0]).toContain("Invalid regular expression");
+      expect(validateHierarchyLevel({ ...statusLevel, includeValues: "active" }).errors[0]).toContain("array of strings");
+      expect(validateHierarchyLevel({ ...statusLevel, includeValues: ["active", "/^dr/i"] }).valid).toBe(true);
+    });
+  });
+
+  describe("Aggregates", () => {
+    const files: MockFileConfig[] = [
+      { path: "one.md", properties: { project: "X", topics: ["api", "ui"], estimate: 3 }, stat: { mtime: 3000 } },
+      { path: "two.md", properties: { project: "X", topics: ["api"], estimate: "2" }, stat: { mtime: 1000 } },
+      { path: "three.md", properties: { project: "X", topics: ["ui"], estimate: "n/a" }, stat: { mtime: 2000 } },
+      { path: "four.md", properties: { project: "Y", topics: ["api"] }, stat: { mtime: 500 } },
+    ];
+
+    const createAggregateConfig = (extra: Partial<HierarchyConfig> = {}): HierarchyConfig => ({
+      name: "Estimates",
+      levels: [
+        { type: "property", key: "project", separateListValues: true, showPropertyName: false },
+        { type: "property", key: "topics", separateListValues: true, showPropertyName: false },
+      ],
+      showPartialMatches: false,
+      aggregates: [
+        { function: "sum", property: "estimate" },
+        { function: "avg", property: "estimate" },
+        { function: "max", stat: "mtime" },
+      ],
+      ...extra,
+    });
+
+    it("should aggregate over each group's distinct files", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createAggregateConfig());
+      const projectX = tree.children.find((n) => n.name === "X")!;
+
+      // one.md is listed under both topics but counts once for the project
+      expect(projectX.aggregates).toEqual([5, 2.5, 3000]);
+      expect(projectX.children.find((n) => n.name === "api")!.aggregates).toEqual([5, 2.5, 3000]);
+      expect(projectX.children.find((n) => n.name === "ui")!.aggregates).toEqual([3, 3, 3000]);
+      expect(tree.children.find((n) => n.name === "Y")!.aggregates).toEqual([null, null, 500]);
+    });
+
+    it("should sort groups by an aggregate with groups without a value last", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const names = (config: HierarchyConfig) =>
+        builder.buildFromHierarchy(config).children.find((n) => n.name === "X")!.children.map((n) => n.name);
+
+      expect(names(createAggregateConfig({ defaultNodeSortMode: "aggregate-desc:0" }))).toEqual(["api", "ui"]);
+      expect(names(createAggregateConfig({ defaultNodeSortMode: "aggregate-asc:0" }))).toEqual(["ui", "api"]);
+
+      const projects = builder.buildFromHierarchy(createAggregateConfig({ defaultNodeSortMode: "aggregate-asc:1" }));
+      expect(projects.children.map((n) => n.name)).toEqual(["X", "Y"]);
+    });
+
+    it("should leave aggregates unset when the view has none", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createAggregateConfig({ aggregates: undefined }));
+      expect(tree.children[0].aggregates).toBeUndefined();
+    });
+
+    it("should validate aggregates and aggregate sort modes", () => {
+      expect(validateHierarchyConfig(createAggregateConfig({ defaultNodeSortMode: "aggregate-desc:2" })).valid).toBe(true);
+      expect(validateHierarchyConfig(createAggregateConfig({ defaultNodeSortMode: "aggregate-desc:3" })).errors[0])
+        .toContain("refers to aggregate 4");
+      expect(validateHierarchyConfig(createAggregateConfig({ aggregates: [{ function: "median", property: "estimate" } as any] })).valid)
+        .toBe(false);
+      expect(validateHierarchyConfig(createAggregateConfig({ aggregates: [{ function: "sum", property: "estimate", stat: "size" }] })).errors[0])
+        .toContain("either a 'property' or a 'stat'");
+    });
+
+    it("should read and write aggregates as lines", () => {
+      expect(parseAggregateLine("max file.mtime as Last edit")).toEqual({ function: "max", stat: "mtime", label: "Last edit" });
+      expect(parseAggregateLine("SUM estimate")).toEqual({ function: "sum", property: "estimate" });
+      expect(parseAggregateLine("total estimate")).toBeNull();
+      expect(formatAggregateLine({ function: "avg", property: "meta.hours", label: "Hours" })).toBe("avg meta.hours as Hours");
+    });
+  });
+
+  describe("Count Modes", () => {
+    const files: MockFileConfig[] = [
+      { path: "one.md", properties: { project: "X", topics: ["api", "ui", "docs"] } },
+      { path: "two.md", properties: { project: "Y", topics: ["api"] } },
+      { path: "three.md", properties: { project: "Y", topics: ["ui"] } },
+    ];
+
+    const createCountConfig = (extra: Partial<HierarchyConfig> = {}): HierarchyConfig => ({
+      name: "Topics",
+      levels: [
+        { type: "property", key: "project", separateListValues: true, showPropertyName: false },
+        { type: "property", key: "topics", separateListValues: true, showPropertyName: false },
+      ],
+      showPartialMatches: false,
+      defaultNodeSortMode: "count-desc",
+      ...extra,
+    });
+
+    it("should track occurrence and unique file counts", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createCountConfig());
+      const projectX = tree.children.find((n) => n.name === "X")!;
+
+      expect(projectX.fileCount).toBe(3);
+      expect(projectX.uniqueFileCount).toBe(1);
+      expect(projectX.children.find((n) => n.name === "api")!.uniqueFileCount).toBe(1);
+      expect(tree.fileCount).toBe(5);
+      expect(getNodeCount(tree, "unique")).toBe(3);
+    });
+
+    it("should sort by the view's count mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const names = (config: HierarchyConfig) => builder.buildFromHierarchy(config).children.map((n) => n.name);
+
+      expect(names(createCountConfig())).toEqual(["X", "Y"]);
+      expect(names(createCountConfig({ countMode: "unique" }))).toEqual(["Y", "X"]);
+      expect(validateHierarchyConfig(createCountConfig({ countMode: "distinct" as any })).valid).toBe(false);
+    });
+  });
+
+  describe("Progress", () => {
+    const files: MockFileConfig[] = [
+      { path: "one.md", properties: { project: "X", topics: ["api", "ui"], status: "done", reviewed: true } },
+      { path: "two.md", properties: { project: "X", topics: ["api"], status: "open", reviewed: false } },
+      { path: "three.md", properties: { project: "Y", topics: ["ui"], status: "done" } },
+    ];
+
+    const createProgressConfig = (progress: HierarchyConfig["progress"]): HierarchyConfig => ({
+      name: "Projects",
+      levels: [
+        { type: "property", key: "project", separateListValues: true, showPropertyName: false },
+        { type: "property", key: "topics", separateListValues: true, showPropertyName: false },
+      ],
+      showPartialMatches: false,
+      progress,
+    });
+
+    it("should count distinct files matching the progress filters", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(
+        createProgressConfig({
+          filters: {
+            version: 2,
+            filters: [{ label: "A", filter: { id: "a", type: "property-value", property: "status", operator: "equals", value: "done", valueType: "string" } }],
+            expression: "A",
+          },
+        })
+      );
+      const projectX = tree.children.find((n) => n.name === "X")!;
+
+      expect(projectX.progress).toEqual({ done: 1, total: 2 });
+      expect(getProgressPercent(projectX)).toBe(50);
+      expect(projectX.children.find((n) => n.name === "ui")!.progress).toEqual({ done: 1, total: 1 });
+      expect(tree.progress).toEqual({ done: 2, total: 3 });
+    });
+
+    it("should count files with a checked checkbox property", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createProgressConfig({ property: "reviewed" }));
+
+      expect(tree.children.find((n) => n.name === "X")!.progress).toEqual({ done: 1, total: 2 });
+      expect(tree.children.find((n) => n.name === "Y")!.progress).toEqual({ done: 0, total: 1 });
+      expect(builder.buildFromHierarchy(createProgressConfig(undefined)).children[0].progress).toBeUndefined();
+    });
+
+    it("should require either filters or a checkbox property", () => {
+      expect(validateHierarchyConfig(createProgressConfig({ property: "reviewed" })).valid).toBe(true);
+      expect(validateHierarchyConfig(createProgressConfig({})).valid).toBe(false);
+      expect(validateHierarchyConfig(createProgressConfig({ property: " " })).valid).toBe(false);
+      expect(
+        validateHierarchyConfig(
+          createProgressConfig({ property: "reviewed", filters: { version: 2, filters: [], expression: "" } })
+        ).valid
+      ).toBe(false);
+    });
+  });
+
+  describe("Branching Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { status: "active", priority: "high" } },
+      { path: "b.md", properties: { status: "active", priority: "low" } },
+      { path: "c.md", properties: { status: "done", completed: "2024-03-05", priority: "high" } },
+      { path: "d.md", properties: { status: "done", completed: "2024-04-01" } },
+      { path: "e.md", properties: { status: "waiting", priority: "low" } },
+    ];
+
+    const createBranchingConfig = (): HierarchyConfig => ({
+      name: "Status",
+      levels: [
+        {
+          type: "property",
+          key: "status",
+          separateListValues: true,
+          showPropertyName: false,
+          branches: [
+            { value: "active", levels: [{ type: "property", key: "priority", separateListValues: true, showPropertyName: false }] },
+            { value: "Done", levels: [{ type: "date", key: "completed", source: "property", granularity: ["month"] }] },
+            { value: "waiting", levels: [] },
+          ],
+        },
+        { type: "property", key: "owner", separateListValues: true, showPropertyName: false },
+      ],
+      showPartialMatches: false,
+    });
+
+    it("should use each group's branch levels", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createBranchingConfig());
+      const [active, done, waiting] = tree.children;
+
+      expect(active.children.map((n) => n.name)).toEqual(["high", "low"]);
+      expect(done.children.map((n) => n.name)).toEqual(["2024-03", "2024-04"]);
+      // An empty branch ends at the group
+      expect(waiting.children.map((n) => n.type)).toEqual(["file"]);
+
+      // Branch levels are numbered after the top-level levels
+      expect(active.children[0].metadata?.levelIndex).toBe(2);
+      expect(done.children[0].metadata?.levelIndex).toBe(3);
+      expect(active.children[0].children[0].name).toBe("a");
+    });
+
+    it("should send files matching no branch to the levels below", async () => {
+      createMockVault(app, [
+        ...files,
+        { path: "f.md", properties: { status: "blocked", owner: "Ann" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy(createBranchingConfig());
+      const blocked = tree.children.find((n) => n.name === "blocked")!;
+
+      expect(blocked.children.map((n) => n.name)).toEqual(["Ann"]);
+      expect(blocked.children[0].metadata?.levelIndex).toBe(1);
+    });
+
+    it("should split a group's files by filter branches", async () => {
+      createMockVault(app, [
+        { path: "a.md", tags: ["project"], properties: { status: "active" } },
+        { path: "b.md", tags: ["project"], properties: { status: "done", archived: true } },
+        { path: "c.md", tags: ["project"], properties: { status: "done" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [
+          {
+            type: "tag",
+            key: "project",
+            depth: 1,
+            virtual: false,
+            showFullPath: false,
+            branches: [{
+              filters: {
+                version: 2,
+                filters: [{ label: "A", filter: { id: "a", type: "property-exists", property: "archived" } }],
+                expression: "A",
+              },
+              levels: [],
+            }],
+          },
+          { type: "property", key: "status", separateListValues: true, showPropertyName: false },
+        ],
+        showPartialMatches: false,
+      });
+
+      const project = tree.children[0];
+      expect(project.children.map((n) => n.name)).toEqual(["b", "active", "done"]);
+      expect(project.children[2].children.map((n) => n.name)).toEqual(["c"]);
+    });
+
+    it("should follow branches in flat mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree(createBranchingConfig());
+
+      expect(tree.children.map((n) => n.name).sort()).toEqual([
+        "active; high",
+        "active; low",
+        "done; 2024-03",
+        "done; 2024-04",
+        "waiting",
+      ]);
+    });
+
+    it("should validate branches and their levels", () => {
+      const result = validateHierarchyLevel({
+        type: "property",
+        key: "status",
+        branches: [{ value: "active", levels: [{ type: "nope", key: "x" }] }, { value: 3 }],
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.startsWith("Branch 1: Level 1: Invalid hierarchy level type"))).toBe(true);
+      expect(result.errors).toContain("Branch 2: Branch 'value' must be a string");
+      expect(result.errors).toContain("Branch 2: Branch must have a 'levels' array (empty to end the branch)");
+
+      expect(validateHierarchyLevel(createBranchingConfig().levels[0]).valid).toBe(true);
+    });
+
+    it("should list branch levels after the top-level levels", () => {
+      const levels = createBranchingConfig().levels;
+      expect(getAllLevels(levels).map((l) => l.key)).toEqual(["status", "owner", "priority", "completed"]);
+    });
+  });
+
+  describe("Computed Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "Work/a.md", tags: ["urgent"], properties: { client: "Acme", due: "2024-03-05", priority: "P1" } },
+      { path: "Work/b.md", properties: { client: "Acme", due: "2025-01-10" } },
+      { path: "c.md", properties: { client: "Globex", due: "2024-07-01", meta: { team: "Ops" } } },
+      { path: "d.md", properties: { client: "Initech" } },
+    ];
+
+    const buildComputed = (template: string, extra: Record<string, any> = {}) =>
+      builder.buildFromHierarchy({
+        name: "Computed",
+        levels: [{ type: "computed", key: "Computed", template, ...extra }],
+        showPartialMatches: false,
+      });
+
+    it("should group files by a template over several properties", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = buildComputed("${client} / ${year(due)}");
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Acme / 2024", "Acme / 2025", "Globex / 2024"]);
+      expect(tree.children[0].metadata?.template).toBe("${client} / ${year(due)}");
+    });
+
+    it("should support defaults, functions, paths and file fields", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      expect(buildComputed('${priority ?? "P3"}').children.map((n) => [n.name, n.fileCount]))
+        .toEqual([["P1", 1], ["P3", 3]]);
+      expect(buildComputed("${upper(meta.team ?? file.folder ?? 'none')}").children.map((n) => n.name))
+        .toEqual(["NONE", "OPS", "WORK"]);
+      expect(buildComputed("${first(tags) ?? 'untagged'}-${quarter(due)}").children.map((n) => n.name))
+        .toEqual(["untagged-Q1", "untagged-Q3", "urgent-Q1"]);
+    });
+
+    it("should leave files without a value out, or in the missing group", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = buildComputed("${year(due)}", { showMissing: true });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["(no Computed)", "2024", "2025"]);
+      expect(tree.children[0].fileCount).toBe(1);
+    });
+
+    it("should report template errors in validation", () => {
+      const errors = validateHierarchyLevel({ type: "computed", key: "Computed", template: "${client} / ${yeer(due)}" }).errors;
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toContain("Unknown function 'yeer'");
+
+      for (const name of ["constructor", "toString", "valueOf", "hasOwnProperty"]) {
+        const builtinErrors = validateHierarchyLevel({ type: "computed", key: "Computed", template: `\${${name}(x)}` }).errors;
+        expect(builtinErrors[0]).toContain(`Unknown function '${name}'`);
+      }
+
+      expect(validateHierarchyLevel({ type: "computed", key: "Computed", template: "${client" }).valid).toBe(false);
+      expect(validateHierarchyLevel({ type: "computed", key: "Computed", template: "no placeholder" }).valid).toBe(false);
+      expect(validateHierarchyLevel({ type: "computed", key: "Computed", template: "${prop(\"due date\") ?? 'x'}" }).valid).toBe(true);
+    });
+
+    it("should name groups with a level's label template", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Clients",
+        levels: [
+          { type: "property", key: "client", separateListValues: true, showPropertyName: true, labelTemplate: "${upper(value)} [${count}]" },
+        ],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["ACME [2]", "GLOBEX [1]", "INITECH [1]"]);
+      expect(tree.children[0].metadata?.propertyValue).toBe("Acme");
+
+      expect(validateHierarchyLevel({ type: "property", key: "client", labelTemplate: "${nope(value)}" }).valid).toBe(false);
+    });
+  });
+
+  describe("Regex Capture Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "Meetings/2024-03-12 Meeting - ClientX.md" },
+      { path: "Meetings/2024-04-02 Meeting - ClientY.md" },
+      { path: "Meetings/2024-05-20 meeting - ClientX.md" },
+      { path: "Archive/2023/Notes.md" },
+    ];
+
+    const regexLevel = {
+      type: "regex" as const,
+      key: "Client",
+      pattern: "^(?<date>\\d{4}-\\d{2}-\\d{2}) Meeting - (?<client>.+)$",
+      group: "client",
+      showMissing: true,
+    };
+
+    it("should group by a named capture with an unmatched group", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Clients",
+        levels: [regexLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["(unmatched)", 2],
+        ["ClientX", 1],
+        ["ClientY", 1],
+      ]);
+      expect(tree.children[1].metadata?.capturePattern).toBe(regexLevel.pattern);
+    });
+
+    it("should match the path and ignore case when configured", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const byClient = builder.buildFromHierarchy({
+        name: "Clients",
+        levels: [{ ...regexLevel, ignoreCase: true }],
+        showPartialMatches: false,
+      });
+      expect(byClient.children.find((n) => n.name === "ClientX")?.fileCount).toBe(2);
+
+      const byYear = builder.buildFromHierarchy({
+        name: "Years",
+        levels: [{ type: "regex", key: "Year", pattern: "^Archive/(\\d{4})/", source: "path" }],
+        showPartialMatches: false,
+      });
+      expect(byYear.children.map((n) => n.name)).toEqual(["2023"]);
+    });
+
+    it("should use captures as segments in flattened mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Clients",
+        levels: [
+          { type: "folder", key: "", depth: 1, virtual: false, showFullPath: false },
+          regexLevel,
+        ],
+        showPartialMatches: false,
+      });
+
+      const segments = tree.children.map((n) => n.metadata?.flattenedPath?.map((p) => p.segment).join(" / "));
+      expect(segments).toEqual(expect.arrayContaining(["Meetings / ClientX", "Meetings / ClientY", "Archive / (unmatched)"]));
+    });
+
+    it("should report invalid patterns and unknown groups in validation", () => {
+      expect(validateHierarchyLevel({ ...regexLevel, pattern: "(?<client>.+" }).errors[0]).toContain("Invalid regular expression");
+      expect(validateHierarchyLevel({ ...regexLevel, group: "customer" }).errors[0]).toContain("no capture group named 'customer'");
+      expect(validateHierarchyLevel(regexLevel).valid).toBe(true);
+    });
+  });
+
+  describe("Task Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", tasks: [" ", "x"] },
+      { path: "b.md", tasks: ["x", "-"] },
+      { path: "c.md", tasks: ["/"] },
+      { path: "d.md" },
+    ];
+
+    it("should group files by task state in a fixed order", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Tasks",
+        levels: [{ type: "task", key: "Tasks" }],
+        showPartialMatches: false,
+        defaultNodeSortMode: "alpha-asc",
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["Open tasks", 2],
+        ["All done", 1],
+        ["No tasks", 1],
+      ]);
+      expect(tree.children[0].metadata?.taskGroup).toBe("open");
+    });
+
+    it("should respect custom open statuses", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Tasks",
+        levels: [{ type: "task", key: "Tasks", openStatuses: " " }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["Open tasks", 1],
+        ["All done", 2],
+        ["No tasks", 1],
+      ]);
+    });
+
+    it("should group by status character with custom labels", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Tasks",
+        levels: [{ type: "task", key: "Tasks", groupBy: "status", labels: { "/": "In progress" } }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["[ ]", 1],
+        ["[-]", 1],
+        ["[x]", 2],
+        ["In progress", 1],
+      ]);
+    });
+
+    it("should filter files by task count", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Done",
+        filters: {
+          version: 2,
+          filters: [
+            { label: "A", filter: { id: "a", type: "task-count", status: "done", operator: "gte", value: 2 } },
+            { label: "B", filter: { id: "b", type: "task-count", status: "/", operator: "eq", value: 1 } },
+          ],
+          expression: "A | B",
+        },
+        levels: [{ type: "task", key: "Tasks" }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["Open tasks", 1],
+        ["All done", 1],
+      ]);
+    });
+  });
+
+  describe("Composite Levels", () => {
+    const files: MockFileConfig[] = [
+      { path: "a.md", properties: { client: "ClientX", project: "Alpha" } },
+      { path: "b.md", properties: { client: "ClientX", project: ["Alpha", "Beta"] } },
+      { path: "c.md", properties: { client: "ClientY", project: "Gamma", status: "done" } },
+      { path: "d.md", properties: { client: "ClientY" } },
+    ];
+
+    const compositeLevel = {
+      type: "composite" as const,
+      key: "Client · Project",
+      keys: [{ key: "client" }, { key: "project" }],
+    };
+
+    it("should group by a tuple of keys with one group per list combination", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [compositeLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["ClientX · Alpha", 2],
+        ["ClientX · Beta", 1],
+        ["ClientY · Gamma", 1],
+      ]);
+      expect(tree.children[1].metadata?.compositeValues).toEqual([
+        { key: "client", value: "ClientX" },
+        { key: "project", value: "Beta" },
+      ]);
+    });
+
+    it("should use per-key separators and collect files missing a key", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "Projects",
+        levels: [{
+          ...compositeLevel,
+          keys: [{ key: "client" }, { key: "project", separator: " / " }, { key: "status", separator: " – " }],
+          showMissing: true,
+        }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => [n.name, n.fileCount])).toEqual([
+        ["(no Client · Project)", 3],
+        ["ClientY / Gamma – done", 1],
+      ]);
+    });
+
+    it("should use composite keys as segments in flattened mode", async () => {
+      createMockVault(app, files);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Projects",
+        levels: [{ ...compositeLevel, separator: ":" }],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name).sort()).toEqual(["ClientX:Alpha", "ClientX:Beta", "ClientY:Gamma"]);
+    });
+
+    it("should require at least two keys in validation", () => {
+      expect(validateHierarchyLevel({ ...compositeLevel, keys: [{ key: "client" }] }).errors[0]).toContain("at least two 'keys'");
+      expect(validateHierarchyLevel({ ...compositeLevel, keys: [{ key: "client" }, { key: "" }] }).errors[0]).toContain("Composite key 2");
+      expect(validateHierarchyLevel(compositeLevel).valid).toBe(true);
+    });
+  });
+
+  describe("Parent-Link Hierarchy", () => {
+    const parentLevel = { type: "parent-link" as const, key: "up" };
+
+    it("should nest notes under their parent notes", async () => {
+      createMockVault(app, [
+        { path: "Home.md" },
+        { path: "Projects.md", properties: { up: "[[Home]]" } },
+        { path: "Alpha.md", properties: { up: "[[Projects|All projects]]" } },
+        { path: "Inbox.md", properties: { up: "[[Missing]]" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "MOCs",
+        levels: [parentLevel],
+        showPartialMatches: false,
+      });
+
+      // Notes without a (resolvable) parent sit at the top
+      expect(tree.children.map((n) => n.name)).toEqual(["Home", "Inbox"]);
+
+      const home = tree.children[0];
+      expect(home.type).toBe("note");
+      expect(home.fileCount).toBe(3);
+      expect(home.children[0].name).toBe("Projects");
+      expect(home.children[0].children[0].name).toBe("Alpha");
+    });
+
+    it("should show notes with multiple parents under each parent", async () => {
+      createMockVault(app, [
+        { path: "Work.md" },
+        { path: "Learning.md" },
+        { path: "Course.md", properties: { up: ["[[Work]]", "[[Learning]]"] } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "MOCs",
+        levels: [parentLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Learning", "Work"]);
+      expect(tree.children[0].children.map((n) => n.name)).toEqual(["Course"]);
+      expect(tree.children[1].children.map((n) => n.name)).toEqual(["Course"]);
+      // IDs stay unique across parents
+      expect(tree.children[0].children[0].id).not.toBe(tree.children[1].children[0].id);
+    });
+
+    it("should detect and mark cycles", async () => {
+      createMockVault(app, [
+        { path: "A.md", properties: { up: "[[C]]" } },
+        { path: "B.md", properties: { up: "[[A]]" } },
+        { path: "C.md", properties: { up: "[[B]]" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFromHierarchy({
+        name: "MOCs",
+        levels: [parentLevel],
+        showPartialMatches: false,
+      });
+
+      // The loop has no root, so it starts from the first note
+      expect(tree.children.map((n) => n.name)).toEqual(["A"]);
+
+      const a = tree.children[0];
+      const b = a.children[0];
+      const c = b.children[0];
+      expect([b.name, c.name]).toEqual(["B", "C"]);
+
+      const marker = c.children[0];
+      expect(marker.name).toBe("A");
+      expect(marker.metadata?.cycle).toBe(true);
+      expect(marker.children).toHaveLength(0);
+      expect(a.fileCount).toBe(3);
+    });
+
+    it("should show breadcrumbs in flattened mode", async () => {
+      createMockVault(app, [
+        { path: "Home.md" },
+        { path: "Projects.md", properties: { up: "[[Home]]" } },
+      ]);
+      await indexer.initialize();
+
+      const tree = builder.buildFlattenedTree({
+        name: "Flat",
+        levels: [parentLevel],
+        showPartialMatches: false,
+      });
+
+      expect(tree.children.map((n) => n.name)).toEqual(["Home", "Home / Projects"]);
+    });
+  });
 });
@@ -217,6 +217,46 @@ describe("TreeComponent", () => {
       expect(count?.textContent).toBe("(2)");
     });
 
+    it("should display the unique count when the view counts unique files", () => {
+      const projectNode = mockTree.children.find((n) => n.id === "tag:project")!;
+      projectNode.uniqueFileCount = 1;
+      treeComponent.setCountMode("unique");
+      treeComponent.render(mockTree, container);
+
+      const header = container.querySelector('[data-node-id="tag:project"] .tree-node-header');
+      expect(header?.querySelector(".tree-node-count")?.textContent).toBe("(1)");
+      expect(header?.getAttribute("title")).toContain("1 unique file(s), 2 occurrence(s)");
+    });
+
+    it("should display aggregate values before the file count", () => {
+      const projectNode = mockTree.children.find((n) => n.id === "tag:project")!;
+      projectNode.aggregates = [8, null];
+      treeComponent.setAggregates([
+        { function: "sum", property: "estimate" },
+        { function: "max", stat: "mtime", label: "Last edit" },
+      ]);
+      treeComponent.render(mockTree, container);
+
+      const header = container.querySelector('[data-node-id="tag:project"] .tree-node-header');
+      const aggregates = header?.querySelectorAll(".tree-node-aggregate");
+      expect(Array.from(aggregates ?? []).map((el) => el.textContent)).toEqual(["sum estimate 8"]);
+      expect(header?.getAttribute("title")).toContain("sum estimate: 8");
+    });
+
+    it("should display a progress bar before the file count", () => {
+      const projectNode = mockTree.children.find((n) => n.id === "tag:project")!;
+      projectNode.progress = { done: 1, total: 3 };
+      treeComponent.render(mockTree, container);
+
+      const header = container.querySelector('[data-node-id="tag:project"] .tree-node-header');
+      const bar = header?.querySelector(".tree-node-progress-bar") as HTMLProgressElement;
+      expect(bar.value).toBe(1);
+      expect(bar.max).toBe(3);
+      expect(header?.querySelector(".tree-node-progress-percent")?.textContent).toBe("33%");
+      expect(header?.querySelector(".tree-node-progress + .tree-node-count")).not.toBeNull();
+      expect(header?.getAttribute("title")).toContain("1 of 3 done (33%)");
+    });
+
     it("should expand nodes to default depth (1)", () => {
       treeComponent.setDefaultExpandDepth(1);
       treeComponent.render(mockTree, container);
@@ -398,6 +438,90 @@ describe("TreeComponent", () => {
     });
   });
 
+  describe("heading outline", () => {
+    const headings = [
+      { heading: "Intro", level: 1, position: { start: { line: 0 } } },
+      { heading: "Details", level: 2, position: { start: { line: 4 } } },
+      { heading: "Notes", level: 3, position: { start: { line: 8 } } },
+      { heading: "End", level: 1, position: { start: { line: 12 } } },
+    ];
+    let openFile: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      openFile = vi.fn();
+      app = {
+        workspace: { getLeaf: vi.fn(() => ({ openFile })) },
+        metadataCache: {
+          getFileCache: vi.fn((file: TFile) =>
+            file.path === "file1.md" ? { headings } : {}
+          ),
+        },
+      };
+      treeComponent = new TreeComponent(app);
+      treeComponent.setDefaultExpandDepth(2);
+    });
+
+    const fileNodeId = "file:file1.md";
+    const getFileNode = () =>
+      mockTree.children[0].children[0].children[0];
+
+    it("should not make file nodes expandable when disabled", () => {
+      treeComponent.render(mockTree, container);
+
+      const fileNode = container.querySelector(`[data-node-id="${fileNodeId}"]`);
+      expect(fileNode?.querySelector(".tree-collapse-icon")).toBeNull();
+    });
+
+    it("should build headings only when a file is expanded", () => {
+      treeComponent.setShowHeadings(true);
+      treeComponent.render(mockTree, container);
+
+      const fileNode = container.querySelector(`[data-node-id="${fileNodeId}"]`);
+      expect(fileNode?.querySelector(".tree-collapse-icon")).toBeTruthy();
+      expect(getFileNode().children.length).toBe(0);
+
+      // Files without headings stay leaves
+      const otherFile = container.querySelector('[data-node-id="file:file2.md"]');
+      expect(otherFile?.querySelector(".tree-collapse-icon")).toBeNull();
+
+      treeComponent.toggleNode(fileNodeId);
+
+      const outline = getFileNode().children;
+      expect(outline.map((n) => n.name)).toEqual(["Intro", "End"]);
+      expect(outline[0].children.map((n) => n.name)).toEqual(["Details"]);
+      expect(outline[0].children[0].children.map((n) => n.name)).toEqual(["Notes"]);
+      expect(outline[0].children[0].parent).toBe(outline[0]);
+
+      const headingNodes = container.querySelectorAll('[data-node-type="heading"]');
+      expect(headingNodes.length).toBe(2);
+    });
+
+    it("should open the file at the heading when clicked", () => {
+      treeComponent.setShowHeadings(true);
+      treeComponent.render(mockTree, container);
+      treeComponent.toggleNode(fileNodeId);
+
+      const endNode = container.querySelector(`[data-node-id="${fileNodeId}/heading:12"]`);
+      const header = endNode?.querySelector(".tree-node-header") as HTMLElement;
+      header.click();
+
+      expect(openFile).toHaveBeenCalledWith(getFileNode().files[0], { eState: { line: 12 } });
+    });
+
+    it("should expand a file into headings with the right arrow key", () => {
+      treeComponent.setShowHeadings(true);
+      treeComponent.render(mockTree, container);
+
+      const fileNode = container.querySelector(`[data-node-id="${fileNodeId}"]`);
+      const header = fileNode?.querySelector(".tree-node-header") as HTMLElement;
+      header.dispatchEvent(new FocusEvent("focusin", { bubbles: true }));
+      header.dispatchEvent(new KeyboardEvent("keydown", { key: "ArrowRight", bubbles: true }));
+
+      expect(treeComponent.getExpandedNodes().has(fileNodeId)).toBe(true);
+      expect(container.querySelector(`[data-node-id="${fileNodeId}/heading:0"]`)).toBeTruthy();
+    });
+  });
+
   describe("default expansion depth", () => {
     it("should set and use default expansion depth", () => {
       treeComponent.setDefaultExpandDepth(2);
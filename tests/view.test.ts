@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { App } from "obsidian";
+import { MetaGrouperView } from "../src/view";
+import { VaultIndexer } from "../src/indexer/vault-indexer";
+import { TreeBuilder } from "../src/tree/tree-builder";
+import { TreeComponent } from "../src/components/tree-component";
+import { HierarchyConfig } from "../src/types/hierarchy-config";
+import { DEFAULT_VIEW_STATE } from "../src/types/view-state";
+import { createMockVault, clearMockVault } from "./helpers/mock-vault";
+
+// UI classes the view's modules extend or create (not needed by these tests)
+vi.mock("obsidian", async () => {
+  const actual = await vi.importActual("obsidian");
+  return {
+    ...actual,
+    Modal: class {},
+    Setting: class {},
+    Notice: class {},
+    DropdownComponent: class {},
+    ButtonComponent: class {},
+    ToggleComponent: class {},
+    setIcon: vi.fn(),
+  };
+});
+
+describe("MetaGrouperView", () => {
+  let app: App;
+
+  const createPlugin = (settings: any) => ({
+    app,
+    settings,
+    saveSettings: vi.fn(),
+  });
+
+  // Create a view with the parts it needs to handle sort changes and save its state
+  const createView = (plugin: any) => {
+    const view = new MetaGrouperView({} as any, plugin);
+    const indexer = new VaultIndexer(app);
+    (view as any).indexer = indexer;
+    (view as any).treeBuilder = new TreeBuilder(app, indexer);
+    (view as any).treeComponent = new TreeComponent(app, () => {}, () => {}, () => {});
+    return { view, indexer };
+  };
+
+  beforeEach(() => {
+    app = new App();
+    clearMockVault(app);
+    createMockVault(app, [
+      { path: "a.md", properties: { status: "alpha" } },
+      { path: "b.md", properties: { status: "beta" } },
+      { path: "c.md", properties: { status: "gamma" } },
+    ]);
+  });
+
+  it("should keep a context menu sort change across saving and reloading", async () => {
+    const config: HierarchyConfig = {
+      name: "Status",
+      levels: [{ type: "property", key: "status", separateListValues: true, showPropertyName: false }],
+      showPartialMatches: false,
+    };
+    const plugin = createPlugin({
+      savedViews: [config],
+      defaultViewName: "Status",
+      // An override saved earlier must not beat the new choice
+      viewStates: { Status: { ...DEFAULT_VIEW_STATE, levelSortOverrides: { 0: "alpha-asc" } } },
+    });
+
+    const { view, indexer } = createView(plugin);
+    await indexer.initialize();
+    const node = (view as any).treeBuilder.buildFromHierarchy(config, plugin.settings.viewStates.Status).children[0];
+
+    (view as any).handleNodeSortChange(node, "alpha-desc");
+    (view as any).saveViewStateImmediate();
+
+    // Reload: settings go through JSON, and a new view builds the tree from them
+    const reloaded = createPlugin(JSON.parse(JSON.stringify(plugin.settings)));
+    const { view: reloadedView, indexer: reloadedIndexer } = createView(reloaded);
+    await reloadedIndexer.initialize();
+
+    const tree = (reloadedView as any).treeBuilder.buildFromHierarchy(
+      reloaded.settings.savedViews[0],
+      reloaded.settings.viewStates.Status
+    );
+    expect(tree.children.map((n: any) => n.name)).toEqual(["gamma", "beta", "alpha"]);
+  });
+
+  it("should preserve level sort overrides when saving the view state", () => {
+    const plugin = createPlugin({
+      savedViews: [],
+      defaultViewName: "Status",
+      viewStates: { Status: { ...DEFAULT_VIEW_STATE, levelSortOverrides: { 1: "count-desc" } } },
+    });
+
+    const { view } = createView(plugin);
+    (view as any).saveViewStateImmediate();
+
+    expect(plugin.settings.viewStates.Status.levelSortOverrides).toEqual({ 1: "count-desc" });
+  });
+});